@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native bindings used by the /api/detect route can't be bundled
+  serverExternalPackages: ["onnxruntime-node"],
 };
 
 export default nextConfig;
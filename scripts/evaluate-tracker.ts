@@ -0,0 +1,41 @@
+// Scores EntityTracker on the synthetic fixtures, or on a recorded
+// sequence given as MOTChallenge det.txt and gt.txt files:
+//
+//   npm run evaluate
+//   npm run evaluate -- path/to/det.txt path/to/gt.txt [fps]
+
+import { readFileSync } from 'fs';
+import { basename, dirname } from 'path';
+import { evaluateSequence, formatResults, sequenceFromMot } from '../src/utils/evaluation';
+import { EVALUATION_FIXTURES } from '../src/utils/evaluation/fixtures';
+import type { EvaluationSequence } from '../src/types/evaluation';
+
+async function main() {
+  const [detPath, gtPath, fps] = process.argv.slice(2);
+  let sequences: EvaluationSequence[];
+
+  if (detPath) {
+    if (!gtPath) {
+      throw new Error('Pass both a det.txt and a gt.txt file');
+    }
+    sequences = [sequenceFromMot(
+      basename(dirname(detPath)) || 'sequence',
+      readFileSync(detPath, 'utf8'),
+      readFileSync(gtPath, 'utf8'),
+      fps ? Number(fps) : undefined
+    )];
+  } else {
+    sequences = EVALUATION_FIXTURES.map(createSequence => createSequence());
+  }
+
+  const results = [];
+  for (const sequence of sequences) {
+    results.push(await evaluateSequence(sequence));
+  }
+  console.log(formatResults(results));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,130 @@
+import { detectJpeg, isServerModelUrl } from '@/utils/server/nodeDetectors';
+import type { DetectOptions, DetectorConfig, YoloVariant } from '@/types/detector';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const MAX_DETECTIONS = 500;
+const COCO_SSD_BASES = ['mobilenet_v1', 'mobilenet_v2', 'lite_mobilenet_v2'];
+const YOLO_VARIANTS: YoloVariant[] = ['yolov8', 'yolo-nas'];
+
+// With DETECT_TOKEN set, requests must carry it as a bearer token
+function isAuthorized(request: Request): boolean {
+  const token = process.env.DETECT_TOKEN;
+  return !token || request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+// Reads the body as it streams in, giving up as soon as it passes the
+// limit, so a missing or wrong Content-Length can't make the server buffer
+// an arbitrarily large upload. Null when the body is too large.
+async function readBody(request: Request, limit: number): Promise<Uint8Array | null> {
+  if (!request.body) return new Uint8Array(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+}
+
+function parseConfig(value: string | null): DetectorConfig | null {
+  if (!value) return null;
+  let config: Partial<DetectorConfig>;
+  try {
+    config = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  if (config.kind === 'coco-ssd') {
+    if (config.base !== undefined && !COCO_SSD_BASES.includes(config.base)) return null;
+    return { kind: 'coco-ssd', base: config.base };
+  }
+
+  if (config.kind === 'yolo-onnx') {
+    if (typeof config.modelUrl !== 'string' || !isServerModelUrl(config.modelUrl)) return null;
+    if (!YOLO_VARIANTS.includes(config.variant as YoloVariant)) return null;
+    if (config.labels !== undefined && !(Array.isArray(config.labels) && config.labels.every(l => typeof l === 'string'))) {
+      return null;
+    }
+    if (config.inputSize !== undefined && !(Number.isInteger(config.inputSize) && config.inputSize >= 32 && config.inputSize <= 2048)) {
+      return null;
+    }
+    if (config.iouThreshold !== undefined && !(typeof config.iouThreshold === 'number' && config.iouThreshold >= 0 && config.iouThreshold <= 1)) {
+      return null;
+    }
+    return {
+      kind: 'yolo-onnx',
+      modelUrl: config.modelUrl,
+      variant: config.variant as YoloVariant,
+      labels: config.labels,
+      inputSize: config.inputSize,
+      iouThreshold: config.iouThreshold
+    };
+  }
+  return null;
+}
+
+function parseOptions(params: URLSearchParams): DetectOptions {
+  const minScore = Number(params.get('minScore'));
+  const maxDetections = Number(params.get('maxDetections'));
+  return {
+    minScore: params.has('minScore') && minScore >= 0 && minScore <= 1 ? minScore : undefined,
+    maxDetections: params.has('maxDetections') && Number.isInteger(maxDetections) && maxDetections > 0
+      ? Math.min(maxDetections, MAX_DETECTIONS)
+      : undefined
+  };
+}
+
+// Runs the selected detector on one JPEG frame. The detector config is
+// passed as JSON in the "config" query parameter; boxes are returned in the
+// uploaded image's pixel coordinates.
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const config = parseConfig(url.searchParams.get('config'));
+  if (!config) {
+    return Response.json({ error: 'Query must contain a valid detector "config"' }, { status: 400 });
+  }
+
+  const length = Number(request.headers.get('content-length'));
+  if (length > MAX_BODY_BYTES) {
+    return Response.json({ error: `Frames must be at most ${MAX_BODY_BYTES} bytes` }, { status: 413 });
+  }
+
+  const bytes = await readBody(request, MAX_BODY_BYTES);
+  if (!bytes) {
+    return Response.json({ error: `Frames must be at most ${MAX_BODY_BYTES} bytes` }, { status: 413 });
+  }
+  // JPEG files start with an SOI marker
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return Response.json({ error: 'Body must be a JPEG image' }, { status: 415 });
+  }
+
+  try {
+    return Response.json(await detectJpeg(config, bytes, parseOptions(url.searchParams)));
+  } catch (error) {
+    console.error('Error running detection:', error);
+    return Response.json({ error: error instanceof Error ? error.message : 'Detection failed' }, { status: 500 });
+  }
+}
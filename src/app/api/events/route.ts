@@ -0,0 +1,105 @@
+import { eventStoreFromEnv } from '@/utils/server/eventStore';
+import { forwardToWebhooks, webhookUrlsFromEnv } from '@/utils/server/webhooks';
+import type { SinkEvent } from '@/types/events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const MAX_BATCH_EVENTS = 1000;
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+const EVENT_TYPES = ['track.confirm', 'track.lost', 'track.reacquire', 'track.exit', 'alert', 'frame'];
+
+// With EVENT_SINK_TOKEN set, requests must carry it as a bearer token
+function isAuthorized(request: Request): boolean {
+  const token = process.env.EVENT_SINK_TOKEN;
+  return !token || request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+function isSinkEvent(value: unknown): value is SinkEvent {
+  const event = value as Partial<SinkEvent> | null;
+  return typeof event?.id === 'string' &&
+    typeof event.type === 'string' && EVENT_TYPES.includes(event.type) &&
+    typeof event.timestamp === 'number' &&
+    typeof event.source === 'string';
+}
+
+// Accepts a batch of events from the client, stores its new events and
+// forwards them to the configured webhooks. The batch counts as delivered
+// once one sink has it; when none does, 502 tells the client to keep it
+// queued and retry.
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Body must be JSON' }, { status: 400 });
+  }
+
+  const events = (body as { events?: unknown } | null)?.events;
+  if (!Array.isArray(events)) {
+    return Response.json({ error: 'Body must contain an "events" array' }, { status: 400 });
+  }
+  if (events.length > MAX_BATCH_EVENTS) {
+    return Response.json({ error: `At most ${MAX_BATCH_EVENTS} events per request` }, { status: 413 });
+  }
+  const invalid = events.findIndex(event => !isSinkEvent(event));
+  if (invalid !== -1) {
+    return Response.json({ error: `Event ${invalid} is not a valid event` }, { status: 400 });
+  }
+
+  const store = eventStoreFromEnv();
+  const urls = webhookUrlsFromEnv();
+
+  // The store drops events it already has, so only new ones are forwarded.
+  // Without it, webhooks get every event and should de-duplicate on id.
+  let stored = false;
+  let fresh: SinkEvent[] = events;
+  if (store) {
+    try {
+      fresh = await store.append(events);
+      stored = true;
+    } catch (error) {
+      console.error('Error storing events:', error);
+    }
+  }
+  const webhooks = fresh.length > 0 ? await forwardToWebhooks(urls, { events: fresh }) : [];
+  webhooks.filter(result => !result.ok).forEach(result => {
+    console.error(`Webhook ${result.url} failed:`, result.error ?? result.status);
+  });
+
+  const delivered = stored || webhooks.some(result => result.ok);
+  return Response.json(
+    { accepted: delivered ? events.length : 0, duplicates: events.length - fresh.length, stored, webhooks },
+    { status: delivered || (!store && urls.length === 0) ? 200 : 502 }
+  );
+}
+
+// Recent stored events, oldest first. Query parameters: limit, since (ms
+// timestamp), type (repeatable) and source.
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const store = eventStoreFromEnv();
+  if (!store) {
+    return Response.json({ error: 'The event store is disabled' }, { status: 404 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const limit = Math.min(Math.max(Number(params.get('limit')) || DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+  const since = params.has('since') ? Number(params.get('since')) : undefined;
+
+  const events = await store.query({
+    limit,
+    since: Number.isFinite(since) ? since : undefined,
+    types: params.getAll('type'),
+    source: params.get('source') ?? undefined
+  });
+  return Response.json({ events });
+}
@@ -0,0 +1,516 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { JSX } from 'react';
+import Link from 'next/link';
+import { DEFAULT_DETECTOR_CONFIG } from '../../utils/detectors';
+import { DetectionWorkerClient } from '../../utils/detectionWorkerClient';
+import { DetectorSelector } from '../../components/DetectorSelector';
+import { DetectionLog } from '../../components/DetectionLog';
+import { StreamTile } from '../../components/StreamTile';
+import type { TileElements } from '../../components/StreamTile';
+import { StreamSourcePicker } from '../../components/StreamSourcePicker';
+import { captureThumbnail } from '../../utils/thumbnails';
+import { DEFAULT_OVERLAY_STYLE, OverlayRenderer } from '../../utils/overlayRenderer';
+import type { OverlayStyle } from '../../utils/overlayRenderer';
+import { DEFAULT_TRACKER_OPTIONS } from '../../utils/entityTracker';
+import { DEFAULT_DETECTION_FILTER, normalizeDetectionFilter } from '../../utils/detectionFilter';
+import { DEFAULT_PRIVACY_SETTINGS, normalizePrivacySettings, redactionsFor } from '../../utils/redaction';
+import { DEFAULT_TAXONOMY, addLabels, parseTaxonomy } from '../../utils/taxonomy';
+import { listVideoDevices, stopStream } from '../../utils/mediaSources';
+import {
+  DETECTION_FILTER_KEY,
+  OVERLAY_STYLE_KEY,
+  PRIVACY_KEY,
+  TAXONOMY_KEY,
+  TRACKER_OPTIONS_KEY,
+  loadFromStorage
+} from '../../utils/storage';
+import type { EntityLogEntry, EntityTrackerOptions, TrackedEntity } from '../../types/entities';
+import type { DetectorConfig } from '../../types/detector';
+import type { FrameOptions, FrameResult } from '../../types/worker';
+import type { StreamSource } from '../../types/input';
+import type { Taxonomy } from '../../types/taxonomy';
+import type { DetectionFilter } from '../../types/filters';
+import type { PrivacySettings, Redaction } from '../../types/privacy';
+
+// Exited entities beyond this are dropped from the log; class counts are kept
+const MAX_LOG_ENTRIES = 400;
+// Minimum gap between thumbnail refreshes for one entity
+const THUMBNAIL_REFRESH_MS = 1000;
+
+const createStreamId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Log keys include the stream, since every stream numbers its tracks from 1
+const logKey = (stream: string, id: number) => `${stream}:${id}`;
+
+// Several cameras or files side by side. The streams take turns on one
+// detector in the worker, each with its own tracker, and share one log.
+export default function MultiCameraPage(): JSX.Element {
+  const [streams, setStreams] = useState<StreamSource[]>([]);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [detectorConfig, setDetectorConfig] = useState<DetectorConfig>(DEFAULT_DETECTOR_CONFIG);
+  const [isModelReady, setIsModelReady] = useState(false);
+  const [isModelLoading, setIsModelLoading] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState(0.5);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY);
+  const [detectionFilter, setDetectionFilter] = useState<DetectionFilter>(DEFAULT_DETECTION_FILTER);
+  const [trackerOptions, setTrackerOptions] = useState<EntityTrackerOptions>(DEFAULT_TRACKER_OPTIONS);
+  const [overlayStyle, setOverlayStyle] = useState<OverlayStyle>(DEFAULT_OVERLAY_STYLE);
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(DEFAULT_PRIVACY_SETTINGS);
+  const [logEntries, setLogEntries] = useState<EntityLogEntry[]>([]);
+  const [classCounts, setClassCounts] = useState<{ [className: string]: number }>({});
+  const [trackedCounts, setTrackedCounts] = useState<{ [stream: string]: number }>({});
+  const [showLog, setShowLog] = useState(true);
+
+  const clientRef = useRef<DetectionWorkerClient | null>(null);
+  const streamsRef = useRef(streams);
+  const thresholdRef = useRef(threshold);
+  const detectionFilterRef = useRef(detectionFilter);
+  const privacySettingsRef = useRef(privacySettings);
+  const overlayStyleRef = useRef(overlayStyle);
+  const taxonomyRef = useRef(taxonomy);
+  const tilesRef = useRef(new Map<string, TileElements>());
+  const renderersRef = useRef(new Map<string, OverlayRenderer>());
+  // Latest result and redacted regions of each stream
+  const lastResultsRef = useRef(new Map<string, FrameResult>());
+  const redactionsRef = useRef(new Map<string, Redaction[]>());
+  const entityLogRef = useRef(new Map<string, EntityLogEntry>());
+  const classCountsRef = useRef<{ [className: string]: number }>({});
+  const thumbnailTimesRef = useRef(new Map<string, number>());
+  const logVersionRef = useRef(0);
+  // Index of the stream to offer the detector next
+  const nextStreamRef = useRef(0);
+  const animationFrameRef = useRef<number | undefined>(undefined);
+
+  streamsRef.current = streams;
+  thresholdRef.current = threshold;
+  detectionFilterRef.current = detectionFilter;
+  privacySettingsRef.current = privacySettings;
+  overlayStyleRef.current = overlayStyle;
+  taxonomyRef.current = taxonomy;
+
+  // The worker client lives for the lifetime of the page
+  useEffect(() => {
+    const client = new DetectionWorkerClient();
+    client.onError = (message) => console.error('Detection error:', message);
+    clientRef.current = client;
+
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  // Settings are edited on the single-stream page and shared through storage
+  useEffect(() => {
+    try {
+      setTaxonomy(parseTaxonomy(JSON.stringify(loadFromStorage<Taxonomy>(TAXONOMY_KEY, DEFAULT_TAXONOMY))));
+    } catch (error) {
+      console.error('Error restoring taxonomy:', error);
+    }
+    setDetectionFilter(normalizeDetectionFilter(
+      loadFromStorage<Partial<DetectionFilter>>(DETECTION_FILTER_KEY, {})
+    ));
+    setTrackerOptions({
+      ...DEFAULT_TRACKER_OPTIONS,
+      ...loadFromStorage<Partial<EntityTrackerOptions>>(TRACKER_OPTIONS_KEY, {})
+    });
+    setOverlayStyle({
+      ...DEFAULT_OVERLAY_STYLE,
+      ...loadFromStorage<Partial<OverlayStyle>>(OVERLAY_STYLE_KEY, {}),
+      // USB cameras face the scene, so nothing is mirrored here
+      mirror: false
+    });
+    setPrivacySettings(normalizePrivacySettings(
+      loadFromStorage<Partial<PrivacySettings>>(PRIVACY_KEY, {})
+    ));
+  }, []);
+
+  // Device labels and ids are only exposed once camera permission has been
+  // granted, so ask for it first when they are missing
+  const refreshDevices = useCallback(async () => {
+    try {
+      let found = await listVideoDevices();
+      if (found.some(device => !device.label || !device.deviceId)) {
+        stopStream(await navigator.mediaDevices.getUserMedia({ video: true, audio: false }));
+        found = await listVideoDevices();
+      }
+      setDevices(found);
+    } catch (error) {
+      console.error('Error listing cameras:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+  }, [refreshDevices]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+
+    let isSubscribed = true;
+
+    const initializeModel = async () => {
+      setIsModelReady(false);
+      setIsModelLoading(true);
+      setModelError(null);
+      try {
+        // Always in the browser, so privacy mode holds here too
+        await client.load(detectorConfig);
+        if (isSubscribed) setIsModelReady(true);
+      } catch (error) {
+        console.error('Error loading model:', error);
+        if (isSubscribed) setModelError(error instanceof Error ? error.message : String(error));
+      } finally {
+        if (isSubscribed) setIsModelLoading(false);
+      }
+    };
+
+    initializeModel();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [detectorConfig]);
+
+  useEffect(() => {
+    if (isModelReady) clientRef.current?.configureTracker(trackerOptions);
+  }, [trackerOptions, isModelReady]);
+
+  useEffect(() => {
+    clientRef.current?.setTaxonomy(taxonomy);
+    renderersRef.current.forEach(renderer => renderer.setTaxonomy(taxonomy));
+  }, [taxonomy]);
+
+  // Open-vocabulary prompts and custom label maps join this page's copy of
+  // the taxonomy; the single-stream page owns the saved one
+  const applyDetectorConfig = (config: DetectorConfig) => {
+    setDetectorConfig(config);
+    const labels = config.kind === 'owl-vit' ? config.prompts : config.kind === 'yolo-onnx' ? config.labels : undefined;
+    if (labels) setTaxonomy(current => addLabels(current, labels));
+  };
+
+  useEffect(() => {
+    renderersRef.current.forEach(renderer => renderer.configure(overlayStyle));
+  }, [overlayStyle]);
+
+  const rendererFor = useCallback((stream: string) => {
+    let renderer = renderersRef.current.get(stream);
+    if (!renderer) {
+      renderer = new OverlayRenderer(overlayStyleRef.current);
+      renderer.setTaxonomy(taxonomyRef.current);
+      renderersRef.current.set(stream, renderer);
+    }
+    return renderer;
+  }, []);
+
+  const onTileElements = useCallback((id: string, elements: TileElements | null) => {
+    if (elements) {
+      tilesRef.current.set(id, elements);
+    } else {
+      tilesRef.current.delete(id);
+    }
+  }, []);
+
+  const addCamera = (device: MediaDeviceInfo) => {
+    const label = device.label || `Camera ${devices.indexOf(device) + 1}`;
+    setStreams(prev => [
+      ...prev,
+      { id: createStreamId(), label, input: { kind: 'webcam', deviceId: device.deviceId, facingMode: 'environment' } }
+    ]);
+  };
+
+  const addFiles = (files: File[]) => {
+    setStreams(prev => [
+      ...prev,
+      ...files.map(file => ({ id: createStreamId(), label: file.name, input: { kind: 'file' as const, file } }))
+    ]);
+  };
+
+  // Entities of a removed stream stay in the log as exited
+  const removeStream = (id: string) => {
+    setStreams(prev => prev.filter(stream => stream.id !== id));
+    // Updated now, so results still in flight for it are dropped before the re-render
+    streamsRef.current = streamsRef.current.filter(stream => stream.id !== id);
+    clientRef.current?.removeStream(id);
+    renderersRef.current.delete(id);
+    lastResultsRef.current.get(id)?.frame?.close();
+    lastResultsRef.current.delete(id);
+    redactionsRef.current.delete(id);
+    entityLogRef.current.forEach((entry, key) => {
+      if (key.startsWith(`${id}:`)) entry.status = 'exited';
+    });
+    logVersionRef.current++;
+  };
+
+  const drawResult = useCallback((result: FrameResult) => {
+    const tile = tilesRef.current.get(result.stream);
+    const ctx = tile?.canvas.getContext('2d');
+    if (!tile || !ctx) return;
+
+    if (tile.canvas.width !== result.width || tile.canvas.height !== result.height) {
+      tile.canvas.width = result.width;
+      tile.canvas.height = result.height;
+    }
+
+    const items = result.entities.map(entity => ({
+      id: entity.id,
+      class: entity.class,
+      bbox: entity.bbox,
+      score: entity.score,
+      predicted: entity.isPredicted,
+      mask: entity.mask,
+      keypoints: entity.keypoints
+    }));
+    const privacy = privacySettingsRef.current;
+    const redactions = redactionsFor([...result.redactTargets, ...items], privacy);
+    redactionsRef.current.set(result.stream, redactions);
+
+    // Privacy mode draws the analysed frame, which the redactions match
+    rendererFor(result.stream).render(ctx, items, tile.canvas.width, tile.canvas.height, {
+      background: privacy.enabled ? result.frame : undefined,
+      redactions
+    });
+  }, [rendererFor]);
+
+  const refreshThumbnail = useCallback((stream: string, entity: TrackedEntity, force = false) => {
+    const key = logKey(stream, entity.id);
+    const entry = entityLogRef.current.get(key);
+    const source = lastResultsRef.current.get(stream)?.frame ?? tilesRef.current.get(stream)?.video;
+    if (!entry || !source) return;
+
+    const now = Date.now();
+    if (!force && now - (thumbnailTimesRef.current.get(key) || 0) < THUMBNAIL_REFRESH_MS) return;
+
+    const thumbnail = captureThumbnail(source, entity.bbox, undefined, redactionsRef.current.get(stream));
+    if (thumbnail) {
+      entry.thumbnail = thumbnail;
+      thumbnailTimesRef.current.set(key, now);
+    }
+  }, []);
+
+  // Applies a result's track events and entity updates to the combined log
+  const updateLog = useCallback((result: FrameResult) => {
+    const { stream } = result;
+    const label = streamsRef.current.find(s => s.id === stream)?.label;
+    const log = entityLogRef.current;
+
+    result.events.forEach(event => {
+      if (event.type === 'enter') return;
+      const { entity, timestamp } = event;
+      const key = logKey(stream, entity.id);
+      const status = event.type === 'lost' ? 'lost' : event.type === 'exit' ? 'exited' : 'active';
+      const entry = log.get(key);
+      if (entry) {
+        entry.status = status;
+        entry.lastSeen = Math.max(entry.lastSeen, entity.lastSeen);
+        entry.dwellMs = entry.lastSeen - entry.firstSeen;
+      } else {
+        if (event.type === 'confirm') {
+          classCountsRef.current[entity.class] = (classCountsRef.current[entity.class] || 0) + 1;
+        }
+        log.set(key, {
+          id: entity.id,
+          class: entity.class,
+          status,
+          firstSeen: entity.firstSeen,
+          lastSeen: timestamp,
+          dwellMs: timestamp - entity.firstSeen,
+          peakConfidence: entity.score,
+          thumbnail: null,
+          source: label
+        });
+      }
+      if (event.type === 'confirm') refreshThumbnail(stream, entity, true);
+      if (event.type === 'exit') thumbnailTimesRef.current.delete(key);
+    });
+
+    result.entities.forEach(entity => {
+      const entry = log.get(logKey(stream, entity.id));
+      if (!entry || entity.isPredicted || entity.lastSeen !== result.timestamp) return;
+      entry.lastSeen = entity.lastSeen;
+      entry.dwellMs = entity.lastSeen - entity.firstSeen;
+      if (entity.score > entry.peakConfidence) {
+        entry.peakConfidence = entity.score;
+        refreshThumbnail(stream, entity);
+      }
+    });
+    logVersionRef.current++;
+  }, [refreshThumbnail]);
+
+  // Update log state periodically instead of every frame
+  useEffect(() => {
+    let renderedVersion = -1;
+
+    const updateInterval = setInterval(() => {
+      const counts: { [stream: string]: number } = {};
+      lastResultsRef.current.forEach((result, stream) => {
+        counts[stream] = result.entities.length;
+      });
+      setTrackedCounts(counts);
+
+      if (logVersionRef.current === renderedVersion) return;
+      renderedVersion = logVersionRef.current;
+
+      // Drop the oldest exited entities once the log grows too long
+      const log = entityLogRef.current;
+      if (log.size > MAX_LOG_ENTRIES) {
+        Array.from(log.entries())
+          .filter(([, entry]) => entry.status === 'exited')
+          .sort(([, a], [, b]) => a.lastSeen - b.lastSeen)
+          .slice(0, log.size - MAX_LOG_ENTRIES)
+          .forEach(([key]) => log.delete(key));
+      }
+
+      setLogEntries(Array.from(log.values(), entry => ({ ...entry })));
+      setClassCounts({ ...classCountsRef.current });
+    }, 250);
+
+    return () => {
+      clearInterval(updateInterval);
+    };
+  }, []);
+
+  // Capture loop: whenever the worker is idle, hand it the next stream's
+  // current frame in turn, so every stream gets an equal share of the model
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client || !isModelReady) return;
+
+    client.onResult = (result) => {
+      // A stream closed while its frame was analysed must not be re-added
+      if (!streamsRef.current.some(stream => stream.id === result.stream)) {
+        result.frame?.close();
+        return;
+      }
+      const previousFrame = lastResultsRef.current.get(result.stream)?.frame;
+      lastResultsRef.current.set(result.stream, result);
+      drawResult(result);
+      updateLog(result);
+      previousFrame?.close();
+    };
+
+    const tick = () => {
+      const ids = streamsRef.current.map(stream => stream.id);
+      if (!client.isBusy) {
+        for (let offset = 0; offset < ids.length; offset++) {
+          const index = (nextStreamRef.current + offset) % ids.length;
+          const video = tilesRef.current.get(ids[index])?.video;
+          if (!video || video.readyState < 2 || video.paused) continue;
+
+          nextStreamRef.current = index + 1;
+          const privacy = privacySettingsRef.current;
+          const options: FrameOptions = {
+            threshold: thresholdRef.current,
+            categories: [],
+            filter: detectionFilterRef.current,
+            redact: { classes: Object.keys(privacy.rules), minScore: privacy.minScore },
+            stream: ids[index],
+            returnFrame: privacy.enabled
+          };
+          client.submit(video, options, Date.now());
+          break;
+        }
+      }
+
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+
+    animationFrameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      client.onResult = null;
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [isModelReady, drawResult, updateLog]);
+
+  return (
+    <main className="min-h-screen p-4 bg-gray-900">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-3xl font-bold text-white">Multi-camera</h1>
+          <div className="flex gap-2">
+            <Link href="/" className="px-4 py-2 bg-gray-600 text-gray-200 rounded hover:bg-gray-500 transition-colors">
+              Single stream
+            </Link>
+            <button
+              onClick={() => setShowLog(!showLog)}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+            >
+              {showLog ? 'Hide Log' : 'Show Log'}
+            </button>
+          </div>
+        </div>
+
+        <div className="mb-4 bg-gray-800 p-4 rounded-lg space-y-4">
+          <DetectorSelector
+            config={detectorConfig}
+            onApply={applyDetectorConfig}
+            isLoading={isModelLoading}
+            error={modelError}
+          />
+
+          <div>
+            <label className="block text-white mb-2">Detection Threshold: {threshold}</label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+
+          <StreamSourcePicker
+            streams={streams}
+            devices={devices}
+            onAddCamera={addCamera}
+            onAddFiles={addFiles}
+            onRefreshDevices={refreshDevices}
+          />
+
+          <div className="text-gray-400 text-sm">
+            Classes, filters, tracker settings, overlay style and privacy mode are shared with the single-stream page.
+            {privacySettings.enabled && ' Privacy mode is on.'}
+          </div>
+        </div>
+
+        <div className={`grid grid-cols-1 gap-4 ${showLog ? 'lg:grid-cols-3' : ''}`}>
+          <div className={showLog ? 'lg:col-span-2' : ''}>
+            {streams.length === 0 ? (
+              <div className="bg-gray-800 p-8 rounded-lg text-gray-400 text-center">
+                Add cameras or video files to start
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {streams.map(stream => (
+                  <StreamTile
+                    key={stream.id}
+                    stream={stream}
+                    onElements={onTileElements}
+                    onRemove={removeStream}
+                    trackedCount={trackedCounts[stream.id] || 0}
+                    hideVideo={privacySettings.enabled}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {showLog && (
+            <div className="h-[calc(100vh-16rem)] sticky top-4">
+              <DetectionLog entries={logEntries} classCounts={classCounts} taxonomy={taxonomy} />
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,280 +1,945 @@
 "use client";
 
-import React, { useRef, useEffect, useState, useMemo } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
 import type { JSX } from 'react';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
-import '@tensorflow/tfjs';
+import Link from 'next/link';
 import type { DetectedObject } from '@tensorflow-models/coco-ssd';
-import cocoClasses from '../utils/cocoClasses.json';
-import { EntityTracker } from '../utils/entityTracker';
-
-// Type definitions
-type CocoClass = {
-  category: string;
-  description: string;
-};
-
-type CocoClasses = {
-  [key: string]: CocoClass;
-};
-
-const typedCocoClasses = cocoClasses as CocoClasses;
-const categories = Array.from(new Set(Object.values(typedCocoClasses).map(item => item.category)));
-
-// Define colors for each category
-const categoryColors: { [key: string]: string } = {
-  people: '#FF0000',     // Red
-  vehicle: '#00FF00',    // Green
-  animal: '#0000FF',     // Blue
-  sports: '#FFA500',     // Orange
-  food: '#800080',       // Purple
-  kitchen: '#008080',    // Teal
-  furniture: '#FFD700',  // Gold
-  electronics: '#FF69B4', // Hot Pink
-  appliance: '#4B0082',  // Indigo
-  indoor: '#20B2AA',     // Light Sea Green
-  outdoor: '#FF6347',    // Tomato
-  accessory: '#98FB98'   // Pale Green
-};
+import { DEFAULT_DETECTOR_CONFIG, DEFAULT_INFERENCE_OPTIONS } from '../utils/detectors';
+import { DetectionWorkerClient } from '../utils/detectionWorkerClient';
+import { DetectorSelector } from '../components/DetectorSelector';
+import { InferenceSettings } from '../components/InferenceSettings';
+import { TrackerSettings } from '../components/TrackerSettings';
+import { DetectionLog } from '../components/DetectionLog';
+import { OverlaySettings } from '../components/OverlaySettings';
+import { ZoneOverlay } from '../components/ZoneOverlay';
+import { ZonePanel } from '../components/ZonePanel';
+import { InputSourceSelector } from '../components/InputSourceSelector';
+import { PlaybackControls } from '../components/PlaybackControls';
+import { RecordingPanel } from '../components/RecordingPanel';
+import { SessionControls } from '../components/SessionControls';
+import { ReplayViewer } from '../components/ReplayViewer';
+import { AnalyticsDashboard } from '../components/AnalyticsDashboard';
+import { HeatmapLayer } from '../components/HeatmapLayer';
+import { AlertRulesPanel } from '../components/AlertRulesPanel';
+import { AlertToasts } from '../components/AlertToasts';
+import { EventSinkPanel } from '../components/EventSinkPanel';
+import { TaxonomyManager } from '../components/TaxonomyManager';
+import { DetectionFilterSettings } from '../components/DetectionFilterSettings';
+import { SchedulerSettings } from '../components/SchedulerSettings';
+import { PerformanceHud } from '../components/PerformanceHud';
+import { PrivacyPanel } from '../components/PrivacyPanel';
+import { GalleryPanel } from '../components/GalleryPanel';
+import { captureCrop, captureFrame, captureResultThumbnail, captureThumbnail } from '../utils/thumbnails';
+import { DEFAULT_OVERLAY_STYLE, OverlayRenderer } from '../utils/overlayRenderer';
+import type { OverlayStyle } from '../utils/overlayRenderer';
+import { DEFAULT_TRACKER_OPTIONS } from '../utils/entityTracker';
+import { DEFAULT_DETECTION_FILTER, normalizeDetectionFilter } from '../utils/detectionFilter';
+import { DEFAULT_SCHEDULER_OPTIONS, InferenceScheduler } from '../utils/inferenceScheduler';
+import { DEFAULT_PRIVACY_SETTINGS, normalizePrivacySettings, redactionsFor } from '../utils/redaction';
+import { translateKeypoints } from '../utils/pose';
+import {
+  DETECTION_FILTER_KEY,
+  OVERLAY_STYLE_KEY,
+  PRIVACY_KEY,
+  TAXONOMY_KEY,
+  TRACKER_OPTIONS_KEY,
+  loadFromStorage,
+  saveToStorage
+} from '../utils/storage';
+import { ZoneCounter, parseZones, serializeZones } from '../utils/zoneCounter';
+import { SessionAnalytics } from '../utils/sessionAnalytics';
+import { DEFAULT_TAXONOMY, addLabels, parseTaxonomy, serializeTaxonomy } from '../utils/taxonomy';
+import { AlertEngine, exampleAlertRules, parseAlertRules, serializeAlertRules } from '../utils/alertEngine';
+import {
+  notificationPermission,
+  playChime,
+  requestNotificationPermission,
+  showNotification
+} from '../utils/alertNotifier';
+import { downloadBlob, downloadText } from '../utils/download';
+import { SessionRecorder, serializeSidecar } from '../utils/sessionRecorder';
+import { FrameRecorder, toRecordedFrame } from '../utils/frameRecorder';
+import { EventSink, toEventEntity } from '../utils/eventSink';
+import { exportFileNames, exportFrames } from '../utils/trackExport';
+import {
+  DEFAULT_GALLERY_SETTINGS,
+  EMPTY_SNAPSHOT_QUERY,
+  SNAPSHOT_SIZE,
+  SnapshotGallery,
+  snapshotsToZip
+} from '../utils/snapshotGallery';
+import { DEFAULT_WEBCAM_SOURCE, listVideoDevices, openWebcam, seekVideo, stopStream } from '../utils/mediaSources';
+import type { BBox } from '../utils/bbox';
+import type { EntityLogEntry, EntityTrackerOptions, TrackedEntity } from '../types/entities';
+import type { DetectorConfig, InferenceBackend, InferenceOptions } from '../types/detector';
+import type { FrameOptions, FrameResult, FrameSource } from '../types/worker';
+import type { InputSource, PlaybackState } from '../types/input';
+import type { ExportFormat, SessionSidecar } from '../types/recording';
+import type { Point, Zone, ZoneKind, ZoneStats } from '../types/zones';
+import type { AnalyticsSnapshot } from '../types/analytics';
+import type { AlertEvent, AlertRule } from '../types/alerts';
+import type { EventSinkSettings, EventSinkStatus } from '../types/events';
+import type { Taxonomy } from '../types/taxonomy';
+import type { DetectionFilter } from '../types/filters';
+import type { PerformanceStats, SchedulerOptions } from '../types/performance';
+import type { PrivacySettings, Redaction } from '../types/privacy';
+import type { GallerySettings, Snapshot, SnapshotQuery } from '../types/gallery';
+
+const ZONES_KEY = 'next-client-yolo:zones';
+const ALERT_RULES_KEY = 'next-client-yolo:alert-rules';
+const EVENT_SINK_KEY = 'next-client-yolo:event-sink';
+const INFERENCE_KEY = 'next-client-yolo:inference';
+const SCHEDULER_KEY = 'next-client-yolo:scheduler';
+const GALLERY_KEY = 'next-client-yolo:gallery';
+const DEFAULT_EVENT_SINK_SETTINGS: EventSinkSettings = { enabled: false, includeFrames: false, token: '' };
+const ZONE_COLORS = ['#00FFFF', '#FFFF00', '#FF00FF', '#7CFC00', '#FF8C00', '#1E90FF'];
+// Exited entities beyond this are dropped from the log; class counts are kept
+const MAX_LOG_ENTRIES = 200;
+// Minimum gap between thumbnail refreshes for one entity
+const THUMBNAIL_REFRESH_MS = 1000;
+// Fired alerts kept in the alerts panel, and toasts shown at once
+const MAX_ALERT_HISTORY = 50;
+const MAX_TOASTS = 4;
+// Frame rate assumed when stepping through files, which don't expose theirs
+const DEFAULT_FILE_FPS = 30;
+// Skipped frames move tracked boxes at most one result interval ahead
+const MAX_EXTRAPOLATION = 1;
 
 export default function VideoDetection(): JSX.Element {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const [model, setModel] = useState<cocoSsd.ObjectDetection | null>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const [inputSource, setInputSource] = useState<InputSource>(DEFAULT_WEBCAM_SOURCE);
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState>({
+    playing: false,
+    deterministic: true,
+    currentTime: 0,
+    duration: 0,
+    fps: DEFAULT_FILE_FPS
+  });
+  const [imageIndex, setImageIndex] = useState(0);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrameCount, setRecordedFrameCount] = useState(0);
+  const [isSessionRecording, setIsSessionRecording] = useState(false);
+  const [sessionElapsedMs, setSessionElapsedMs] = useState(0);
+  const [burnInOverlay, setBurnInOverlay] = useState(true);
+  const [session, setSession] = useState<{ video: Blob; videoUrl: string; sidecar: SessionSidecar } | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [showReplay, setShowReplay] = useState(false);
+  const [detectorConfig, setDetectorConfig] = useState<DetectorConfig>(DEFAULT_DETECTOR_CONFIG);
+  const [isModelReady, setIsModelReady] = useState(false);
+  const [isModelLoading, setIsModelLoading] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [inferenceOptions, setInferenceOptions] = useState<InferenceOptions>(DEFAULT_INFERENCE_OPTIONS);
+  const [inferenceStatus, setInferenceStatus] = useState<{ backend: InferenceBackend; inferenceMs: number; fallback?: string } | null>(null);
   const [threshold, setThreshold] = useState(0.5);
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
-  const [detections, setDetections] = useState<DetectedObject[]>([]);
-  const [detectionHistory, setDetectionHistory] = useState<{
-    [key: string]: {
-      count: number;
-      lastSeen: number;
-      confidence: number;
-      totalFrames: number;
-      consecutiveFrames: number;
-    };
-  }>({});
+  const [detectionFilter, setDetectionFilter] = useState<DetectionFilter>(DEFAULT_DETECTION_FILTER);
+  const [showDetectionFilter, setShowDetectionFilter] = useState(false);
+  const [schedulerOptions, setSchedulerOptions] = useState<SchedulerOptions>(DEFAULT_SCHEDULER_OPTIONS);
+  const [performanceStats, setPerformanceStats] = useState<PerformanceStats | null>(null);
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(DEFAULT_PRIVACY_SETTINGS);
+  const [showPrivacy, setShowPrivacy] = useState(false);
+  const [logEntries, setLogEntries] = useState<EntityLogEntry[]>([]);
+  const [classCounts, setClassCounts] = useState<{ [className: string]: number }>({});
   const [showLog, setShowLog] = useState(true);
-  const entityTrackerRef = useRef<EntityTracker>(new EntityTracker());
+  const [reidEnabled, setReidEnabled] = useState(false);
+  const [reidStatus, setReidStatus] = useState<string | null>(null);
+  const [trackerOptions, setTrackerOptions] = useState<EntityTrackerOptions>(DEFAULT_TRACKER_OPTIONS);
+  const [showTrackerSettings, setShowTrackerSettings] = useState(false);
+  const [overlayStyle, setOverlayStyle] = useState<OverlayStyle>(DEFAULT_OVERLAY_STYLE);
+  const [showOverlaySettings, setShowOverlaySettings] = useState(false);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [zoneStats, setZoneStats] = useState<{ [zoneId: string]: ZoneStats }>({});
+  const [drawingKind, setDrawingKind] = useState<ZoneKind | null>(null);
+  const [analytics, setAnalytics] = useState<AnalyticsSnapshot>(() => new SessionAnalytics().getSnapshot());
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>([]);
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const [notifications, setNotifications] = useState<NotificationPermission | 'unsupported'>('unsupported');
+  const [eventSinkSettings, setEventSinkSettings] = useState<EventSinkSettings>(DEFAULT_EVENT_SINK_SETTINGS);
+  const [eventSinkStatus, setEventSinkStatus] = useState<EventSinkStatus | null>(null);
+  const [showEventSink, setShowEventSink] = useState(false);
+  const [gallerySettings, setGallerySettings] = useState<GallerySettings>(DEFAULT_GALLERY_SETTINGS);
+  const [galleryQuery, setGalleryQuery] = useState<SnapshotQuery>(EMPTY_SNAPSHOT_QUERY);
+  const [gallerySnapshots, setGallerySnapshots] = useState<Snapshot[]>([]);
+  const [galleryVersion, setGalleryVersion] = useState(0);
+  const [galleryError, setGalleryError] = useState<string | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+  const workerClientRef = useRef<DetectionWorkerClient | null>(null);
+  const thresholdRef = useRef(threshold);
+  const selectedCategoriesRef = useRef(selectedCategories);
+  const detectionFilterRef = useRef(detectionFilter);
   const latestDetectionsRef = useRef<DetectedObject[]>([]);
+  const inferenceStatusRef = useRef<{ backend: InferenceBackend; inferenceMs: number; fallback?: string } | null>(null);
+  const schedulerRef = useRef(new InferenceScheduler());
+  // Latest result and when it arrived, for moving boxes on skipped frames
+  const lastResultRef = useRef<{ result: FrameResult; receivedAt: number } | null>(null);
+  const lastVideoTimeRef = useRef(-1);
+  const privacySettingsRef = useRef(privacySettings);
+  const gallerySettingsRef = useRef(gallerySettings);
+  // Regions redacted in the last drawn frame, reused for thumbnails,
+  // snapshots and recordings
+  const redactionsRef = useRef<Redaction[]>([]);
+  const entityLogRef = useRef<Map<number, EntityLogEntry>>(new Map());
+  const classCountsRef = useRef<{ [className: string]: number }>({});
+  const thumbnailTimesRef = useRef<Map<number, number>>(new Map());
+  const logVersionRef = useRef(0);
+  const zoneCounterRef = useRef(new ZoneCounter());
+  const analyticsRef = useRef(new SessionAnalytics());
+  const alertEngineRef = useRef(new AlertEngine());
+  const alertRulesRef = useRef(alertRules);
+  // Created on first use; it needs the browser
+  const eventSinkRef = useRef<EventSink | null>(null);
+  const eventSinkSettingsRef = useRef(eventSinkSettings);
+  const galleryRef = useRef(new SnapshotGallery());
+  const recorderRef = useRef(new FrameRecorder());
+  const overlayRendererRef = useRef(new OverlayRenderer());
+  // Created on first use; it needs the DOM
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
+  const inputSourceRef = useRef(inputSource);
+  const playbackRef = useRef(playback);
+  const imageIndexRef = useRef(imageIndex);
+  // Wall-clock time of frame 0 of a file, so media-time timestamps read as real times
+  const sessionStartRef = useRef(Date.now());
+  const steppingRef = useRef(false);
   const animationFrameRef = useRef<number | undefined>(undefined);
 
-  // Update detection history when new detections come in
+  // The worker client lives for the lifetime of the page
   useEffect(() => {
+    const client = new DetectionWorkerClient();
+    client.onError = (message) => console.error('Detection error:', message);
+    workerClientRef.current = client;
+
+    return () => {
+      client.dispose();
+      workerClientRef.current = null;
+    };
+  }, []);
+
+  const refreshThumbnail = useCallback((entity: TrackedEntity, force = false) => {
+    const entry = entityLogRef.current.get(entity.id);
+    const result = lastResultRef.current?.result;
+    const live = inputSourceRef.current.kind === 'images' ? imageRef.current : videoRef.current;
+    if (!entry || (!result?.frame && !live)) return;
+
     const now = Date.now();
-    const newHistory = { ...detectionHistory };
-    const currentClasses = new Set(detections.map(d => d.class));
-    
-    let hasChanges = false;
-    
-    // Update counts for current detections
-    detections.forEach(detection => {
-      const key = detection.class;
-      if (!newHistory[key]) {
-        newHistory[key] = {
-          count: 0,
-          lastSeen: now,
-          confidence: 0,
-          totalFrames: 0,
-          consecutiveFrames: 0
-        };
-        hasChanges = true;
-      }
-      
-      const entry = newHistory[key];
-      const updatedEntry = {
-        ...entry,
-        count: entry.count + 1,
-        lastSeen: now,
-        confidence: Math.max(entry.confidence, detection.score || 0),
-        totalFrames: entry.totalFrames + 1,
-        consecutiveFrames: entry.consecutiveFrames + 1
-      };
-      
-      if (JSON.stringify(entry) !== JSON.stringify(updatedEntry)) {
-        newHistory[key] = updatedEntry;
-        hasChanges = true;
+    const lastCapture = thumbnailTimesRef.current.get(entity.id) || 0;
+    if (!force && now - lastCapture < THUMBNAIL_REFRESH_MS) return;
+
+    // The analysed frame, when kept, is cropped with its own redactions. The
+    // live video is only used while privacy mode is off, as nothing there has
+    // been redacted yet.
+    const privacy = privacySettingsRef.current;
+    const thumbnail = result?.frame
+      ? captureResultThumbnail(result, entity.bbox, privacy)
+      : live && !privacy.enabled ? captureThumbnail(live, entity.bbox) : null;
+    if (thumbnail) {
+      entry.thumbnail = thumbnail;
+      thumbnailTimesRef.current.set(entity.id, now);
+    }
+  }, []);
+
+  // Keep the peak-confidence crop and last-seen time of every visible entity
+  const updateEntityLog = useCallback((entities: TrackedEntity[], timestamp: number) => {
+    entities.forEach(entity => {
+      const entry = entityLogRef.current.get(entity.id);
+      if (!entry || entity.isPredicted || entity.lastSeen !== timestamp) return;
+
+      entry.lastSeen = entity.lastSeen;
+      entry.dwellMs = entity.lastSeen - entity.firstSeen;
+      if (entity.score > entry.peakConfidence) {
+        entry.peakConfidence = entity.score;
+        refreshThumbnail(entity);
       }
+      logVersionRef.current++;
     });
+  }, [refreshThumbnail]);
 
-    // Update objects not in current frame
-    Object.keys(newHistory).forEach(key => {
-      if (!currentClasses.has(key)) {
-        const entry = newHistory[key];
-        if (entry.consecutiveFrames !== 0) {
-          entry.consecutiveFrames = 0;
-          hasChanges = true;
-        }
-        // Only remove if not seen for 10 seconds and no consecutive frames
-        if (now - entry.lastSeen > 10000 && entry.consecutiveFrames === 0) {
-          delete newHistory[key];
-          hasChanges = true;
-        }
+  // One log entry per tracked entity, driven by tracker lifecycle events.
+  // Events arrive every frame, so they mutate refs copied to state periodically.
+  useEffect(() => {
+    const client = workerClientRef.current;
+    if (!client) return;
+
+    const setStatus = (entity: TrackedEntity, status: EntityLogEntry['status'], timestamp: number) => {
+      const log = entityLogRef.current;
+      const entry = log.get(entity.id);
+      if (entry) {
+        entry.status = status;
+        entry.lastSeen = Math.max(entry.lastSeen, entity.lastSeen);
+        entry.dwellMs = entry.lastSeen - entry.firstSeen;
+      } else {
+        // Re-identified after the entry was pruned from the log
+        log.set(entity.id, {
+          id: entity.id,
+          class: entity.class,
+          status,
+          firstSeen: entity.firstSeen,
+          lastSeen: timestamp,
+          dwellMs: timestamp - entity.firstSeen,
+          peakConfidence: entity.score,
+          thumbnail: null
+        });
       }
-    });
+      logVersionRef.current++;
+    };
 
-    // Only update state if there are actual changes
-    if (hasChanges) {
-      setDetectionHistory(newHistory);
-    }
-  }, [detections]);
+    const unsubscribers = [
+      client.on('confirm', ({ entity, timestamp }) => {
+        classCountsRef.current[entity.class] = (classCountsRef.current[entity.class] || 0) + 1;
+        setStatus(entity, 'active', timestamp);
+      }),
+      client.on('lost', ({ entity, timestamp }) => setStatus(entity, 'lost', timestamp)),
+      client.on('reacquire', ({ entity, timestamp }) => setStatus(entity, 'active', timestamp)),
+      client.on('exit', ({ entity, timestamp }) => {
+        setStatus(entity, 'exited', timestamp);
+        thumbnailTimesRef.current.delete(entity.id);
+        zoneCounterRef.current.removeEntity(entity.id, timestamp);
+        analyticsRef.current.removeEntity(entity.id);
+      })
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
 
-  // Update detections state periodically instead of every frame
+  // Forward track lifecycle events to the events route while sending is on
   useEffect(() => {
+    const client = workerClientRef.current;
+    if (!client) return;
+
+    const unsubscribers = (['confirm', 'lost', 'reacquire', 'exit'] as const).map(type =>
+      client.on(type, ({ entity, timestamp, dwellMs }) => {
+        eventSinkRef.current?.enqueue({ type: `track.${type}`, entity: toEventEntity(entity, dwellMs) }, timestamp);
+      })
+    );
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, []);
+
+  // Update log state periodically instead of every frame
+  useEffect(() => {
+    let renderedVersion = -1;
+
     const updateInterval = setInterval(() => {
-      const newDetections = latestDetectionsRef.current;
-      if (JSON.stringify(newDetections) !== JSON.stringify(detections)) {
-        setDetections(newDetections);
+      if (logVersionRef.current === renderedVersion) return;
+      renderedVersion = logVersionRef.current;
+
+      // Drop the oldest exited entities once the log grows too long
+      const log = entityLogRef.current;
+      if (log.size > MAX_LOG_ENTRIES) {
+        Array.from(log.values())
+          .filter(entry => entry.status === 'exited')
+          .sort((a, b) => a.lastSeen - b.lastSeen)
+          .slice(0, log.size - MAX_LOG_ENTRIES)
+          .forEach(entry => log.delete(entry.id));
       }
+
+      setLogEntries(Array.from(log.values(), entry => ({ ...entry })));
+      setClassCounts({ ...classCountsRef.current });
     }, 100); // Update every 100ms
 
     return () => {
       clearInterval(updateInterval);
     };
-  }, [detections]);
-
-  const groupedDetections = useMemo(() => {
-    const groups: { [key: string]: Array<{
-      class: string;
-      count: number;
-      confidence: number;
-      isActive: boolean;
-      totalFrames: number;
-      consecutiveFrames: number;
-    }> } = {};
-
-    // Add all items from history
-    Object.entries(detectionHistory).forEach(([className, data]) => {
-      const category = typedCocoClasses[className]?.category || 'unknown';
-      if (!groups[category]) {
-        groups[category] = [];
-      }
-      
-      // Check if this object is currently being detected
-      const isActive = detections.some(d => d.class === className);
-      
-      groups[category].push({
-        class: className,
-        count: data.count,
-        confidence: data.confidence,
-        isActive,
-        totalFrames: data.totalFrames,
-        consecutiveFrames: data.consecutiveFrames
-      });
+  }, []);
+
+  // Restore zones drawn in a previous visit
+  useEffect(() => {
+    setZones(loadFromStorage<Zone[]>(ZONES_KEY, []));
+  }, []);
+
+  useEffect(() => {
+    zoneCounterRef.current.setZones(zones);
+    alertEngineRef.current.setZones(zones);
+    setZoneStats(zoneCounterRef.current.getStats());
+  }, [zones]);
+
+  // Zone counters change every frame; refresh the displayed values a few times a second
+  useEffect(() => {
+    const updateInterval = setInterval(() => {
+      setZoneStats(zoneCounterRef.current.getStats());
+      setRecordedFrameCount(recorderRef.current.frameCount);
+      setSessionElapsedMs(sessionRecorderRef.current?.elapsedMs || 0);
+      setEventSinkStatus(eventSinkRef.current?.getStatus() ?? null);
+      setInferenceStatus(inferenceStatusRef.current);
+      setPerformanceStats(schedulerRef.current.getStats());
+    }, 250);
+
+    return () => {
+      clearInterval(updateInterval);
+    };
+  }, []);
+
+  // Session trends change slowly; the chart and heatmap refresh once a second
+  useEffect(() => {
+    const updateInterval = setInterval(() => {
+      setAnalytics(analyticsRef.current.getSnapshot());
+      setGalleryVersion(galleryRef.current.version);
+    }, 1000);
+
+    return () => {
+      clearInterval(updateInterval);
+    };
+  }, []);
+
+  const resetAnalytics = () => {
+    analyticsRef.current.reset();
+    setAnalytics(analyticsRef.current.getSnapshot());
+  };
+
+  // Restore alert rules from a previous visit
+  useEffect(() => {
+    try {
+      setAlertRules(parseAlertRules(JSON.stringify(loadFromStorage<AlertRule[]>(ALERT_RULES_KEY, []))));
+    } catch (error) {
+      console.error('Error restoring alert rules:', error);
+    }
+    setNotifications(notificationPermission());
+  }, []);
+
+  useEffect(() => {
+    alertEngineRef.current.setRules(alertRules);
+  }, [alertRules]);
+
+  const updateAlertRules = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    saveToStorage(ALERT_RULES_KEY, rules);
+  };
+
+  const exportAlertRules = () => {
+    downloadText('alert-rules.json', serializeAlertRules(alertRules), 'application/json');
+  };
+
+  const importAlertRules = (text: string) => {
+    updateAlertRules(parseAlertRules(text));
+  };
+
+  const enableNotifications = async () => {
+    setNotifications(await requestNotificationPermission());
+  };
+
+  useEffect(() => {
+    setEventSinkSettings({
+      ...DEFAULT_EVENT_SINK_SETTINGS,
+      ...loadFromStorage<Partial<EventSinkSettings>>(EVENT_SINK_KEY, {})
     });
+  }, []);
+
+  const updateEventSinkSettings = (settings: EventSinkSettings) => {
+    setEventSinkSettings(settings);
+    saveToStorage(EVENT_SINK_KEY, settings);
+  };
 
-    // Sort categories by most recent activity
-    Object.keys(groups).forEach(category => {
-      groups[category].sort((a, b) => {
-        // Sort by active status first, then by consecutive frames, then by total count
-        if (a.isActive !== b.isActive) return a.isActive ? -1 : 1;
-        if (a.consecutiveFrames !== b.consecutiveFrames) return b.consecutiveFrames - a.consecutiveFrames;
-        return b.count - a.count;
+  useEffect(() => {
+    if (!eventSinkSettings.enabled) {
+      eventSinkRef.current?.stop();
+      return;
+    }
+    if (!eventSinkRef.current) {
+      eventSinkRef.current = new EventSink();
+    }
+    eventSinkRef.current.setToken(eventSinkSettings.token);
+    eventSinkRef.current.start();
+  }, [eventSinkSettings]);
+
+  useEffect(() => {
+    setGallerySettings({
+      ...DEFAULT_GALLERY_SETTINGS,
+      ...loadFromStorage<Partial<GallerySettings>>(GALLERY_KEY, {})
+    });
+  }, []);
+
+  const updateGallerySettings = (settings: GallerySettings) => {
+    setGallerySettings(settings);
+    saveToStorage(GALLERY_KEY, settings);
+  };
+
+  useEffect(() => {
+    galleryRef.current.configure(gallerySettings);
+  }, [gallerySettings]);
+
+  // Reload the gallery while it is open and its contents or search change
+  useEffect(() => {
+    if (!showGallery) return;
+    let cancelled = false;
+    galleryRef.current.list(galleryQuery)
+      .then(snapshots => {
+        if (cancelled) return;
+        setGallerySnapshots(snapshots);
+        setGalleryError(null);
+      })
+      .catch(error => {
+        console.error('Error loading snapshots:', error);
+        if (!cancelled) setGalleryError(error instanceof Error ? error.message : String(error));
       });
+    return () => {
+      cancelled = true;
+    };
+  }, [showGallery, galleryQuery, galleryVersion]);
+
+  const updateGallery = async (change: (gallery: SnapshotGallery) => Promise<void>) => {
+    try {
+      await change(galleryRef.current);
+    } catch (error) {
+      console.error('Error updating snapshots:', error);
+      setGalleryError(error instanceof Error ? error.message : String(error));
+    }
+    setGalleryVersion(galleryRef.current.version);
+  };
+
+  const downloadSnapshots = async (snapshots: Snapshot[]) => {
+    try {
+      downloadBlob(`snapshots-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`, await snapshotsToZip(snapshots));
+    } catch (error) {
+      console.error('Error exporting snapshots:', error);
+      setGalleryError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Queue anything still buffered when the page goes away
+  useEffect(() => {
+    return () => {
+      eventSinkRef.current?.stop();
+    };
+  }, []);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  // Carries out each fired alert's actions. Runs after the overlay has been
+  // drawn, so snapshots show the boxes that triggered the alert.
+  const handleAlerts = useCallback((alerts: AlertEvent[]) => {
+    const source = lastResultRef.current?.result.frame ??
+      (inputSourceRef.current.kind === 'images' ? imageRef.current : videoRef.current);
+    let chimed = false;
+
+    alerts.forEach(alert => {
+      const rule = alertRulesRef.current.find(r => r.id === alert.ruleId);
+      if (!rule) return;
+
+      if (rule.actions.snapshot && source) {
+        alert.snapshot = captureFrame(
+          source,
+          canvasRef.current,
+          overlayRendererRef.current.getStyle().mirror,
+          undefined,
+          redactionsRef.current
+        );
+      }
+      if (rule.actions.sound && !chimed) {
+        playChime();
+        chimed = true;
+      }
+      if (rule.actions.notification) {
+        showNotification(rule.name, alert.message, alert.snapshot);
+      }
+      if (rule.actions.toast) {
+        setToasts(prev => [...prev, alert].slice(-MAX_TOASTS));
+      }
     });
+    setAlertHistory(prev => [...alerts.slice().reverse(), ...prev].slice(0, MAX_ALERT_HISTORY));
+    alerts.forEach(alert => {
+      eventSinkRef.current?.enqueue({
+        type: 'alert',
+        ruleId: alert.ruleId,
+        ruleName: alert.ruleName,
+        message: alert.message,
+        entityIds: alert.entityIds
+      }, alert.timestamp);
+    });
+  }, []);
 
-    return groups;
-  }, [detections, detectionHistory]);
+  const updateZones = useCallback((next: Zone[]) => {
+    setZones(next);
+    saveToStorage(ZONES_KEY, next);
+  }, []);
 
-  const detectObjects = async () => {
-    if (!model || !videoRef.current || !canvasRef.current) return;
+  const completeZone = useCallback((points: Point[]) => {
+    if (!drawingKind) return;
+    updateZones([...zones, {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      kind: drawingKind,
+      name: `${drawingKind === 'line' ? 'Line' : 'Area'} ${zones.length + 1}`,
+      points,
+      filter: { classes: [], categories: [] },
+      color: ZONE_COLORS[zones.length % ZONE_COLORS.length]
+    }]);
+    setDrawingKind(null);
+  }, [drawingKind, zones, updateZones]);
 
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
+  const cancelZone = useCallback(() => setDrawingKind(null), []);
+
+  const exportZones = () => {
+    downloadText('zones.json', serializeZones(zones), 'application/json');
+  };
+
+  const importZones = (text: string) => {
+    updateZones(parseZones(text));
+  };
+
+  const resetZoneCounts = () => {
+    zoneCounterRef.current.reset();
+    setZoneStats(zoneCounterRef.current.getStats());
+  };
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording) {
+      recorder.stop();
+    } else {
+      recorder.start();
+    }
+    setIsRecording(recorder.isRecording);
+  };
+
+  const exportRecording = (format: ExportFormat) => {
+    const type = format === 'jsonl' ? 'application/x-ndjson' : format === 'csv' ? 'text/csv' : 'text/plain';
+    downloadText(exportFileNames[format], exportFrames(recorderRef.current.frames, format), type);
+  };
+
+  const clearRecording = () => {
+    recorderRef.current.clear();
+    setRecordedFrameCount(0);
+  };
+
+  const toggleSessionRecording = async () => {
+    if (!sessionRecorderRef.current) {
+      sessionRecorderRef.current = new SessionRecorder();
+      sessionRecorderRef.current.setRedact(privacySettings.enabled);
+    }
+    const recorder = sessionRecorderRef.current;
+
+    try {
+      if (!recorder.isRecording) {
+        const source = inputSource.kind === 'images' ? imageRef.current : videoRef.current;
+        if (!source) return;
+        recorder.start(source, burnInOverlay ? canvasRef.current : null, overlayStyle.mirror);
+        setIsSessionRecording(true);
+        setSessionError(null);
+        return;
+      }
+
+      setIsSessionRecording(false);
+      const recorded = await recorder.stop();
+      if (session) URL.revokeObjectURL(session.videoUrl);
+      setSession({ ...recorded, videoUrl: URL.createObjectURL(recorded.video) });
+      setShowReplay(true);
+    } catch (error) {
+      console.error('Session recording error:', error);
+      setSessionError(error instanceof Error ? error.message : String(error));
+      setIsSessionRecording(recorder.isRecording);
+    }
+  };
+
+  const downloadSession = () => {
+    if (!session) return;
+    const name = `session-${new Date(session.sidecar.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+    downloadBlob(`${name}.webm`, session.video);
+    downloadText(`${name}.json`, serializeSidecar(session.sidecar), 'application/json');
+  };
 
-    if (!ctx || video.readyState !== 4) return;
+  // Keep the latest settings readable from the animation loop
+  thresholdRef.current = threshold;
+  selectedCategoriesRef.current = selectedCategories;
+  detectionFilterRef.current = detectionFilter;
+  privacySettingsRef.current = privacySettings;
+  gallerySettingsRef.current = gallerySettings;
+  inputSourceRef.current = inputSource;
+  playbackRef.current = playback;
+  imageIndexRef.current = imageIndex;
+  alertRulesRef.current = alertRules;
+  eventSinkSettingsRef.current = eventSinkSettings;
 
-    // Ensure canvas dimensions match video
-    const videoWidth = video.videoWidth;
-    const videoHeight = video.videoHeight;
-    canvas.width = videoWidth;
-    canvas.height = videoHeight;
+  const frameOptions = (): FrameOptions => ({
+    threshold: thresholdRef.current,
+    categories: selectedCategoriesRef.current,
+    filter: detectionFilterRef.current,
+    // Requested even while privacy mode is off, so turning it on redacts at once
+    redact: {
+      classes: Object.keys(privacySettingsRef.current.rules),
+      minScore: privacySettingsRef.current.minScore
+    },
+    // Privacy mode shows and records only the frames its redactions match,
+    // and gallery crops must come from the frame the boxes were found in
+    returnFrame: privacySettingsRef.current.enabled || gallerySettingsRef.current.enabled
+  });
 
+  // Forget all tracks, log entries, zone counts and analytics, e.g. when the
+  // input changes or playback jumps backwards
+  const resetSession = useCallback(() => {
+    workerClientRef.current?.reset();
+    zoneCounterRef.current.reset();
+    analyticsRef.current.reset();
+    alertEngineRef.current.reset();
+    entityLogRef.current.clear();
+    classCountsRef.current = {};
+    thumbnailTimesRef.current.clear();
+    galleryRef.current.reset();
+    latestDetectionsRef.current = [];
+    overlayRendererRef.current.reset();
+    schedulerRef.current.reset();
+    sessionRecorderRef.current?.setRedactions([]);
+    lastResultRef.current?.result.frame?.close();
+    lastResultRef.current = null;
+    redactionsRef.current = [];
+    logVersionRef.current++;
+    sessionStartRef.current = Date.now();
+
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  }, []);
+
+  // Analyses one frame of the current file or image and waits for its
+  // result. Frame timestamps derive from the frame index, so replaying the
+  // same file gives the same tracks.
+  const analyseFrame = useCallback(async (frame: number, source: FrameSource) => {
+    const client = workerClientRef.current;
+    if (!client || steppingRef.current) return;
+
+    steppingRef.current = true;
     try {
-      // Get predictions
-      const predictions = await model.detect(video);
-      
-      // Clear previous drawings
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      // Filter predictions based on threshold and selected categories
-      const validPredictions = predictions
-        .filter(prediction => {
-          const isSelectedCategory = selectedCategories.length === 0 || 
-            selectedCategories.includes(typedCocoClasses[prediction.class]?.category || 'unknown');
-          return prediction.score >= (threshold * 0.7) && isSelectedCategory;
-        })
-        .sort((a, b) => (b.score || 0) - (a.score || 0));
-
-      // Update tracked entities
-      const trackedEntities = await entityTrackerRef.current.update(
-        validPredictions,
-        threshold * 0.7,
-        video,
-        canvas
+      await client.whenIdle();
+      if (source instanceof HTMLVideoElement) {
+        source.pause();
+        await seekVideo(source, (frame + 0.5) / playbackRef.current.fps);
+      }
+      await client.processFrame(
+        source,
+        frameOptions(),
+        sessionStartRef.current + Math.round(frame * 1000 / playbackRef.current.fps)
       );
+      setSourceError(null);
+    } catch (error) {
+      console.error('Error analysing frame:', error);
+      setSourceError(error instanceof Error ? error.message : String(error));
+      setPlayback(prev => ({ ...prev, playing: false }));
+    } finally {
+      steppingRef.current = false;
+    }
+  }, []);
 
-      // Update latest detections ref
-      latestDetectionsRef.current = trackedEntities;
-
-      // Draw predictions
-      validPredictions.forEach(prediction => {
-        const [x, y, width, height] = prediction.bbox;
-        const category = typedCocoClasses[prediction.class]?.category || 'unknown';
-        const color = categoryColors[category] || '#ffffff';
-
-        // Draw bounding box
-        ctx.strokeStyle = color;
-        ctx.lineWidth = 2;
-        ctx.strokeRect(x, y, width, height);
-
-        // Draw label background
-        const label = `${prediction.class} ${Math.round(prediction.score! * 100)}%`;
-        const fontSize = Math.max(12, Math.min(16, width / 10));
-        ctx.font = `${fontSize}px Arial`;
-        const textMetrics = ctx.measureText(label);
-        const textWidth = textMetrics.width;
-        const textHeight = fontSize;
-        const padding = 4;
-
-        ctx.fillStyle = `${color}dd`;
-        ctx.fillRect(
-          x - 1,
-          y - textHeight - padding * 2,
-          textWidth + padding * 2,
-          textHeight + padding * 2
-        );
+  // Draws the tracked boxes of a result. Redrawn between results, boxes move
+  // along their velocity by extrapolation tracker updates. In privacy mode
+  // the source is hidden and the analysed frame is drawn here, redacted,
+  // instead, so the redactions always cover the pixels they were found in.
+  const drawResult = (result: FrameResult, extrapolation: number | null = null) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const renderStart = performance.now();
 
-        // Draw label text
-        ctx.fillStyle = '#ffffff';
-        ctx.fillText(label, x + padding, y - padding);
-      });
+    // Ensure canvas dimensions match the analysed frame
+    if (canvas.width !== result.width || canvas.height !== result.height) {
+      canvas.width = result.width;
+      canvas.height = result.height;
+    }
+
+    const items = result.entities.map(entity => {
+      const [x, y, width, height] = entity.bbox;
+      const [vx, vy] = entity.velocity;
+      const steps = extrapolation ?? 0;
+      return {
+        id: entity.id,
+        class: entity.class,
+        bbox: [x + vx * steps, y + vy * steps, width, height] as BBox,
+        score: entity.score,
+        predicted: entity.isPredicted,
+        mask: entity.mask,
+        keypoints: entity.keypoints && steps ? translateKeypoints(entity.keypoints, vx * steps, vy * steps) : entity.keypoints
+      };
+    });
+    const privacy = privacySettingsRef.current;
+    const redactions = redactionsFor([...result.redactTargets, ...items], privacy);
+    redactionsRef.current = redactions;
+    const frame = privacy.enabled ? result.frame : undefined;
+    sessionRecorderRef.current?.setRedactions(redactions, frame ?? null);
+
+    overlayRendererRef.current.render(ctx, items, canvas.width, canvas.height, {
+      extrapolated: extrapolation !== null,
+      background: frame,
+      redactions
+    });
+    schedulerRef.current.recordRender(performance.now() - renderStart);
+  };
+
+  // Restore tracker settings saved by a previous visit
+  useEffect(() => {
+    setTrackerOptions({
+      ...DEFAULT_TRACKER_OPTIONS,
+      ...loadFromStorage<Partial<EntityTrackerOptions>>(TRACKER_OPTIONS_KEY, {})
+    });
+  }, []);
+
+  const updateTrackerOptions = (options: EntityTrackerOptions) => {
+    setTrackerOptions(options);
+    saveToStorage(TRACKER_OPTIONS_KEY, options);
+  };
+
+  useEffect(() => {
+    setDetectionFilter(normalizeDetectionFilter(
+      loadFromStorage<Partial<DetectionFilter>>(DETECTION_FILTER_KEY, {})
+    ));
+  }, []);
+
+  const updateDetectionFilter = (filter: DetectionFilter) => {
+    setDetectionFilter(filter);
+    saveToStorage(DETECTION_FILTER_KEY, filter);
+  };
+
+  useEffect(() => {
+    setInferenceOptions({
+      ...DEFAULT_INFERENCE_OPTIONS,
+      ...loadFromStorage<Partial<InferenceOptions>>(INFERENCE_KEY, {})
+    });
+  }, []);
 
+  const updateInferenceOptions = (options: InferenceOptions) => {
+    setInferenceOptions(options);
+    saveToStorage(INFERENCE_KEY, options);
+  };
+
+  useEffect(() => {
+    setSchedulerOptions({
+      ...DEFAULT_SCHEDULER_OPTIONS,
+      ...loadFromStorage<Partial<SchedulerOptions>>(SCHEDULER_KEY, {})
+    });
+  }, []);
+
+  const updateSchedulerOptions = (options: SchedulerOptions) => {
+    setSchedulerOptions(options);
+    saveToStorage(SCHEDULER_KEY, options);
+  };
+
+  useEffect(() => {
+    schedulerRef.current.configure(schedulerOptions);
+  }, [schedulerOptions]);
+
+  useEffect(() => {
+    setPrivacySettings(normalizePrivacySettings(
+      loadFromStorage<Partial<PrivacySettings>>(PRIVACY_KEY, {})
+    ));
+  }, []);
+
+  const updatePrivacySettings = (settings: PrivacySettings) => {
+    setPrivacySettings(settings);
+    // A recording in progress switches over at once
+    if (settings.enabled !== privacySettings.enabled) sessionRecorderRef.current?.setRedact(settings.enabled);
+    saveToStorage(PRIVACY_KEY, settings);
+  };
+
+  useEffect(() => {
+    setOverlayStyle({
+      ...DEFAULT_OVERLAY_STYLE,
+      ...loadFromStorage<Partial<OverlayStyle>>(OVERLAY_STYLE_KEY, {})
+    });
+  }, []);
+
+  const updateOverlayStyle = (style: OverlayStyle) => {
+    setOverlayStyle(style);
+    saveToStorage(OVERLAY_STYLE_KEY, style);
+  };
+
+  useEffect(() => {
+    overlayRendererRef.current.configure(overlayStyle);
+  }, [overlayStyle]);
+
+  // Restore the taxonomy edited on a previous visit
+  useEffect(() => {
+    try {
+      setTaxonomy(parseTaxonomy(JSON.stringify(loadFromStorage<Taxonomy>(TAXONOMY_KEY, DEFAULT_TAXONOMY))));
     } catch (error) {
-      console.error('Detection error:', error);
+      console.error('Error restoring taxonomy:', error);
     }
+  }, []);
+
+  // Category filters drop categories that no longer exist
+  const updateTaxonomy = (next: Taxonomy) => {
+    setTaxonomy(next);
+    saveToStorage(TAXONOMY_KEY, next);
+    setSelectedCategories(prev => prev.filter(id => next.categories.some(category => category.id === id)));
+  };
+
+  const exportTaxonomy = () => {
+    downloadText('taxonomy.json', serializeTaxonomy(taxonomy), 'application/json');
+  };
+
+  const importTaxonomy = (text: string) => {
+    updateTaxonomy(parseTaxonomy(text));
+  };
+
+  useEffect(() => {
+    overlayRendererRef.current.setTaxonomy(taxonomy);
+    zoneCounterRef.current.setTaxonomy(taxonomy);
+    alertEngineRef.current.setTaxonomy(taxonomy);
+    workerClientRef.current?.setTaxonomy(taxonomy);
+  }, [taxonomy]);
+
+  // Classes of a custom model's label map, or open-vocabulary prompts, join
+  // the taxonomy, unassigned
+  const applyDetectorConfig = (config: DetectorConfig) => {
+    setDetectorConfig(config);
+    const labels = config.kind === 'owl-vit' ? config.prompts : config.kind === 'yolo-onnx' ? config.labels : undefined;
+    if (labels) {
+      const next = addLabels(taxonomy, labels);
+      if (next !== taxonomy) updateTaxonomy(next);
+    }
+  };
 
-    // Request next frame
-    animationFrameRef.current = requestAnimationFrame(detectObjects);
+  // Front cameras are shown mirrored, like a selfie preview
+  const changeInputSource = (source: InputSource) => {
+    setInputSource(source);
+    if (source.kind === 'webcam' && !source.deviceId) {
+      updateOverlayStyle({ ...overlayStyle, mirror: source.facingMode === 'user' });
+    }
   };
 
   useEffect(() => {
+    if (isModelReady) {
+      workerClientRef.current?.configureTracker(trackerOptions);
+    }
+  }, [trackerOptions, isModelReady]);
+
+  const privacyEnabled = privacySettings.enabled;
+
+  useEffect(() => {
+    const client = workerClientRef.current;
+    if (!client) return;
+
     let isSubscribed = true;
 
     const initializeModel = async () => {
+      setIsModelReady(false);
+      setIsModelLoading(true);
+      setModelError(null);
       try {
-        if (!model) {
-          console.log('Loading COCO-SSD model...');
-          const loadedModel = await cocoSsd.load({
-            base: 'lite_mobilenet_v2'
-          });
-          if (isSubscribed) {
-            console.log('Model loaded successfully');
-            setModel(loadedModel);
-          }
+        console.log(`Loading ${detectorConfig.kind} model...`);
+        // Privacy mode never sends frames to the server
+        await client.load(detectorConfig, privacyEnabled ? { ...inferenceOptions, mode: 'local' } : inferenceOptions);
+        if (isSubscribed) {
+          console.log(`Model loaded successfully${client.usesWorker ? ' in worker' : ''}`);
+          setIsModelReady(true);
         }
       } catch (error) {
         console.error('Error loading model:', error);
+        if (isSubscribed) {
+          setModelError(error instanceof Error ? error.message : String(error));
+        }
+      } finally {
+        if (isSubscribed) {
+          setIsModelLoading(false);
+        }
       }
     };
 
@@ -283,56 +948,314 @@ export default function VideoDetection(): JSX.Element {
     return () => {
       isSubscribed = false;
     };
-  }, [model]);
+  }, [detectorConfig, inferenceOptions, privacyEnabled]);
 
   useEffect(() => {
-    let animationFrameId: number;
+    const client = workerClientRef.current;
+    if (!client || !isModelReady) return;
 
-    const startVideo = async () => {
-      if (!videoRef.current) return;
+    let isSubscribed = true;
+    setReidStatus(reidEnabled ? 'Loading appearance model...' : null);
 
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: 'environment' },
-          audio: false
-        });
+    client.setReidEnabled(reidEnabled)
+      .then(() => {
+        if (isSubscribed) setReidStatus(null);
+      })
+      .catch((error) => {
+        console.error('Error loading appearance model:', error);
+        if (isSubscribed) {
+          setReidStatus(error instanceof Error ? error.message : String(error));
+          setReidEnabled(false);
+        }
+      });
 
-        videoRef.current.srcObject = stream;
-        
-        // Start detection loop once video is ready
-        videoRef.current.onloadeddata = () => {
-          if (model) {
-            animationFrameId = requestAnimationFrame(detectObjects);
-          }
-        };
+    return () => {
+      isSubscribed = false;
+    };
+  }, [reidEnabled, isModelReady]);
+
+  // Connect the selected input to the video element
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let isSubscribed = true;
+    let stream: MediaStream | null = null;
+    let objectUrl: string | null = null;
+    resetSession();
+    setSourceError(null);
+    setPlayback(prev => ({ ...prev, playing: false, currentTime: 0, duration: 0 }));
+
+    const startWebcam = async (source: Extract<InputSource, { kind: 'webcam' }>) => {
+      try {
+        stream = await openWebcam(source);
+        if (!isSubscribed) {
+          stopStream(stream);
+          return;
+        }
+        video.srcObject = stream;
+        // Labels are only available once permission has been granted
+        setVideoDevices(await listVideoDevices());
       } catch (error) {
         console.error('Error accessing camera:', error);
+        if (isSubscribed) {
+          setSourceError(error instanceof Error ? error.message : String(error));
+        }
       }
     };
 
-    if (model) {
-      startVideo();
+    if (inputSource.kind === 'webcam') {
+      startWebcam(inputSource);
+    } else if (inputSource.kind === 'file') {
+      objectUrl = URL.createObjectURL(inputSource.file);
+      video.srcObject = null;
+      video.src = objectUrl;
+    } else {
+      setImageIndex(0);
     }
 
+    const updateDevices = () => {
+      listVideoDevices().then(devices => isSubscribed && setVideoDevices(devices));
+    };
+    navigator.mediaDevices?.addEventListener('devicechange', updateDevices);
+
     return () => {
-      if (animationFrameId) {
-        cancelAnimationFrame(animationFrameId);
+      isSubscribed = false;
+      navigator.mediaDevices?.removeEventListener('devicechange', updateDevices);
+      stopStream(stream);
+      video.srcObject = null;
+      if (objectUrl) {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(objectUrl);
       }
-      if (videoRef.current?.srcObject) {
-        const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-        tracks.forEach(track => track.stop());
+    };
+  }, [inputSource, resetSession]);
+
+  // Mirror the state of a playing file into the playback controls
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleMetadata = () => {
+      setPlayback(prev => ({ ...prev, duration: video.duration, currentTime: 0 }));
+      if (inputSourceRef.current.kind === 'file') {
+        analyseFrame(0, video);
       }
     };
-  }, [model]);
+    const handleTime = () => {
+      setPlayback(prev => ({ ...prev, currentTime: video.currentTime }));
+    };
+    const handlePlayState = () => {
+      // In frame-by-frame mode the video element stays paused
+      if (!playbackRef.current.deterministic) {
+        setPlayback(prev => ({ ...prev, playing: !video.paused && !video.ended }));
+      }
+    };
+
+    video.addEventListener('loadedmetadata', handleMetadata);
+    video.addEventListener('timeupdate', handleTime);
+    video.addEventListener('play', handlePlayState);
+    video.addEventListener('pause', handlePlayState);
+    video.addEventListener('ended', handlePlayState);
+
+    return () => {
+      video.removeEventListener('loadedmetadata', handleMetadata);
+      video.removeEventListener('timeupdate', handleTime);
+      video.removeEventListener('play', handlePlayState);
+      video.removeEventListener('pause', handlePlayState);
+      video.removeEventListener('ended', handlePlayState);
+    };
+  }, [analyseFrame]);
 
-  // Clean up animation frame on unmount
+  // Show one still image at a time; each is analysed once it has loaded
   useEffect(() => {
+    if (inputSource.kind !== 'images') {
+      setImageUrl(null);
+      return;
+    }
+
+    const file = inputSource.files[Math.min(imageIndex, inputSource.files.length - 1)];
+    const url = URL.createObjectURL(file);
+    setImageUrl(url);
+
     return () => {
+      URL.revokeObjectURL(url);
+    };
+  }, [inputSource, imageIndex]);
+
+  const handleImageLoad = async () => {
+    const image = imageRef.current;
+    if (!image) return;
+
+    const index = imageIndexRef.current;
+    await analyseFrame(index, image);
+
+    const source = inputSourceRef.current;
+    if (playbackRef.current.playing && source.kind === 'images') {
+      if (index < source.files.length - 1) {
+        setImageIndex(index + 1);
+      } else {
+        setPlayback(prev => ({ ...prev, playing: false }));
+      }
+    }
+  };
+
+  const frameCount = inputSource.kind === 'images'
+    ? inputSource.files.length
+    : Math.max(1, Math.floor(playback.duration * playback.fps));
+  const currentFrame = inputSource.kind === 'images'
+    ? imageIndex
+    : Math.min(Math.floor(playback.currentTime * playback.fps), frameCount - 1);
+
+  const seekToFrame = (frame: number) => {
+    const target = Math.min(Math.max(frame, 0), frameCount - 1);
+    // Tracks can't run backwards in time, so start them over
+    if (target < currentFrame) {
+      resetSession();
+    }
+
+    if (inputSource.kind === 'images') {
+      if (target === imageIndex && imageRef.current) {
+        analyseFrame(target, imageRef.current);
+      }
+      setImageIndex(target);
+    } else if (videoRef.current) {
+      analyseFrame(target, videoRef.current);
+    }
+  };
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (inputSource.kind === 'file' && !playback.deterministic && video) {
+      if (video.paused) {
+        // Sampled playback restarts tracking from the current position
+        resetSession();
+        video.play();
+      } else {
+        video.pause();
+      }
+      return;
+    }
+
+    const playing = !playback.playing;
+    if (playing && inputSource.kind === 'images') {
+      // Play through the remaining images, or start over from the first
+      if (imageIndex < inputSource.files.length - 1) {
+        setImageIndex(imageIndex + 1);
+      } else {
+        seekToFrame(0);
+        if (inputSource.files.length === 1) return;
+      }
+    }
+    setPlayback(prev => ({ ...prev, playing }));
+  };
+
+  const setDeterministic = (deterministic: boolean) => {
+    videoRef.current?.pause();
+    setPlayback(prev => ({ ...prev, deterministic, playing: false }));
+  };
+
+  // Capture loop: hand the current frame to the worker whenever it is idle.
+  // Results arrive asynchronously, so the UI thread never waits on inference.
+  useEffect(() => {
+    const client = workerClientRef.current;
+    if (!client || !isModelReady) return;
+
+    client.onResult = (result) => {
+      latestDetectionsRef.current = result.entities;
+      inferenceStatusRef.current = {
+        backend: result.backend,
+        inferenceMs: result.inferenceMs,
+        fallback: result.runtime?.fallback
+      };
+      schedulerRef.current.recordResult(result);
+      const previousFrame = lastResultRef.current?.result.frame;
+      lastResultRef.current = { result, receivedAt: performance.now() };
+      // Drawn first, so everything below uses this frame's redactions
+      drawResult(result);
+      updateEntityLog(result.entities, result.timestamp);
+      zoneCounterRef.current.update(result.entities, result.width, result.height, result.timestamp);
+      analyticsRef.current.update(result.entities, result.width, result.height, result.timestamp);
+      recorderRef.current.add(result);
+      sessionRecorderRef.current?.addResult(result);
+      if (eventSinkSettingsRef.current.includeFrames) {
+        eventSinkRef.current?.enqueue({ type: 'frame', frame: toRecordedFrame(result, result.frameId) }, result.timestamp);
+      }
+      // New tracks get their first thumbnail from the frame that confirmed them
+      result.events.forEach(event => {
+        if (event.type === 'confirm') refreshThumbnail(event.entity, true);
+      });
+      // The live video has moved on since this frame was analysed
+      const frame = result.frame;
+      if (frame) {
+        result.entities.forEach(entity => {
+          if (entity.lastSeen !== result.timestamp) return;
+          galleryRef.current.consider(entity, () =>
+            captureCrop(frame, entity.bbox, SNAPSHOT_SIZE, redactionsRef.current)
+          );
+        });
+      }
+
+      const alerts = alertEngineRef.current.update(result.entities, result.width, result.height, result.timestamp);
+      if (alerts.length > 0) handleAlerts(alerts);
+      // Everything now refers to this result's frame
+      previousFrame?.close();
+    };
+
+    const tick = () => {
+      const video = videoRef.current;
+      const source = inputSourceRef.current;
+      const { playing, deterministic, fps, duration } = playbackRef.current;
+
+      if (video && source.kind === 'file' && deterministic) {
+        // Frame-by-frame playback: analyse the next frame once the last one is done
+        if (playing && !steppingRef.current) {
+          const next = Math.floor(video.currentTime * fps) + 1;
+          if (next < Math.floor(duration * fps)) {
+            analyseFrame(next, video);
+          } else {
+            setPlayback(prev => ({ ...prev, playing: false }));
+          }
+        }
+      } else if (video && source.kind !== 'images' && video.readyState >= 2 && !video.paused) {
+        const scheduler = schedulerRef.current;
+        // Only frames the video hasn't shown before count as captured
+        if (video.currentTime !== lastVideoTimeRef.current) {
+          lastVideoTimeRef.current = video.currentTime;
+          if (client.isBusy) {
+            scheduler.frameBusy();
+          } else if (scheduler.shouldSubmit()) {
+            client.submit(
+              video,
+              frameOptions(),
+              source.kind === 'file'
+                ? sessionStartRef.current + Math.round(video.currentTime * 1000)
+                : Date.now()
+            );
+          }
+        }
+
+        // Keep tracked boxes moving until the next result arrives. Privacy
+        // mode shows the analysed frame, so its boxes stay where they were found.
+        const last = lastResultRef.current;
+        const interval = scheduler.resultInterval;
+        if (last && scheduler.adaptive && interval && !privacySettingsRef.current.enabled) {
+          drawResult(last.result, Math.min((performance.now() - last.receivedAt) / interval, MAX_EXTRAPOLATION));
+        }
+      }
+      animationFrameRef.current = requestAnimationFrame(tick);
+    };
+
+    animationFrameRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      client.onResult = null;
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, []);
+  }, [isModelReady, updateEntityLog, refreshThumbnail, analyseFrame, handleAlerts]);
 
   const toggleCategory = (category: string) => {
     setSelectedCategories(prev => 
@@ -347,15 +1270,75 @@ export default function VideoDetection(): JSX.Element {
       <div className="max-w-6xl mx-auto">
         <div className="flex justify-between items-center mb-4">
           <h1 className="text-3xl font-bold text-white">Object Detection</h1>
-          <button
-            onClick={() => setShowLog(!showLog)}
-            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
-          >
-            {showLog ? 'Hide Log' : 'Show Log'}
-          </button>
+          <div className="flex gap-2">
+            <Link href="/multi" className="px-4 py-2 bg-gray-600 text-gray-200 rounded hover:bg-gray-500 transition-colors">
+              Multi-camera
+            </Link>
+            <button
+              onClick={() => setShowLog(!showLog)}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+            >
+              {showLog ? 'Hide Log' : 'Show Log'}
+            </button>
+          </div>
         </div>
         
         <div className="mb-4 bg-gray-800 p-4 rounded-lg">
+          <div className="mb-4">
+            <DetectorSelector
+              config={detectorConfig}
+              onApply={applyDetectorConfig}
+              isLoading={isModelLoading}
+              error={modelError}
+            />
+          </div>
+
+          <div className="mb-4">
+            <InferenceSettings
+              options={inferenceOptions}
+              onChange={updateInferenceOptions}
+              status={inferenceStatus}
+              localOnly={privacySettings.enabled}
+            />
+          </div>
+
+          <div className="mb-4">
+            <SchedulerSettings options={schedulerOptions} onChange={updateSchedulerOptions} />
+          </div>
+
+          <div className="mb-4">
+            <InputSourceSelector
+              source={inputSource}
+              devices={videoDevices}
+              onChange={changeInputSource}
+              error={sourceError}
+            />
+          </div>
+
+          <div className="mb-4">
+            <RecordingPanel
+              isRecording={isRecording}
+              frameCount={recordedFrameCount}
+              onToggleRecording={toggleRecording}
+              onExport={exportRecording}
+              onClear={clearRecording}
+            />
+          </div>
+
+          <div className="mb-4">
+            <SessionControls
+              isRecording={isSessionRecording}
+              elapsedMs={sessionElapsedMs}
+              burnInOverlay={burnInOverlay}
+              onBurnInOverlayChange={setBurnInOverlay}
+              onToggleRecording={toggleSessionRecording}
+              hasSession={session !== null}
+              onDownload={downloadSession}
+              onReplay={() => setShowReplay(true)}
+              error={sessionError}
+            />
+          </div>
+
           <div className="mb-4">
             <label className="block text-white mb-2">Detection Threshold: {threshold}</label>
             <input
@@ -368,21 +1351,157 @@ export default function VideoDetection(): JSX.Element {
               className="w-full"
             />
           </div>
+
+          <div className="mb-4">
+            <button
+              onClick={() => setShowDetectionFilter(!showDetectionFilter)}
+              className="text-white mb-2"
+            >
+              {showDetectionFilter ? '▾' : '▸'} Class thresholds and filters
+            </button>
+            {showDetectionFilter && (
+              <DetectionFilterSettings
+                filter={detectionFilter}
+                classNames={Object.keys(taxonomy.classes)}
+                threshold={threshold}
+                onChange={updateDetectionFilter}
+                onReset={() => updateDetectionFilter(DEFAULT_DETECTION_FILTER)}
+              />
+            )}
+          </div>
+
+          <div className="mb-4">
+            <button
+              onClick={() => setShowPrivacy(!showPrivacy)}
+              className="text-white mb-2"
+            >
+              {showPrivacy ? '▾' : '▸'} Privacy
+            </button>
+            {showPrivacy && (
+              <PrivacyPanel
+                settings={privacySettings}
+                classNames={Object.keys(taxonomy.classes)}
+                onChange={updatePrivacySettings}
+                onReset={() => updatePrivacySettings(DEFAULT_PRIVACY_SETTINGS)}
+              />
+            )}
+          </div>
+
+          <div className="mb-4">
+            <label className="flex items-center gap-2 text-white">
+              <input
+                type="checkbox"
+                checked={reidEnabled}
+                onChange={(e) => setReidEnabled(e.target.checked)}
+              />
+              Appearance re-identification
+            </label>
+            {reidStatus && <div className="text-gray-400 text-sm mt-1">{reidStatus}</div>}
+          </div>
+
+          <div className="mb-4">
+            <button
+              onClick={() => setShowOverlaySettings(!showOverlaySettings)}
+              className="text-white mb-2"
+            >
+              {showOverlaySettings ? '▾' : '▸'} Overlay style
+            </button>
+            {showOverlaySettings && (
+              <OverlaySettings
+                style={overlayStyle}
+                onChange={updateOverlayStyle}
+                onReset={() => updateOverlayStyle({ ...DEFAULT_OVERLAY_STYLE, mirror: overlayStyle.mirror })}
+              />
+            )}
+          </div>
+
+          <div className="mb-4">
+            <button
+              onClick={() => setShowEventSink(!showEventSink)}
+              className="text-white mb-2"
+            >
+              {showEventSink ? '▾' : '▸'} Event sink
+            </button>
+            {showEventSink && (
+              <EventSinkPanel
+                settings={eventSinkSettings}
+                status={eventSinkStatus}
+                onChange={updateEventSinkSettings}
+                onFlush={() => eventSinkRef.current?.flush()}
+              />
+            )}
+          </div>
+
+          <div className="mb-4">
+            <button
+              onClick={() => setShowGallery(!showGallery)}
+              className="text-white mb-2"
+            >
+              {showGallery ? '▾' : '▸'} Snapshot gallery
+            </button>
+            {showGallery && (
+              <GalleryPanel
+                settings={gallerySettings}
+                snapshots={gallerySnapshots}
+                query={galleryQuery}
+                error={galleryError}
+                onSettingsChange={updateGallerySettings}
+                onQueryChange={setGalleryQuery}
+                onDownload={downloadSnapshots}
+                onDelete={(keys) => updateGallery(gallery => gallery.remove(keys))}
+                onClear={() => updateGallery(gallery => gallery.clear())}
+              />
+            )}
+          </div>
+
+          <div className="mb-4">
+            <button
+              onClick={() => setShowTrackerSettings(!showTrackerSettings)}
+              className="text-white mb-2"
+            >
+              {showTrackerSettings ? '▾' : '▸'} Tracker settings
+            </button>
+            {showTrackerSettings && (
+              <TrackerSettings
+                options={trackerOptions}
+                onChange={updateTrackerOptions}
+                onReset={() => updateTrackerOptions(DEFAULT_TRACKER_OPTIONS)}
+              />
+            )}
+          </div>
           
+          <div className="mb-4">
+            <button
+              onClick={() => setShowTaxonomy(!showTaxonomy)}
+              className="text-white mb-2"
+            >
+              {showTaxonomy ? '▾' : '▸'} Classes and categories
+            </button>
+            {showTaxonomy && (
+              <TaxonomyManager
+                taxonomy={taxonomy}
+                onChange={updateTaxonomy}
+                onExport={exportTaxonomy}
+                onImport={importTaxonomy}
+                onReset={() => updateTaxonomy(DEFAULT_TAXONOMY)}
+              />
+            )}
+          </div>
+
           <div>
             <label className="block text-white mb-2">Filter Categories:</label>
             <div className="flex flex-wrap gap-2">
-              {categories.map(category => (
+              {taxonomy.categories.map(category => (
                 <button
-                  key={category}
-                  onClick={() => toggleCategory(category)}
+                  key={category.id}
+                  onClick={() => toggleCategory(category.id)}
                   className={`px-3 py-1 rounded ${
-                    selectedCategories.includes(category)
+                    selectedCategories.includes(category.id)
                       ? 'bg-blue-500 text-white'
                       : 'bg-gray-600 text-gray-200'
                   }`}
                 >
-                  {category}
+                  {category.name}
                 </button>
               ))}
             </div>
@@ -395,15 +1514,34 @@ export default function VideoDetection(): JSX.Element {
             <div className="relative bg-gray-800 p-4 rounded-lg overflow-hidden">
               <video
                 ref={videoRef}
-                autoPlay
+                autoPlay={inputSource.kind === 'webcam'}
                 playsInline
                 muted
                 style={{
                   width: '100%',
                   height: 'auto',
-                  display: 'block'
+                  display: inputSource.kind === 'images' ? 'none' : 'block',
+                  transform: overlayStyle.mirror ? 'scaleX(-1)' : undefined,
+                  // Only the redacted copy on the canvas is shown
+                  visibility: privacySettings.enabled ? 'hidden' : undefined
                 }}
               />
+              {inputSource.kind === 'images' && imageUrl && (
+                // eslint-disable-next-line @next/next/no-img-element -- local object URL analysed in place
+                <img
+                  ref={imageRef}
+                  src={imageUrl}
+                  alt=""
+                  onLoad={handleImageLoad}
+                  style={{
+                    width: '100%',
+                    height: 'auto',
+                    display: 'block',
+                    transform: overlayStyle.mirror ? 'scaleX(-1)' : undefined,
+                    visibility: privacySettings.enabled ? 'hidden' : undefined
+                  }}
+                />
+              )}
               <canvas
                 ref={canvasRef}
                 style={{
@@ -414,67 +1552,124 @@ export default function VideoDetection(): JSX.Element {
                   height: 'calc(100% - 2rem)'
                 }}
               />
+              {showHeatmap && (
+                <HeatmapLayer
+                  heatmap={analytics.heatmap}
+                  mirror={overlayStyle.mirror}
+                  style={{
+                    position: 'absolute',
+                    top: '1rem',
+                    left: '1rem',
+                    width: 'calc(100% - 2rem)',
+                    height: 'calc(100% - 2rem)'
+                  }}
+                />
+              )}
+              <ZoneOverlay
+                zones={zones}
+                stats={zoneStats}
+                drawingKind={drawingKind}
+                mirror={overlayStyle.mirror}
+                onComplete={completeZone}
+                onCancel={cancelZone}
+                style={{
+                  position: 'absolute',
+                  top: '1rem',
+                  left: '1rem',
+                  width: 'calc(100% - 2rem)',
+                  height: 'calc(100% - 2rem)'
+                }}
+              />
+              {schedulerOptions.showHud && performanceStats && (
+                <PerformanceHud
+                  stats={performanceStats}
+                  style={{ position: 'absolute', top: '1.5rem', left: '1.5rem' }}
+                />
+              )}
+            </div>
+
+            {inputSource.kind !== 'webcam' && (
+              <PlaybackControls
+                playing={playback.playing}
+                frame={currentFrame}
+                frameCount={frameCount}
+                label={inputSource.kind === 'images'
+                  ? inputSource.files[imageIndex]?.name
+                  : `${playback.currentTime.toFixed(2)}s`}
+                onPlayPause={togglePlayback}
+                onSeek={seekToFrame}
+                onStep={(delta) => seekToFrame(currentFrame + delta)}
+                deterministic={inputSource.kind === 'file' ? playback.deterministic : undefined}
+                onDeterministicChange={inputSource.kind === 'file' ? setDeterministic : undefined}
+                fps={playback.fps}
+                onFpsChange={(fps) => setPlayback(prev => ({ ...prev, fps }))}
+              />
+            )}
+
+            {showReplay && (
+              <div className="mt-4">
+                <ReplayViewer
+                  session={session}
+                  taxonomy={taxonomy}
+                  onClose={() => setShowReplay(false)}
+                />
+              </div>
+            )}
+
+            <div className="mt-4">
+              <ZonePanel
+                zones={zones}
+                stats={zoneStats}
+                taxonomy={taxonomy}
+                drawingKind={drawingKind}
+                onDraw={setDrawingKind}
+                onChange={updateZones}
+                onExport={exportZones}
+                onImport={importZones}
+                onResetCounts={resetZoneCounts}
+              />
+            </div>
+
+            <div className="mt-4">
+              <AnalyticsDashboard
+                snapshot={analytics}
+                showHeatmap={showHeatmap}
+                onShowHeatmapChange={setShowHeatmap}
+                onReset={resetAnalytics}
+              />
+            </div>
+
+            <div className="mt-4">
+              <AlertRulesPanel
+                rules={alertRules}
+                zones={zones}
+                taxonomy={taxonomy}
+                history={alertHistory}
+                notifications={notifications}
+                onChange={updateAlertRules}
+                onAddExamples={() => updateAlertRules([...alertRules, ...exampleAlertRules()])}
+                onExport={exportAlertRules}
+                onImport={importAlertRules}
+                onRequestNotifications={enableNotifications}
+                onClearHistory={() => setAlertHistory([])}
+              />
             </div>
           </div>
 
           {/* Detection Log Panel */}
           {showLog && (
             <div className="lg:col-span-1">
-              <div className="bg-gray-800 p-4 rounded-lg h-full overflow-auto">
-                <h2 className="text-xl font-bold text-white mb-4">Detection Log</h2>
-                {Object.entries(groupedDetections).map(([category, items]) => (
-                  <div key={category} className="mb-4">
-                    <h3 className="text-lg font-semibold text-white mb-2" style={{ color: categoryColors[category] }}>
-                      {category} ({items.length})
-                    </h3>
-                    <div className="space-y-2">
-                      {items.map((item) => (
-                        <div 
-                          key={item.class}
-                          className={`bg-gray-700 p-2 rounded transition-all duration-300 ${
-                            item.isActive 
-                              ? 'border-l-4 border-green-500' 
-                              : item.consecutiveFrames > 0 
-                                ? 'border-l-4 border-yellow-500 opacity-90'
-                                : 'opacity-75'
-                          }`}
-                        >
-                          <div className="text-white flex justify-between items-center">
-                            <span>{typedCocoClasses[item.class]?.description || item.class}</span>
-                            <div className="flex items-center space-x-2">
-                              <span className="text-sm bg-gray-600 px-2 py-1 rounded">
-                                {item.count}x
-                              </span>
-                              {item.consecutiveFrames > 0 && (
-                                <span className="text-sm bg-green-600 px-2 py-1 rounded">
-                                  {item.consecutiveFrames}f
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                          <div className="text-gray-400 text-sm flex justify-between mt-1">
-                            <span>Confidence: {Math.round(item.confidence * 100)}%</span>
-                            <span>
-                              {item.isActive ? 'Active' : 
-                               item.consecutiveFrames > 0 ? 'Recent' : 
-                               'Inactive'}
-                            </span>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                ))}
-                {Object.keys(groupedDetections).length === 0 && (
-                  <div className="text-gray-400 text-center">
-                    No objects detected
-                  </div>
-                )}
-              </div>
+              <DetectionLog
+                entries={logEntries}
+                classCounts={classCounts}
+                taxonomy={taxonomy}
+              />
             </div>
           )}
         </div>
       </div>
+
+      <AlertToasts alerts={toasts} onDismiss={dismissToast} />
     </main>
   );
 }
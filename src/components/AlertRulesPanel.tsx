@@ -0,0 +1,398 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { createAlertRule, describeCondition } from '@/utils/alertEngine';
+import { categoryName } from '@/utils/taxonomy';
+import { POSE_LABELS } from '@/utils/pose';
+import type { AlertActions, AlertCondition, AlertConditionType, AlertEvent, AlertRule, Comparison } from '@/types/alerts';
+import type { Zone } from '@/types/zones';
+import type { Taxonomy } from '@/types/taxonomy';
+import type { PoseLabel } from '@/types/pose';
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  zones: Zone[];
+  taxonomy: Taxonomy;
+  history: AlertEvent[];
+  notifications: NotificationPermission | 'unsupported';
+  onChange: (rules: AlertRule[]) => void;
+  onAddExamples: () => void;
+  onExport: () => void;
+  onImport: (text: string) => void;
+  onRequestNotifications: () => void;
+  onClearHistory: () => void;
+}
+
+const conditionTypes: { type: AlertConditionType; label: string }[] = [
+  { type: 'count', label: 'Count' },
+  { type: 'dwell', label: 'Dwell' },
+  { type: 'appears', label: 'Appears' },
+  { type: 'pose', label: 'Pose' }
+];
+
+const comparisons: { value: Comparison; label: string }[] = [
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'eq', label: '=' },
+  { value: 'lte', label: '≤' },
+  { value: 'lt', label: '<' }
+];
+
+const actionLabels: { key: keyof AlertActions; label: string }[] = [
+  { key: 'toast', label: 'Toast' },
+  { key: 'sound', label: 'Chime' },
+  { key: 'notification', label: 'Notification' },
+  { key: 'snapshot', label: 'Snapshot' }
+];
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+// Switching type keeps what the condition looks at and where
+function withType(condition: AlertCondition, type: AlertConditionType): AlertCondition {
+  const base = { target: condition.target, zoneId: condition.zoneId };
+  if (type === 'count') return { ...base, type, comparison: 'gte', value: 1 };
+  if (type === 'dwell') return { ...base, type, seconds: 30 };
+  if (type === 'pose') return { ...base, type, pose: 'fallen', seconds: 3 };
+  return { ...base, type };
+}
+
+const ConditionEditor: React.FC<{
+  condition: AlertCondition;
+  zones: Zone[];
+  taxonomy: Taxonomy;
+  onChange: (condition: AlertCondition) => void;
+  onRemove: () => void;
+}> = ({ condition, zones, taxonomy, onChange, onRemove }) => {
+  const { target } = condition;
+
+  const addTarget = (value: string) => {
+    // Class names from label maps may contain colons themselves
+    const separator = value.indexOf(':');
+    const kind = value.slice(0, separator);
+    const name = value.slice(separator + 1);
+    const key = kind === 'category' ? 'categories' : 'classes';
+    if (!name || target[key].includes(name)) return;
+    onChange({ ...condition, target: { ...target, [key]: [...target[key], name] } });
+  };
+
+  const removeTarget = (key: 'classes' | 'categories', name: string) => {
+    onChange({ ...condition, target: { ...target, [key]: target[key].filter(value => value !== name) } });
+  };
+
+  return (
+    <div className="bg-gray-600 p-2 rounded text-xs space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <select
+          value={condition.type}
+          onChange={(e) => onChange(withType(condition, e.target.value as AlertConditionType))}
+          className="bg-gray-700 text-gray-200 rounded px-1"
+        >
+          {conditionTypes.map(({ type, label }) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={condition.zoneId ?? ''}
+          onChange={(e) => onChange({ ...condition, zoneId: e.target.value || undefined })}
+          className="bg-gray-700 text-gray-200 rounded px-1"
+        >
+          <option value="">Whole frame</option>
+          {zones.filter(zone => zone.kind === 'polygon' || zone.id === condition.zoneId).map(zone => (
+            <option key={zone.id} value={zone.id}>{zone.name}</option>
+          ))}
+        </select>
+        {condition.type === 'count' && (
+          <>
+            <select
+              value={condition.comparison}
+              onChange={(e) => onChange({ ...condition, comparison: e.target.value as Comparison })}
+              className="bg-gray-700 text-gray-200 rounded px-1"
+            >
+              {comparisons.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              value={condition.value}
+              onChange={(e) => onChange({ ...condition, value: Number(e.target.value) })}
+              className="w-14 bg-gray-700 text-white rounded px-1"
+            />
+          </>
+        )}
+        {condition.type === 'dwell' && (
+          <label className="flex items-center gap-1 text-gray-300">
+            over
+            <input
+              type="number"
+              min={0}
+              value={condition.seconds}
+              onChange={(e) => onChange({ ...condition, seconds: Number(e.target.value) })}
+              className="w-14 bg-gray-700 text-white rounded px-1"
+            />
+            s
+          </label>
+        )}
+        {condition.type === 'pose' && (
+          <>
+            <select
+              value={condition.pose}
+              onChange={(e) => onChange({ ...condition, pose: e.target.value as PoseLabel })}
+              className="bg-gray-700 text-gray-200 rounded px-1"
+            >
+              {Object.entries(POSE_LABELS).map(([pose, label]) => (
+                <option key={pose} value={pose}>{label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-gray-300">
+              for
+              <input
+                type="number"
+                min={0}
+                value={condition.seconds}
+                onChange={(e) => onChange({ ...condition, seconds: Number(e.target.value) })}
+                className="w-14 bg-gray-700 text-white rounded px-1"
+              />
+              s
+            </label>
+          </>
+        )}
+        <button onClick={onRemove} className="text-red-400 ml-auto" title="Remove condition">
+          ×
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        {target.categories.map(category => (
+          <button
+            key={`category:${category}`}
+            onClick={() => removeTarget('categories', category)}
+            className="px-2 py-0.5 rounded bg-blue-500 text-white"
+            title="Remove"
+          >
+            any {categoryName(taxonomy, category)} ×
+          </button>
+        ))}
+        {target.classes.map(className => (
+          <button
+            key={`class:${className}`}
+            onClick={() => removeTarget('classes', className)}
+            className="px-2 py-0.5 rounded bg-blue-500 text-white"
+            title="Remove"
+          >
+            {className} ×
+          </button>
+        ))}
+        <select
+          value=""
+          onChange={(e) => addTarget(e.target.value)}
+          className="bg-gray-700 text-gray-200 rounded px-1"
+        >
+          <option value="">+ class or category</option>
+          <optgroup label="Categories">
+            {taxonomy.categories.map(category => (
+              <option key={category.id} value={`category:${category.id}`}>{category.name}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Classes">
+            {Object.keys(taxonomy.classes).map(className => (
+              <option key={className} value={`class:${className}`}>{className}</option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+      <div className="text-gray-400">{describeCondition(condition, zones, taxonomy)}</div>
+    </div>
+  );
+};
+
+export const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({
+  rules,
+  zones,
+  taxonomy,
+  history,
+  notifications,
+  onChange,
+  onAddExamples,
+  onExport,
+  onImport,
+  onRequestNotifications,
+  onClearHistory
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const updateCondition = (rule: AlertRule, index: number, condition: AlertCondition) => {
+    updateRule(rule.id, { conditions: rule.conditions.map((c, i) => i === index ? condition : c) });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(await file.text());
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const usesNotifications = rules.some(rule => rule.enabled && rule.actions.notification);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h2 className="text-xl font-bold text-white">Alerts</h2>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <button
+            onClick={() => onChange([...rules, createAlertRule(`Rule ${rules.length + 1}`)])}
+            className="px-3 py-1 rounded bg-gray-600 text-gray-200"
+          >
+            Add rule
+          </button>
+          <button onClick={onAddExamples} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Add examples
+          </button>
+          <button onClick={onExport} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Save JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Load JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      {importError && <div className="text-red-400 text-sm mb-2">{importError}</div>}
+      {usesNotifications && notifications === 'default' && (
+        <div className="text-gray-300 text-sm mb-2">
+          <button onClick={onRequestNotifications} className="px-3 py-1 rounded bg-blue-500 text-white mr-2">
+            Allow notifications
+          </button>
+          Needed for rules that send browser notifications.
+        </div>
+      )}
+      {usesNotifications && (notifications === 'denied' || notifications === 'unsupported') && (
+        <div className="text-gray-400 text-sm mb-2">
+          Browser notifications are {notifications === 'denied' ? 'blocked for this site' : 'not supported here'}.
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div
+            key={rule.id}
+            className={`bg-gray-700 p-2 rounded space-y-2 ${rule.enabled ? '' : 'opacity-75'}`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                title="Enabled"
+              />
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+                className="flex-1 bg-gray-600 text-white px-2 py-1 rounded"
+              />
+              <button
+                onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                className="text-red-400 text-sm"
+              >
+                Delete
+              </button>
+            </div>
+
+            {rule.conditions.map((condition, index) => (
+              <ConditionEditor
+                key={index}
+                condition={condition}
+                zones={zones}
+                taxonomy={taxonomy}
+                onChange={(next) => updateCondition(rule, index, next)}
+                onRemove={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== index) })}
+              />
+            ))}
+            <button
+              onClick={() => updateRule(rule.id, {
+                conditions: [...rule.conditions, { type: 'count', target: { classes: [], categories: [] }, comparison: 'gte', value: 1 }]
+              })}
+              className="px-2 py-0.5 rounded bg-gray-600 text-gray-200 text-xs"
+            >
+              + condition{rule.conditions.length > 0 ? ' (all must hold)' : ''}
+            </button>
+
+            <div className="flex flex-wrap items-center gap-3 text-gray-300 text-sm">
+              {actionLabels.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={rule.actions[key]}
+                    onChange={(e) => updateRule(rule.id, { actions: { ...rule.actions, [key]: e.target.checked } })}
+                  />
+                  {label}
+                </label>
+              ))}
+              <label className="flex items-center gap-1">
+                Cooldown
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.cooldownSeconds}
+                  onChange={(e) => updateRule(rule.id, { cooldownSeconds: Number(e.target.value) })}
+                  className="w-16 bg-gray-600 text-white rounded px-1"
+                />
+                s
+              </label>
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && (
+          <div className="text-gray-400 text-center text-sm">
+            No rules. Add one, or start from the examples.
+          </div>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <div className="mt-4">
+          <div className="flex justify-between items-center mb-1">
+            <h3 className="text-lg font-semibold text-white">Recent alerts</h3>
+            <button onClick={onClearHistory} className="text-gray-400 text-sm">
+              Clear
+            </button>
+          </div>
+          <div className="space-y-2 max-h-64 overflow-auto">
+            {history.map(alert => (
+              <div key={alert.id} className="bg-gray-700 p-2 rounded flex gap-2 text-sm">
+                {alert.snapshot && (
+                  <a href={alert.snapshot} download={`alert-${alert.timestamp}.jpg`} title="Download snapshot">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img src={alert.snapshot} alt={alert.ruleName} className="w-20 rounded flex-shrink-0" />
+                  </a>
+                )}
+                <div className="min-w-0">
+                  <div className="text-white">{alert.ruleName}</div>
+                  <div className="text-gray-400">{alert.message}</div>
+                  <div className="text-gray-400 text-xs">{formatTime(alert.timestamp)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
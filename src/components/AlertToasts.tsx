@@ -0,0 +1,48 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import type { AlertEvent } from '@/types/alerts';
+
+interface AlertToastsProps {
+  alerts: AlertEvent[];
+  onDismiss: (id: string) => void;
+  // Toasts dismiss themselves after this long
+  durationMs?: number;
+}
+
+const Toast: React.FC<{ alert: AlertEvent; onDismiss: (id: string) => void; durationMs: number }> = ({
+  alert,
+  onDismiss,
+  durationMs
+}) => {
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismiss(alert.id), durationMs);
+    return () => clearTimeout(timeout);
+  }, [alert.id, onDismiss, durationMs]);
+
+  return (
+    <div className="bg-gray-700 border-l-4 border-red-500 text-white p-3 rounded shadow-lg flex gap-2">
+      {alert.snapshot && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={alert.snapshot} alt="" className="w-16 rounded flex-shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="font-semibold">{alert.ruleName}</div>
+        <div className="text-gray-300 text-sm">{alert.message}</div>
+      </div>
+      <button onClick={() => onDismiss(alert.id)} className="text-gray-400 self-start" title="Dismiss">
+        ×
+      </button>
+    </div>
+  );
+};
+
+export const AlertToasts: React.FC<AlertToastsProps> = ({ alerts, onDismiss, durationMs = 6000 }) => {
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-w-full space-y-2">
+      {alerts.map(alert => (
+        <Toast key={alert.id} alert={alert} onDismiss={onDismiss} durationMs={durationMs} />
+      ))}
+    </div>
+  );
+};
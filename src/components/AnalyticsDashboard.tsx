@@ -0,0 +1,163 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import type { AnalyticsSnapshot } from '@/types/analytics';
+
+interface AnalyticsDashboardProps {
+  snapshot: AnalyticsSnapshot;
+  showHeatmap: boolean;
+  onShowHeatmapChange: (show: boolean) => void;
+  onReset: () => void;
+}
+
+// Classes beyond this are left out of the chart, least frequent first
+const MAX_SERIES = 6;
+const SERIES_COLORS = ['#60A5FA', '#F87171', '#34D399', '#FBBF24', '#A78BFA', '#F472B6'];
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const formatOffset = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-gray-700 p-2 rounded">
+    <div className="text-gray-400 text-xs">{label}</div>
+    <div className="text-white text-lg">{value}</div>
+    {detail && <div className="text-gray-400 text-xs">{detail}</div>}
+  </div>
+);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
+  snapshot,
+  showHeatmap,
+  onShowHeatmapChange,
+  onReset
+}) => {
+  const series = useMemo(() => {
+    const { buckets } = snapshot;
+    const classes = snapshot.classes.slice(0, MAX_SERIES);
+    const max = Math.max(1, ...buckets.flatMap(bucket => classes.map(className => bucket.counts[className] || 0)));
+    // A single bucket still draws as a flat line across the chart
+    const step = CHART_WIDTH / Math.max(1, buckets.length - 1);
+
+    return {
+      max,
+      lines: classes.map((className, index) => ({
+        className,
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        points: (buckets.length === 1 ? [buckets[0], buckets[0]] : buckets)
+          .map((bucket, i) => {
+            const y = CHART_HEIGHT - ((bucket.counts[className] || 0) / max) * CHART_HEIGHT;
+            return `${(i * step).toFixed(1)},${y.toFixed(1)}`;
+          })
+          .join(' ')
+      }))
+    };
+  }, [snapshot]);
+
+  const hasData = snapshot.startedAt !== null;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h2 className="text-xl font-bold text-white">Analytics</h2>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="flex items-center gap-2 text-gray-300">
+            <input
+              type="checkbox"
+              checked={showHeatmap}
+              onChange={(e) => onShowHeatmapChange(e.target.checked)}
+            />
+            Heatmap over video
+          </label>
+          <button onClick={onReset} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {!hasData ? (
+        <div className="text-gray-400 text-center">No frames analysed yet</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+            <Stat label="Session" value={formatOffset(snapshot.durationMs)} />
+            <Stat label="Objects tracked" value={String(snapshot.dwell.entities)} />
+            <Stat label="Average dwell" value={formatSeconds(snapshot.dwell.averageDwellMs)} />
+            <Stat
+              label="Peak at once"
+              value={String(snapshot.peakOccupancy)}
+              detail={snapshot.peakOccupancyAt !== null && snapshot.startedAt !== null
+                ? `at ${formatOffset(snapshot.peakOccupancyAt - snapshot.startedAt)}`
+                : undefined}
+            />
+          </div>
+
+          <div className="mb-3">
+            <div className="text-gray-300 text-sm mb-1">
+              Objects per class over time (peak per {formatSeconds(snapshot.bucketMs)})
+            </div>
+            <div className="flex gap-2">
+              <div className="flex flex-col justify-between text-gray-400 text-xs">
+                <span>{series.max}</span>
+                <span>0</span>
+              </div>
+              <svg
+                viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                preserveAspectRatio="none"
+                className="flex-1 h-32 bg-gray-700 rounded"
+              >
+                {series.lines.map(line => (
+                  <polyline
+                    key={line.className}
+                    points={line.points}
+                    fill="none"
+                    stroke={line.color}
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </svg>
+            </div>
+            <div className="flex justify-between text-gray-400 text-xs mt-1 pl-6">
+              <span>0:00</span>
+              <span>{formatOffset(snapshot.durationMs)}</span>
+            </div>
+            <div className="flex flex-wrap gap-3 text-xs mt-1">
+              {series.lines.map(line => (
+                <span key={line.className} className="flex items-center gap-1 text-gray-300">
+                  <span className="inline-block w-3 h-0.5" style={{ backgroundColor: line.color }} />
+                  {line.className}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            <div>
+              <div className="text-gray-300 mb-1">Average dwell by class</div>
+              {snapshot.classes.map(className => (
+                <div key={className} className="text-gray-400 flex justify-between">
+                  <span>{className} ({snapshot.dwellByClass[className]?.entities || 0})</span>
+                  <span>{formatSeconds(snapshot.dwellByClass[className]?.averageDwellMs || 0)}</span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <div className="text-gray-300 mb-1">Busiest regions</div>
+              {snapshot.busiestRegions.map(region => (
+                <div key={region.name} className="text-gray-400 flex justify-between">
+                  <span>{region.name}</span>
+                  <span>{Math.round(region.share * 100)}%</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+"use client";
+
+import React from 'react';
+import type { DetectionFilter } from '@/types/filters';
+
+interface DetectionFilterSettingsProps {
+  filter: DetectionFilter;
+  // Classes offered in the pickers
+  classNames: string[];
+  // Global threshold, used as the starting value of a new override
+  threshold: number;
+  onChange: (filter: DetectionFilter) => void;
+  onReset: () => void;
+}
+
+const ClassList: React.FC<{
+  label: string;
+  classes: string[];
+  classNames: string[];
+  onChange: (classes: string[]) => void;
+}> = ({ label, classes, classNames, onChange }) => (
+  <div className="flex flex-wrap items-center gap-1">
+    <span className="w-20 text-gray-300">{label}</span>
+    {classes.map(className => (
+      <button
+        key={className}
+        onClick={() => onChange(classes.filter(c => c !== className))}
+        className="px-2 py-0.5 rounded bg-blue-500 text-white text-xs"
+        title="Remove"
+      >
+        {className} ×
+      </button>
+    ))}
+    <select
+      value=""
+      onChange={(e) => e.target.value && onChange([...classes, e.target.value])}
+      className="bg-gray-700 text-gray-200 rounded px-1 text-xs"
+    >
+      <option value="">+ class</option>
+      {classNames
+        .filter(className => !classes.includes(className))
+        .map(className => (
+          <option key={className} value={className}>{className}</option>
+        ))}
+    </select>
+  </div>
+);
+
+export const DetectionFilterSettings: React.FC<DetectionFilterSettingsProps> = ({
+  filter,
+  classNames,
+  threshold,
+  onChange,
+  onReset
+}) => {
+  const update = (changes: Partial<DetectionFilter>) => onChange({ ...filter, ...changes });
+
+  const setClassThreshold = (className: string, value: number | null) => {
+    const classThresholds = { ...filter.classThresholds };
+    if (value === null) {
+      delete classThresholds[className];
+    } else {
+      classThresholds[className] = value;
+    }
+    update({ classThresholds });
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="space-y-1">
+        <div className="text-gray-300">Per-class thresholds</div>
+        {Object.entries(filter.classThresholds).map(([className, value]) => (
+          <div key={className} className="flex items-center gap-2">
+            <span className="w-32 text-white truncate" title={className}>{className}</span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={value}
+              onChange={(e) => setClassThreshold(className, Number(e.target.value))}
+              className="flex-1"
+            />
+            <span className="w-10 text-gray-300">{value.toFixed(2)}</span>
+            <button onClick={() => setClassThreshold(className, null)} className="text-red-400" title="Remove override">
+              ×
+            </button>
+          </div>
+        ))}
+        <select
+          value=""
+          onChange={(e) => e.target.value && setClassThreshold(e.target.value, threshold)}
+          className="bg-gray-700 text-gray-200 rounded px-1 text-xs"
+        >
+          <option value="">+ class override</option>
+          {classNames
+            .filter(className => filter.classThresholds[className] === undefined)
+            .map(className => (
+              <option key={className} value={className}>{className}</option>
+            ))}
+        </select>
+      </div>
+
+      <ClassList
+        label="Only"
+        classes={filter.allowClasses}
+        classNames={classNames}
+        onChange={(allowClasses) => update({ allowClasses })}
+      />
+      <ClassList
+        label="Never"
+        classes={filter.denyClasses}
+        classNames={classNames}
+        onChange={(denyClasses) => update({ denyClasses })}
+      />
+
+      <div className="flex flex-wrap items-center gap-4 text-gray-300">
+        <label className="flex items-center gap-2">
+          Min box size
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.1}
+            value={+(filter.minBoxArea * 100).toFixed(2)}
+            onChange={(e) => update({ minBoxArea: Math.min(1, Math.max(0, Number(e.target.value) / 100)) })}
+            className="w-20 bg-gray-600 text-white px-2 py-1 rounded"
+          />
+          % of frame
+        </label>
+        <label className="flex items-center gap-2">
+          Max box size
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={+(filter.maxBoxArea * 100).toFixed(2)}
+            onChange={(e) => update({ maxBoxArea: Math.min(1, Math.max(0, Number(e.target.value) / 100)) })}
+            className="w-20 bg-gray-600 text-white px-2 py-1 rounded"
+          />
+          % of frame
+        </label>
+        <button onClick={onReset} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
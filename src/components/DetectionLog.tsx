@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { categoryName, categoryOf, findCategory } from '@/utils/taxonomy';
+import type { EntityLogEntry } from '@/types/entities';
+import type { Taxonomy } from '@/types/taxonomy';
+
+interface DetectionLogProps {
+  entries: EntityLogEntry[];
+  // Distinct entity ids seen per class over the whole session
+  classCounts: { [className: string]: number };
+  taxonomy: Taxonomy;
+}
+
+const statusOrder = { active: 0, lost: 1, exited: 2 };
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export const DetectionLog: React.FC<DetectionLogProps> = ({ entries, classCounts, taxonomy }) => {
+  const groups = useMemo(() => {
+    const grouped: { [category: string]: EntityLogEntry[] } = {};
+
+    entries.forEach(entry => {
+      const category = categoryOf(taxonomy, entry.class);
+      if (!grouped[category]) {
+        grouped[category] = [];
+      }
+      grouped[category].push(entry);
+    });
+
+    // Active entities first, then most recently seen
+    Object.values(grouped).forEach(items => {
+      items.sort((a, b) => {
+        if (a.status !== b.status) return statusOrder[a.status] - statusOrder[b.status];
+        return b.lastSeen - a.lastSeen;
+      });
+    });
+
+    return grouped;
+  }, [entries, taxonomy]);
+
+  const countsByCategory = useMemo(() => {
+    const counts: { [category: string]: Array<[string, number]> } = {};
+    Object.entries(classCounts).forEach(([className, count]) => {
+      const category = categoryOf(taxonomy, className);
+      if (!counts[category]) {
+        counts[category] = [];
+      }
+      counts[category].push([className, count]);
+    });
+    return counts;
+  }, [classCounts, taxonomy]);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg h-full overflow-auto">
+      <h2 className="text-xl font-bold text-white mb-4">Detection Log</h2>
+      {Object.entries(groups).map(([category, items]) => (
+        <div key={category} className="mb-4">
+          <h3 className="text-lg font-semibold text-white mb-1" style={{ color: findCategory(taxonomy, category)?.color }}>
+            {categoryName(taxonomy, category)}
+          </h3>
+          <div className="flex flex-wrap gap-2 mb-2 text-sm">
+            {(countsByCategory[category] || []).map(([className, count]) => (
+              <span key={className} className="bg-gray-600 text-white px-2 py-1 rounded">
+                {className}: {count}
+              </span>
+            ))}
+          </div>
+          <div className="space-y-2">
+            {items.map(entry => (
+              <div
+                key={`${entry.source ?? ''}#${entry.id}`}
+                className={`bg-gray-700 p-2 rounded transition-all duration-300 flex gap-2 ${
+                  entry.status === 'active'
+                    ? 'border-l-4 border-green-500'
+                    : entry.status === 'lost'
+                      ? 'border-l-4 border-yellow-500 opacity-90'
+                      : 'opacity-75'
+                }`}
+              >
+                {entry.thumbnail ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={entry.thumbnail}
+                    alt={`${entry.class} #${entry.id}`}
+                    className="w-12 h-12 object-cover rounded flex-shrink-0"
+                  />
+                ) : (
+                  <div className="w-12 h-12 bg-gray-600 rounded flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="text-white flex justify-between items-center">
+                    <span>
+                      #{entry.id} {taxonomy.classes[entry.class]?.description || entry.class}
+                      {entry.source && <span className="text-gray-400 text-sm"> · {entry.source}</span>}
+                    </span>
+                    <span className="text-sm bg-gray-600 px-2 py-1 rounded">
+                      {Math.round(entry.peakConfidence * 100)}%
+                    </span>
+                  </div>
+                  <div className="text-gray-400 text-sm flex justify-between mt-1">
+                    <span>{formatTime(entry.firstSeen)} – {formatTime(entry.lastSeen)}</span>
+                    <span>{formatDuration(entry.dwellMs)}</span>
+                  </div>
+                  <div className="text-gray-400 text-xs mt-1">
+                    {entry.status === 'active' ? 'Active' :
+                     entry.status === 'lost' ? 'Recent' :
+                     'Exited'}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      {entries.length === 0 && (
+        <div className="text-gray-400 text-center">
+          No objects detected
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useState } from 'react';
+import type { ObjectDetectionBaseModel } from '@tensorflow-models/coco-ssd';
+import type { DetectorConfig, DetectorKind, TfjsBackend, YoloTask, YoloVariant } from '@/types/detector';
+import { parseLabelMap, parsePrompts } from '@/utils/detectors';
+
+interface DetectorSelectorProps {
+  config: DetectorConfig;
+  onApply: (config: DetectorConfig) => void;
+  isLoading?: boolean;
+  error?: string | null;
+}
+
+const cocoBases: ObjectDetectionBaseModel[] = ['lite_mobilenet_v2', 'mobilenet_v1', 'mobilenet_v2'];
+const tfjsBackends: TfjsBackend[] = ['webgl', 'wasm', 'cpu'];
+const yoloTasks: { value: YoloTask; label: string }[] = [
+  { value: 'detect', label: 'Boxes' },
+  { value: 'segment', label: 'Segmentation' },
+  { value: 'pose', label: 'Pose' }
+];
+
+export const DetectorSelector: React.FC<DetectorSelectorProps> = ({
+  config,
+  onApply,
+  isLoading = false,
+  error
+}) => {
+  const [kind, setKind] = useState<DetectorKind>(config.kind);
+  const [cocoBase, setCocoBase] = useState<ObjectDetectionBaseModel>(
+    config.kind === 'coco-ssd' ? config.base || 'lite_mobilenet_v2' : 'lite_mobilenet_v2'
+  );
+  const [tfjsBackend, setTfjsBackend] = useState<TfjsBackend | ''>(
+    config.kind === 'coco-ssd' ? config.backend || '' : ''
+  );
+  const [modelUrl, setModelUrl] = useState(config.kind === 'yolo-onnx' ? config.modelUrl : '/models/yolov8n.onnx');
+  const [variant, setVariant] = useState<YoloVariant>(config.kind === 'yolo-onnx' ? config.variant : 'yolov8');
+  const [task, setTask] = useState<YoloTask>(config.kind === 'yolo-onnx' ? config.task || 'detect' : 'detect');
+  const [inputSize, setInputSize] = useState(config.kind === 'yolo-onnx' ? config.inputSize || 640 : 640);
+  const [labels, setLabels] = useState<string[]>(config.kind === 'yolo-onnx' ? config.labels || [] : []);
+  const [labelError, setLabelError] = useState<string | null>(null);
+  const [prompts, setPrompts] = useState(config.kind === 'owl-vit' ? config.prompts.join(', ') : 'person, backpack, hard hat');
+
+  const handleModelFile = (file: File | undefined) => {
+    if (!file) return;
+    setModelUrl(URL.createObjectURL(file));
+  };
+
+  const handleLabelFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setLabels(parseLabelMap(await file.text()));
+      setLabelError(null);
+    } catch (err) {
+      console.error('Error parsing label map:', err);
+      setLabelError('Could not parse label map');
+    }
+  };
+
+  const apply = () => {
+    if (kind === 'coco-ssd') {
+      onApply({ kind: 'coco-ssd', base: cocoBase, backend: tfjsBackend || undefined });
+    } else if (kind === 'owl-vit') {
+      onApply({ kind: 'owl-vit', prompts: parsePrompts(prompts) });
+    } else {
+      onApply({
+        kind: 'yolo-onnx',
+        modelUrl,
+        variant,
+        // Masks and keypoints come from YOLOv8 heads only
+        task: variant === 'yolov8' ? task : 'detect',
+        inputSize,
+        labels: labels.length > 0 ? labels : undefined
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-white">Detector</label>
+      <div className="flex flex-wrap gap-2 items-center">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as DetectorKind)}
+          className="bg-gray-700 text-white px-2 py-1 rounded"
+        >
+          <option value="coco-ssd">COCO-SSD (TF.js)</option>
+          <option value="yolo-onnx">YOLO (ONNX)</option>
+          <option value="owl-vit">Open vocabulary (OWL-ViT)</option>
+        </select>
+
+        {kind === 'coco-ssd' && (
+          <select
+            value={cocoBase}
+            onChange={(e) => setCocoBase(e.target.value as ObjectDetectionBaseModel)}
+            className="bg-gray-700 text-white px-2 py-1 rounded"
+          >
+            {cocoBases.map(base => (
+              <option key={base} value={base}>{base}</option>
+            ))}
+          </select>
+        )}
+
+        {kind === 'coco-ssd' && (
+          <select
+            value={tfjsBackend}
+            onChange={(e) => setTfjsBackend(e.target.value as TfjsBackend | '')}
+            className="bg-gray-700 text-white px-2 py-1 rounded"
+            title="TF.js backend"
+          >
+            <option value="">Auto backend</option>
+            {tfjsBackends.map(backend => (
+              <option key={backend} value={backend}>{backend}</option>
+            ))}
+          </select>
+        )}
+
+        {kind === 'yolo-onnx' && (
+          <>
+            <select
+              value={variant}
+              onChange={(e) => setVariant(e.target.value as YoloVariant)}
+              className="bg-gray-700 text-white px-2 py-1 rounded"
+            >
+              <option value="yolov8">YOLOv8</option>
+              <option value="yolo-nas">YOLO-NAS</option>
+            </select>
+            {variant === 'yolov8' && (
+              <select
+                value={task}
+                onChange={(e) => setTask(e.target.value as YoloTask)}
+                className="bg-gray-700 text-white px-2 py-1 rounded"
+                title="Model output"
+              >
+                {yoloTasks.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            )}
+            <input
+              type="number"
+              min={32}
+              step={32}
+              value={inputSize}
+              onChange={(e) => setInputSize(Number(e.target.value))}
+              className="bg-gray-700 text-white px-2 py-1 rounded w-20"
+              title="Model input size"
+            />
+          </>
+        )}
+
+        {kind === 'owl-vit' && (
+          <input
+            type="text"
+            value={prompts}
+            onChange={(e) => setPrompts(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !isLoading && apply()}
+            placeholder="red backpack, forklift, hard hat"
+            className="flex-1 min-w-48 bg-gray-700 text-white px-2 py-1 rounded"
+            title="Comma-separated prompts, one per class"
+          />
+        )}
+
+        <button
+          onClick={apply}
+          disabled={isLoading || (kind === 'owl-vit' && parsePrompts(prompts).length === 0)}
+          className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Load'}
+        </button>
+      </div>
+
+      {kind === 'yolo-onnx' && (
+        <div className="space-y-2 text-sm text-gray-300">
+          <input
+            type="text"
+            value={modelUrl}
+            onChange={(e) => setModelUrl(e.target.value)}
+            placeholder="Model URL (.onnx)"
+            className="w-full bg-gray-700 text-white px-2 py-1 rounded"
+          />
+          <div className="flex flex-wrap gap-4">
+            <label>
+              Model file{' '}
+              <input type="file" accept=".onnx" onChange={(e) => handleModelFile(e.target.files?.[0])} />
+            </label>
+            <label>
+              Labels{' '}
+              <input type="file" accept=".txt,.json" onChange={(e) => handleLabelFile(e.target.files?.[0])} />
+            </label>
+          </div>
+          <div>
+            {labels.length > 0 ? `${labels.length} custom labels` : 'Using COCO labels'}
+            {labelError && <span className="text-red-400 ml-2">{labelError}</span>}
+          </div>
+        </div>
+      )}
+
+      {kind === 'owl-vit' && (
+        <div className="text-sm text-gray-400">
+          Each prompt becomes a class. Prompt scores are low, so a detection threshold around 0.1–0.2 works best.
+        </div>
+      )}
+
+      {error && <div className="text-red-400 text-sm">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+"use client";
+
+import React from 'react';
+import type { EventSinkSettings, EventSinkStatus } from '@/types/events';
+
+interface EventSinkPanelProps {
+  settings: EventSinkSettings;
+  status: EventSinkStatus | null;
+  onChange: (settings: EventSinkSettings) => void;
+  onFlush: () => void;
+}
+
+export const EventSinkPanel: React.FC<EventSinkPanelProps> = ({ settings, status, onChange, onFlush }) => {
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-4 text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          />
+          Send events to /api/events
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.includeFrames}
+            onChange={(e) => onChange({ ...settings, includeFrames: e.target.checked })}
+          />
+          Include every frame
+        </label>
+        <label className="flex items-center gap-2">
+          Token
+          <input
+            type="password"
+            value={settings.token}
+            placeholder="optional"
+            onChange={(e) => onChange({ ...settings, token: e.target.value })}
+            className="w-40 bg-gray-600 text-white px-2 py-1 rounded"
+          />
+        </label>
+      </div>
+      {settings.enabled && status && (
+        <div className="flex flex-wrap items-center gap-2 text-gray-400">
+          <span>
+            {status.sent} sent · {status.buffered} buffered · {status.queuedBatches} batches queued
+            {status.dropped > 0 && ` · ${status.dropped} dropped`}
+            {!status.online && ' · offline'}
+          </span>
+          <button
+            onClick={onFlush}
+            className="px-3 py-1 rounded bg-gray-600 text-gray-200"
+          >
+            Send now
+          </button>
+          {status.lastError && <span className="text-red-400">{status.lastError}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
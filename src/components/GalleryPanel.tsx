@@ -0,0 +1,198 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { GallerySettings, Snapshot, SnapshotQuery } from '@/types/gallery';
+
+interface GalleryPanelProps {
+  settings: GallerySettings;
+  snapshots: Snapshot[];
+  query: SnapshotQuery;
+  error: string | null;
+  onSettingsChange: (settings: GallerySettings) => void;
+  onQueryChange: (query: SnapshotQuery) => void;
+  onDownload: (snapshots: Snapshot[]) => void;
+  onDelete: (keys: number[]) => void;
+  onClear: () => void;
+}
+
+const PAGE_SIZE = 48;
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// datetime-local inputs work in local time without a zone suffix
+const toInputValue = (timestamp: number | null) => {
+  if (timestamp === null) return '';
+  const local = new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const fromInputValue = (value: string) => {
+  const timestamp = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+export const GalleryPanel: React.FC<GalleryPanelProps> = ({
+  settings,
+  snapshots,
+  query,
+  error,
+  onSettingsChange,
+  onQueryChange,
+  onDownload,
+  onDelete,
+  onClear
+}) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const visible = useMemo(() => snapshots.slice(0, visibleCount), [snapshots, visibleCount]);
+  const [urls, setUrls] = useState<Map<number, string>>(new Map());
+
+  useEffect(() => {
+    const next = new Map(visible.map(snapshot => [snapshot.key as number, URL.createObjectURL(snapshot.image)]));
+    setUrls(next);
+    return () => next.forEach(url => URL.revokeObjectURL(url));
+  }, [visible]);
+
+  // Drop selections that are no longer listed
+  useEffect(() => {
+    const keys = new Set(snapshots.map(snapshot => snapshot.key as number));
+    setSelected(current => new Set([...current].filter(key => keys.has(key))));
+  }, [snapshots]);
+
+  const toggleSelected = (key: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const chosen = selected.size > 0
+    ? snapshots.filter(snapshot => selected.has(snapshot.key as number))
+    : snapshots;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-4 text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+          />
+          Save best crop of each object
+        </label>
+        <label className="flex items-center gap-2">
+          Keep at most
+          <input
+            type="number"
+            min={1}
+            value={settings.maxSnapshots}
+            onChange={(e) => onSettingsChange({ ...settings, maxSnapshots: Math.max(1, Number(e.target.value) || 1) })}
+            className="w-20 bg-gray-600 text-white px-2 py-1 rounded"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          for
+          <input
+            type="number"
+            min={0}
+            value={settings.maxAgeDays}
+            onChange={(e) => onSettingsChange({ ...settings, maxAgeDays: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-16 bg-gray-600 text-white px-2 py-1 rounded"
+          />
+          days (0: no limit)
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-gray-300">
+        <input
+          type="text"
+          value={query.className}
+          placeholder="Class"
+          onChange={(e) => onQueryChange({ ...query, className: e.target.value })}
+          className="w-32 bg-gray-600 text-white px-2 py-1 rounded"
+        />
+        <label className="flex items-center gap-2">
+          From
+          <input
+            type="datetime-local"
+            value={toInputValue(query.from)}
+            onChange={(e) => onQueryChange({ ...query, from: fromInputValue(e.target.value) })}
+            className="bg-gray-600 text-white px-2 py-1 rounded"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          To
+          <input
+            type="datetime-local"
+            value={toInputValue(query.to)}
+            onChange={(e) => onQueryChange({ ...query, to: fromInputValue(e.target.value) })}
+            className="bg-gray-600 text-white px-2 py-1 rounded"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-gray-400">
+        <span>
+          {snapshots.length} snapshots{selected.size > 0 && ` · ${selected.size} selected`}
+        </span>
+        <button
+          onClick={() => onDownload(chosen)}
+          disabled={chosen.length === 0}
+          className="px-3 py-1 rounded bg-gray-600 text-gray-200 disabled:opacity-50"
+        >
+          {selected.size > 0 ? 'Download selected' : 'Download all'} (ZIP)
+        </button>
+        <button
+          onClick={() => onDelete([...selected])}
+          disabled={selected.size === 0}
+          className="px-3 py-1 rounded bg-gray-600 text-gray-200 disabled:opacity-50"
+        >
+          Delete selected
+        </button>
+        <button
+          onClick={onClear}
+          disabled={snapshots.length === 0}
+          className="px-3 py-1 rounded bg-gray-600 text-gray-200 disabled:opacity-50"
+        >
+          Clear gallery
+        </button>
+        {error && <span className="text-red-400">{error}</span>}
+      </div>
+
+      {visible.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {visible.map(snapshot => {
+            const key = snapshot.key as number;
+            return (
+              <label
+                key={key}
+                className={`block rounded bg-gray-800 p-1 cursor-pointer ${selected.has(key) ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                {urls.has(key) && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={urls.get(key)} alt={snapshot.class} className="w-full h-24 object-contain rounded" />
+                )}
+                <div className="flex items-center gap-1 text-xs text-gray-300">
+                  <input type="checkbox" checked={selected.has(key)} onChange={() => toggleSelected(key)} />
+                  <span className="truncate">#{snapshot.entityId} {snapshot.class} {Math.round(snapshot.score * 100)}%</span>
+                </div>
+                <div className="text-xs text-gray-500">{formatTime(snapshot.capturedAt)}</div>
+              </label>
+            );
+          })}
+        </div>
+      )}
+      {snapshots.length > visible.length && (
+        <button
+          onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+          className="px-3 py-1 rounded bg-gray-600 text-gray-200"
+        >
+          Show more
+        </button>
+      )}
+    </div>
+  );
+};
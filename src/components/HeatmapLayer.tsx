@@ -0,0 +1,43 @@
+"use client";
+
+import React, { useEffect, useRef } from 'react';
+import type { HeatmapGrid } from '@/types/analytics';
+
+interface HeatmapLayerProps {
+  heatmap: HeatmapGrid;
+  mirror?: boolean;
+  style?: React.CSSProperties;
+}
+
+// Draws the accumulated heatmap one pixel per cell and lets the browser
+// scale it up, which smooths the grid into a density map
+export const HeatmapLayer: React.FC<HeatmapLayerProps> = ({ heatmap, mirror = false, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { columns, rows, values } = heatmap;
+    canvas.width = columns;
+    canvas.height = rows;
+    ctx.clearRect(0, 0, columns, rows);
+
+    const max = values.reduce((highest, value) => Math.max(highest, value), 0);
+    if (max <= 0) return;
+
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const count = values[row * columns + column];
+        if (count <= 0) continue;
+        // Log scale, so a few busy cells don't wash out the rest
+        const value = Math.log1p(count) / Math.log1p(max);
+        ctx.fillStyle = `hsla(${Math.round(240 * (1 - value))}, 100%, 50%, ${0.2 + value * 0.45})`;
+        ctx.fillRect(mirror ? columns - column - 1 : column, row, 1, 1);
+      }
+    }
+  }, [heatmap, mirror]);
+
+  return <canvas ref={canvasRef} style={{ pointerEvents: 'none', ...style }} />;
+};
@@ -0,0 +1,119 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import type { InferenceBackend, InferenceMode, InferenceOptions } from '@/types/detector';
+
+interface InferenceSettingsProps {
+  options: InferenceOptions;
+  onChange: (options: InferenceOptions) => void;
+  // Backend and inference time of the latest frame, and why auto mode is
+  // using one side only, if it is
+  status: { backend: InferenceBackend; inferenceMs: number; fallback?: string } | null;
+  // Privacy mode keeps frames on the device whatever the mode
+  localOnly?: boolean;
+}
+
+const modes: { value: InferenceMode; label: string }[] = [
+  { value: 'local', label: 'Browser' },
+  { value: 'remote', label: 'Server' },
+  { value: 'auto', label: 'Auto' }
+];
+
+const uploadSizes = [320, 480, 640, 960];
+const jpegQualities = [0.5, 0.7, 0.9];
+const localBudgets = [100, 150, 250, 500];
+
+export const InferenceSettings: React.FC<InferenceSettingsProps> = ({ options, onChange, status, localOnly = false }) => {
+  const update = (changes: Partial<InferenceOptions>) => onChange({ ...options, ...changes });
+  // Changing options reloads the detector, so the token applies on Enter or blur
+  const [token, setToken] = useState(options.token ?? '');
+  useEffect(() => setToken(options.token ?? ''), [options.token]);
+  const applyToken = () => {
+    if (token !== (options.token ?? '')) update({ token });
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-white">Inference</span>
+        {modes.map(mode => (
+          <button
+            key={mode.value}
+            onClick={() => update({ mode: mode.value })}
+            className={`px-3 py-1 rounded ${
+              options.mode === mode.value ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-200'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+        {status && (
+          <span className="text-gray-400">
+            Last frame: {status.backend === 'remote' ? 'server' : 'browser'} · {Math.round(status.inferenceMs)} ms
+          </span>
+        )}
+      </div>
+      {status?.fallback && options.mode === 'auto' && (
+        <div className="text-yellow-300">{status.fallback}</div>
+      )}
+      {localOnly && options.mode !== 'local' && (
+        <div className="text-yellow-300">Privacy mode is on, so frames are analysed in the browser</div>
+      )}
+
+      {options.mode !== 'local' && (
+        <div className="flex flex-wrap items-center gap-4 text-gray-300">
+          <label className="flex items-center gap-2">
+            Upload size
+            <select
+              value={options.maxUploadSize}
+              onChange={(e) => update({ maxUploadSize: Number(e.target.value) })}
+              className="bg-gray-700 text-white px-2 py-1 rounded"
+            >
+              {uploadSizes.map(size => (
+                <option key={size} value={size}>{size}px</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            JPEG quality
+            <select
+              value={options.jpegQuality}
+              onChange={(e) => update({ jpegQuality: Number(e.target.value) })}
+              className="bg-gray-700 text-white px-2 py-1 rounded"
+            >
+              {jpegQualities.map(quality => (
+                <option key={quality} value={quality}>{Math.round(quality * 100)}%</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Token
+            <input
+              type="password"
+              value={token}
+              placeholder="optional"
+              onChange={(e) => setToken(e.target.value)}
+              onBlur={applyToken}
+              onKeyDown={(e) => e.key === 'Enter' && applyToken()}
+              className="w-32 bg-gray-600 text-white px-2 py-1 rounded"
+            />
+          </label>
+          {options.mode === 'auto' && (
+            <label className="flex items-center gap-2">
+              Use server above
+              <select
+                value={options.localBudgetMs}
+                onChange={(e) => update({ localBudgetMs: Number(e.target.value) })}
+                className="bg-gray-700 text-white px-2 py-1 rounded"
+              >
+                {localBudgets.map(ms => (
+                  <option key={ms} value={ms}>{ms} ms</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
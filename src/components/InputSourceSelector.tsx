@@ -0,0 +1,108 @@
+"use client";
+
+import React from 'react';
+import type { InputSource, InputSourceKind } from '@/types/input';
+import { DEFAULT_WEBCAM_SOURCE, oppositeFacingMode, sortFilesByName } from '@/utils/mediaSources';
+
+interface InputSourceSelectorProps {
+  source: InputSource;
+  devices: MediaDeviceInfo[];
+  onChange: (source: InputSource) => void;
+  error: string | null;
+}
+
+const sourceKinds: { kind: InputSourceKind; label: string }[] = [
+  { kind: 'webcam', label: 'Webcam' },
+  { kind: 'file', label: 'Video file' },
+  { kind: 'images', label: 'Images' }
+];
+
+export const InputSourceSelector: React.FC<InputSourceSelectorProps> = ({
+  source,
+  devices,
+  onChange,
+  error
+}) => {
+  return (
+    <div>
+      <label className="block text-white mb-2">Input Source:</label>
+      <div className="flex flex-wrap items-center gap-2">
+        {sourceKinds.map(({ kind, label }) => {
+          const className = `px-3 py-1 rounded cursor-pointer ${
+            source.kind === kind ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-200'
+          }`;
+
+          if (kind === 'webcam') {
+            return (
+              <button
+                key={kind}
+                onClick={() => source.kind !== 'webcam' && onChange(DEFAULT_WEBCAM_SOURCE)}
+                className={className}
+              >
+                {label}
+              </button>
+            );
+          }
+
+          return (
+            <label key={kind} className={className}>
+              {label}
+              <input
+                type="file"
+                accept={kind === 'file' ? 'video/*' : 'image/*'}
+                multiple={kind === 'images'}
+                className="hidden"
+                onChange={(e) => {
+                  const files = Array.from(e.target.files || []);
+                  if (files.length === 0) return;
+                  onChange(kind === 'file'
+                    ? { kind: 'file', file: files[0] }
+                    : { kind: 'images', files: sortFilesByName(files) });
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {source.kind === 'webcam' && (
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <select
+            value={source.deviceId || ''}
+            onChange={(e) => onChange({ ...source, deviceId: e.target.value || undefined })}
+            className="bg-gray-700 text-white px-2 py-1 rounded"
+          >
+            <option value="">
+              {source.facingMode === 'user' ? 'Front camera' : 'Back camera'}
+            </option>
+            {devices.map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `Camera ${index + 1}`}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange({
+              kind: 'webcam',
+              facingMode: oppositeFacingMode(source.facingMode)
+            })}
+            className="px-3 py-1 rounded bg-gray-600 text-gray-200"
+          >
+            Switch to {source.facingMode === 'user' ? 'back' : 'front'} camera
+          </button>
+        </div>
+      )}
+
+      {source.kind === 'file' && (
+        <div className="text-gray-400 text-sm mt-2">{source.file.name}</div>
+      )}
+      {source.kind === 'images' && (
+        <div className="text-gray-400 text-sm mt-2">
+          {source.files.length === 1 ? source.files[0].name : `${source.files.length} images`}
+        </div>
+      )}
+      {error && <div className="text-red-400 text-sm mt-2">{error}</div>}
+    </div>
+  );
+};
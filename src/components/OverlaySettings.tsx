@@ -0,0 +1,79 @@
+"use client";
+
+import React from 'react';
+import type { OverlayStyle } from '@/utils/overlayRenderer';
+
+interface OverlaySettingsProps {
+  style: OverlayStyle;
+  onChange: (style: OverlayStyle) => void;
+  onReset: () => void;
+}
+
+type Toggle = {
+  key: { [K in keyof OverlayStyle]: OverlayStyle[K] extends boolean ? K : never }[keyof OverlayStyle];
+  label: string;
+};
+
+const toggles: Toggle[] = [
+  { key: 'showIds', label: 'Track IDs' },
+  { key: 'showScores', label: 'Scores' },
+  { key: 'showDescriptions', label: 'Class descriptions' },
+  { key: 'showConfidenceBars', label: 'Confidence bars' },
+  { key: 'showPredicted', label: 'Predicted boxes' },
+  { key: 'showTrails', label: 'Motion trails' },
+  { key: 'heatmap', label: 'Heatmap' },
+  { key: 'showMasks', label: 'Masks' },
+  { key: 'showSkeletons', label: 'Pose skeletons' },
+  { key: 'mirror', label: 'Mirror' }
+];
+
+export const OverlaySettings: React.FC<OverlaySettingsProps> = ({ style, onChange, onReset }) => {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {toggles.map(toggle => (
+          <label key={toggle.key} className="flex items-center gap-2 text-gray-300 text-sm">
+            <input
+              type="checkbox"
+              checked={style[toggle.key]}
+              onChange={(e) => onChange({ ...style, [toggle.key]: e.target.checked })}
+            />
+            {toggle.label}
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+        <div>
+          <label className="block text-gray-300 text-sm">Line width: {style.lineWidth}</label>
+          <input
+            type="range"
+            min={1}
+            max={6}
+            step={0.5}
+            value={style.lineWidth}
+            onChange={(e) => onChange({ ...style, lineWidth: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-300 text-sm">Trail length: {style.trailLength}</label>
+          <input
+            type="range"
+            min={2}
+            max={120}
+            step={1}
+            value={style.trailLength}
+            onChange={(e) => onChange({ ...style, trailLength: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      </div>
+      <button
+        onClick={onReset}
+        className="px-3 py-1 bg-gray-600 text-gray-200 rounded hover:bg-gray-500 transition-colors text-sm"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
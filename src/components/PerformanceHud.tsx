@@ -0,0 +1,41 @@
+"use client";
+
+import React from 'react';
+import type { PerformanceStats } from '@/types/performance';
+
+interface PerformanceHudProps {
+  stats: PerformanceStats;
+  style?: React.CSSProperties;
+}
+
+const formatBytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const PerformanceHud: React.FC<PerformanceHudProps> = ({ stats, style }) => {
+  const { runtime } = stats;
+  const rows: Array<[string, string]> = [
+    ['Capture', `${stats.captureFps.toFixed(0)} fps`],
+    ['Analysed', `${stats.analysedFps.toFixed(0)} fps`],
+    ['Skipped', String(stats.skippedFrames)],
+    ['Inference', `${stats.inferenceMs.toFixed(1)} ms`],
+    ['Tracker', `${stats.trackerMs.toFixed(1)} ms`],
+    ['Render', `${stats.renderMs.toFixed(1)} ms`],
+    ['Backend', runtime?.backend ?? '–']
+  ];
+  if (runtime?.numTensors !== undefined) rows.push(['Tensors', String(runtime.numTensors)]);
+  if (runtime?.numBytes !== undefined) rows.push(['Tensor memory', formatBytes(runtime.numBytes)]);
+  if (stats.heapBytes !== null) rows.push(['JS heap', formatBytes(stats.heapBytes)]);
+
+  return (
+    <div
+      className="pointer-events-none bg-black/60 text-green-300 font-mono text-xs rounded px-2 py-1"
+      style={style}
+    >
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between gap-4">
+          <span className="text-gray-300">{label}</span>
+          <span>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
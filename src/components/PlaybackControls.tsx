@@ -0,0 +1,102 @@
+"use client";
+
+import React from 'react';
+
+interface PlaybackControlsProps {
+  playing: boolean;
+  frame: number;
+  frameCount: number;
+  // Shown next to the frame counter, e.g. the media time or image name
+  label?: string;
+  onPlayPause: () => void;
+  onSeek: (frame: number) => void;
+  onStep: (delta: number) => void;
+  // Video files only
+  deterministic?: boolean;
+  onDeterministicChange?: (deterministic: boolean) => void;
+  fps?: number;
+  onFpsChange?: (fps: number) => void;
+}
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  playing,
+  frame,
+  frameCount,
+  label,
+  onPlayPause,
+  onSeek,
+  onStep,
+  deterministic,
+  onDeterministicChange,
+  fps,
+  onFpsChange
+}) => {
+  const lastFrame = Math.max(frameCount - 1, 0);
+
+  return (
+    <div className="bg-gray-800 p-2 rounded-lg mt-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onStep(-1)}
+          disabled={playing || frame <= 0}
+          className="px-2 py-1 rounded bg-gray-600 text-gray-200 disabled:opacity-50"
+          title="Previous frame"
+        >
+          ◀|
+        </button>
+        <button
+          onClick={onPlayPause}
+          className="px-3 py-1 rounded bg-blue-500 text-white w-16"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={() => onStep(1)}
+          disabled={playing || frame >= lastFrame}
+          className="px-2 py-1 rounded bg-gray-600 text-gray-200 disabled:opacity-50"
+          title="Next frame"
+        >
+          |▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={lastFrame}
+          step={1}
+          value={Math.min(frame, lastFrame)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-gray-300 text-sm whitespace-nowrap">
+          {frame + 1} / {frameCount}{label ? ` · ${label}` : ''}
+        </span>
+      </div>
+
+      {onDeterministicChange && (
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={deterministic}
+              onChange={(e) => onDeterministicChange(e.target.checked)}
+            />
+            Analyse every frame
+          </label>
+          {onFpsChange && (
+            <label className="flex items-center gap-2">
+              Frame rate
+              <input
+                type="number"
+                min={1}
+                max={120}
+                value={fps}
+                onChange={(e) => onFpsChange(Math.min(Math.max(Number(e.target.value) || 1, 1), 120))}
+                className="w-16 bg-gray-700 text-white px-2 py-0.5 rounded"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+"use client";
+
+import React from 'react';
+import { DEFAULT_REDACTION_RULE } from '@/utils/redaction';
+import type { PrivacySettings, RedactionMethod, RedactionRule } from '@/types/privacy';
+
+interface PrivacyPanelProps {
+  settings: PrivacySettings;
+  // Classes offered in the picker
+  classNames: string[];
+  onChange: (settings: PrivacySettings) => void;
+  onReset: () => void;
+}
+
+const methods: { value: RedactionMethod; label: string }[] = [
+  { value: 'blur', label: 'Blur' },
+  { value: 'pixelate', label: 'Pixelate' },
+  { value: 'mask', label: 'Mask' }
+];
+
+export const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, classNames, onChange, onReset }) => {
+  const update = (changes: Partial<PrivacySettings>) => onChange({ ...settings, ...changes });
+
+  const setRule = (className: string, rule: RedactionRule | null) => {
+    const rules = { ...settings.rules };
+    if (rule === null) {
+      delete rules[className];
+    } else {
+      rules[className] = rule;
+    }
+    update({ rules });
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => update({ enabled: !settings.enabled })}
+          className={`px-3 py-1 rounded ${settings.enabled ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-200'}`}
+        >
+          {settings.enabled ? 'Privacy mode on' : 'Privacy mode off'}
+        </button>
+        {settings.enabled && (
+          <span className="text-gray-400">
+            The video is only shown, recorded and captured with these classes redacted, and frames stay in the browser
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {Object.entries(settings.rules).map(([className, rule]) => (
+          <div key={className} className="flex flex-wrap items-center gap-2">
+            <span className="w-32 text-white truncate" title={className}>{className}</span>
+            {methods.map(method => (
+              <button
+                key={method.value}
+                onClick={() => setRule(className, { ...rule, method: method.value })}
+                className={`px-2 py-0.5 rounded text-xs ${
+                  rule.method === method.value ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-200'
+                }`}
+              >
+                {method.label}
+              </button>
+            ))}
+            {rule.method !== 'mask' && (
+              <label className="flex items-center gap-2 text-gray-300">
+                Strength
+                <input
+                  type="range"
+                  min="0.05"
+                  max="0.5"
+                  step="0.05"
+                  value={rule.strength}
+                  onChange={(e) => setRule(className, { ...rule, strength: Number(e.target.value) })}
+                />
+              </label>
+            )}
+            <button onClick={() => setRule(className, null)} className="text-red-400" title="Stop redacting this class">
+              ×
+            </button>
+          </div>
+        ))}
+        <select
+          value=""
+          onChange={(e) => e.target.value && setRule(e.target.value, DEFAULT_REDACTION_RULE)}
+          className="bg-gray-700 text-gray-200 rounded px-1 text-xs"
+        >
+          <option value="">+ class</option>
+          {classNames
+            .filter(className => !settings.rules[className])
+            .map(className => (
+              <option key={className} value={className}>{className}</option>
+            ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-gray-300">
+        <label className="flex items-center gap-2">
+          Min score
+          <input
+            type="range"
+            min="0.05"
+            max="0.9"
+            step="0.05"
+            value={settings.minScore}
+            onChange={(e) => update({ minScore: Number(e.target.value) })}
+          />
+          <span className="w-10">{settings.minScore.toFixed(2)}</span>
+        </label>
+        <label className="flex items-center gap-2">
+          Padding
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(settings.padding * 100)}
+            onChange={(e) => update({ padding: Math.min(1, Math.max(0, Number(e.target.value) / 100)) })}
+            className="w-20 bg-gray-600 text-white px-2 py-1 rounded"
+          />
+          % of box
+        </label>
+        <button onClick={onReset} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+"use client";
+
+import React from 'react';
+import type { ExportFormat } from '@/types/recording';
+
+interface RecordingPanelProps {
+  isRecording: boolean;
+  frameCount: number;
+  onToggleRecording: () => void;
+  onExport: (format: ExportFormat) => void;
+  onClear: () => void;
+}
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: 'jsonl', label: 'JSONL' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'mot-det', label: 'MOT det.txt' },
+  { format: 'mot-gt', label: 'MOT gt.txt' }
+];
+
+export const RecordingPanel: React.FC<RecordingPanelProps> = ({
+  isRecording,
+  frameCount,
+  onToggleRecording,
+  onExport,
+  onClear
+}) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button
+        onClick={onToggleRecording}
+        className={`px-3 py-1 rounded ${isRecording ? 'bg-red-600 text-white' : 'bg-gray-600 text-gray-200'}`}
+      >
+        {isRecording ? '■ Stop recording' : '● Record data'}
+      </button>
+      <span className="text-gray-300 text-sm">{frameCount} frames</span>
+      {formats.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={frameCount === 0}
+          className="px-3 py-1 rounded bg-gray-600 text-gray-200 text-sm disabled:opacity-50"
+        >
+          {label}
+        </button>
+      ))}
+      <button
+        onClick={onClear}
+        disabled={frameCount === 0 || isRecording}
+        className="px-3 py-1 rounded bg-gray-600 text-gray-200 text-sm disabled:opacity-50"
+      >
+        Clear
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { frameAtOffset, parseSidecar } from '@/utils/sessionRecorder';
+import { OverlayRenderer } from '@/utils/overlayRenderer';
+import { categoryOf } from '@/utils/taxonomy';
+import type { SessionFrame, SessionSidecar } from '@/types/recording';
+import type { Taxonomy } from '@/types/taxonomy';
+
+interface ReplayViewerProps {
+  // A session recorded on this page; clip and sidecar files can also be opened
+  session: { videoUrl: string; sidecar: SessionSidecar } | null;
+  taxonomy: Taxonomy;
+  onClose: () => void;
+}
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ session, taxonomy, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef(new OverlayRenderer());
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [sidecar, setSidecar] = useState<SessionSidecar | null>(null);
+  const [threshold, setThreshold] = useState(0);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [showOverlay, setShowOverlay] = useState(true);
+  const [showPredicted, setShowPredicted] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+    setVideoUrl(session.videoUrl);
+    setSidecar(session.sidecar);
+    setShowOverlay(!session.sidecar.overlayBurnedIn);
+  }, [session]);
+
+  const openVideo = (file: File | undefined) => {
+    if (file) setVideoUrl(URL.createObjectURL(file));
+  };
+
+  // Object URLs of opened clip files are owned here; the page owns the session's
+  useEffect(() => {
+    return () => {
+      if (videoUrl && videoUrl !== session?.videoUrl) URL.revokeObjectURL(videoUrl);
+    };
+  }, [videoUrl, session]);
+
+  const openSidecar = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseSidecar(await file.text());
+      setSidecar(parsed);
+      setShowOverlay(!parsed.overlayBurnedIn);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const visibleTracks = useCallback((frame: SessionFrame) => frame.tracks.filter(track =>
+    track.score >= threshold &&
+    (selectedCategories.length === 0 || selectedCategories.includes(categoryOf(taxonomy, track.class)))
+  ), [threshold, selectedCategories, taxonomy]);
+
+  useEffect(() => {
+    rendererRef.current.setTaxonomy(taxonomy);
+    rendererRef.current.configure({ showPredicted, mirror: sidecar?.mirrored ?? false });
+  }, [taxonomy, showPredicted, sidecar]);
+
+  // Trails only make sense while playing forwards
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const handleSeeked = () => rendererRef.current.reset();
+    video.addEventListener('seeked', handleSeeked);
+    return () => video.removeEventListener('seeked', handleSeeked);
+  }, [videoUrl]);
+
+  // Redraw the sidecar overlay whenever the clip moves to another frame
+  useEffect(() => {
+    let animationFrame: number;
+    let drawnFrame: SessionFrame | null | undefined;
+
+    const draw = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (video && canvas && ctx && sidecar) {
+        if (canvas.width !== sidecar.width || canvas.height !== sidecar.height) {
+          canvas.width = sidecar.width;
+          canvas.height = sidecar.height;
+          drawnFrame = undefined;
+        }
+
+        const frame = showOverlay ? frameAtOffset(sidecar.frames, video.currentTime * 1000) : null;
+        if (frame !== drawnFrame) {
+          drawnFrame = frame;
+          rendererRef.current.render(ctx, frame ? visibleTracks(frame) : [], canvas.width, canvas.height);
+        }
+      }
+      animationFrame = requestAnimationFrame(draw);
+    };
+    animationFrame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(animationFrame);
+  }, [sidecar, showOverlay, visibleTracks, showPredicted, taxonomy]);
+
+  const toggleCategory = (category: string) => {
+    setSelectedCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h2 className="text-xl font-bold text-white">Replay</h2>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <label className="px-3 py-1 rounded bg-gray-600 text-gray-200 cursor-pointer">
+            Open clip
+            <input type="file" accept="video/*" className="hidden" onChange={(e) => openVideo(e.target.files?.[0])} />
+          </label>
+          <label className="px-3 py-1 rounded bg-gray-600 text-gray-200 cursor-pointer">
+            Open sidecar
+            <input type="file" accept=".json,application/json" className="hidden" onChange={(e) => openSidecar(e.target.files?.[0])} />
+          </label>
+          <button onClick={onClose} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Close
+          </button>
+        </div>
+      </div>
+      {error && <div className="text-red-400 text-sm mb-2">{error}</div>}
+
+      <div className="relative">
+        {videoUrl ? (
+          <video ref={videoRef} src={videoUrl} controls playsInline muted className="w-full block" />
+        ) : (
+          <div className="text-gray-400 text-center py-8">Open a session clip to replay it.</div>
+        )}
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      </div>
+
+      <div className="mt-2 space-y-2 text-sm text-gray-300">
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={showOverlay} onChange={(e) => setShowOverlay(e.target.checked)} disabled={!sidecar} />
+            Draw overlay from sidecar{sidecar?.overlayBurnedIn ? ' (clip already has boxes)' : ''}
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={showPredicted} onChange={(e) => setShowPredicted(e.target.checked)} />
+            Predicted boxes
+          </label>
+          {sidecar && <span>{sidecar.frames.length} frames</span>}
+        </div>
+        <div>
+          <label className="block">Minimum score: {threshold.toFixed(2)}</label>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.05"
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="w-full"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1 text-xs">
+          {taxonomy.categories.map(category => (
+            <button
+              key={category.id}
+              onClick={() => toggleCategory(category.id)}
+              className={`px-2 py-0.5 rounded ${
+                selectedCategories.includes(category.id) ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-300'
+              }`}
+            >
+              {category.name}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
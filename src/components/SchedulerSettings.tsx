@@ -0,0 +1,57 @@
+"use client";
+
+import React from 'react';
+import type { SchedulerOptions } from '@/types/performance';
+
+interface SchedulerSettingsProps {
+  options: SchedulerOptions;
+  onChange: (options: SchedulerOptions) => void;
+}
+
+const targetRates = [5, 10, 15, 20, 30];
+
+export const SchedulerSettings: React.FC<SchedulerSettingsProps> = ({ options, onChange }) => {
+  const update = (changes: Partial<SchedulerOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-white">Scheduling</span>
+      <button
+        onClick={() => update({ adaptive: false })}
+        className={`px-3 py-1 rounded ${!options.adaptive ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-200'}`}
+        title="Analyse every frame the detector is free for"
+      >
+        Every frame
+      </button>
+      <button
+        onClick={() => update({ adaptive: true })}
+        className={`px-3 py-1 rounded ${options.adaptive ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-200'}`}
+        title="Skip frames when inference is slow; tracked boxes keep moving in between"
+      >
+        Adaptive
+      </button>
+      {options.adaptive && (
+        <label className="flex items-center gap-2 text-gray-300">
+          Target
+          <select
+            value={options.targetFps}
+            onChange={(e) => update({ targetFps: Number(e.target.value) })}
+            className="bg-gray-700 text-white px-2 py-1 rounded"
+          >
+            {targetRates.map(fps => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="flex items-center gap-2 text-gray-300 ml-2">
+        <input
+          type="checkbox"
+          checked={options.showHud}
+          onChange={(e) => update({ showHud: e.target.checked })}
+        />
+        Performance overlay
+      </label>
+    </div>
+  );
+};
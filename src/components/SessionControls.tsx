@@ -0,0 +1,68 @@
+"use client";
+
+import React from 'react';
+
+interface SessionControlsProps {
+  isRecording: boolean;
+  elapsedMs: number;
+  burnInOverlay: boolean;
+  onBurnInOverlayChange: (burnIn: boolean) => void;
+  onToggleRecording: () => void;
+  hasSession: boolean;
+  onDownload: () => void;
+  onReplay: () => void;
+  error: string | null;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const SessionControls: React.FC<SessionControlsProps> = ({
+  isRecording,
+  elapsedMs,
+  burnInOverlay,
+  onBurnInOverlayChange,
+  onToggleRecording,
+  hasSession,
+  onDownload,
+  onReplay,
+  error
+}) => {
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={onToggleRecording}
+          className={`px-3 py-1 rounded ${isRecording ? 'bg-red-600 text-white' : 'bg-gray-600 text-gray-200'}`}
+        >
+          {isRecording ? `■ Stop session ${formatElapsed(elapsedMs)}` : '● Record session'}
+        </button>
+        <label className="flex items-center gap-2 text-gray-300 text-sm">
+          <input
+            type="checkbox"
+            checked={burnInOverlay}
+            disabled={isRecording}
+            onChange={(e) => onBurnInOverlayChange(e.target.checked)}
+          />
+          Draw boxes into clip
+        </label>
+        <button
+          onClick={onDownload}
+          disabled={!hasSession}
+          className="px-3 py-1 rounded bg-gray-600 text-gray-200 text-sm disabled:opacity-50"
+        >
+          Download clip + sidecar
+        </button>
+        <button
+          onClick={onReplay}
+          className="px-3 py-1 rounded bg-gray-600 text-gray-200 text-sm"
+        >
+          Replay
+        </button>
+      </div>
+      {error && <div className="text-red-400 text-sm mt-1">{error}</div>}
+    </div>
+  );
+};
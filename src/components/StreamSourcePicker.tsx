@@ -0,0 +1,61 @@
+"use client";
+
+import React from 'react';
+import type { StreamSource } from '@/types/input';
+
+interface StreamSourcePickerProps {
+  streams: StreamSource[];
+  devices: MediaDeviceInfo[];
+  onAddCamera: (device: MediaDeviceInfo) => void;
+  onAddFiles: (files: File[]) => void;
+  onRefreshDevices: () => void;
+}
+
+export const StreamSourcePicker: React.FC<StreamSourcePickerProps> = ({
+  streams,
+  devices,
+  onAddCamera,
+  onAddFiles,
+  onRefreshDevices
+}) => {
+  const usedDevices = new Set(streams.map(stream => stream.input.kind === 'webcam' ? stream.input.deviceId : null));
+  const available = devices.filter(device => !usedDevices.has(device.deviceId));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-white">Streams</span>
+      <select
+        value=""
+        onChange={(e) => {
+          const device = available.find(d => d.deviceId === e.target.value);
+          if (device) onAddCamera(device);
+        }}
+        className="bg-gray-700 text-white px-2 py-1 rounded"
+      >
+        <option value="">{available.length > 0 ? '+ camera' : 'No more cameras'}</option>
+        {available.map(device => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `Camera ${devices.indexOf(device) + 1}`}
+          </option>
+        ))}
+      </select>
+      <button onClick={onRefreshDevices} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+        Refresh cameras
+      </button>
+      <label className="px-3 py-1 rounded bg-gray-600 text-gray-200 cursor-pointer">
+        + video files
+        <input
+          type="file"
+          accept="video/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            if (files.length > 0) onAddFiles(files);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { openWebcam, stopStream } from '@/utils/mediaSources';
+import type { StreamSource } from '@/types/input';
+
+export interface TileElements {
+  video: HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+}
+
+interface StreamTileProps {
+  stream: StreamSource;
+  // Called with the tile's video and overlay once mounted, and null on unmount
+  onElements: (id: string, elements: TileElements | null) => void;
+  onRemove: (id: string) => void;
+  trackedCount: number;
+  // Privacy mode shows only the redacted copy drawn on the overlay
+  hideVideo?: boolean;
+}
+
+export const StreamTile: React.FC<StreamTileProps> = ({
+  stream,
+  onElements,
+  onRemove,
+  trackedCount,
+  hideVideo = false
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    onElements(stream.id, { video, canvas });
+    return () => onElements(stream.id, null);
+  }, [stream.id, onElements]);
+
+  // Webcams stream until the tile is removed; files loop
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let isSubscribed = true;
+    let mediaStream: MediaStream | null = null;
+    let objectUrl: string | null = null;
+    const { input } = stream;
+
+    if (input.kind === 'webcam') {
+      openWebcam(input)
+        .then(opened => {
+          if (!isSubscribed) {
+            stopStream(opened);
+            return;
+          }
+          mediaStream = opened;
+          video.srcObject = opened;
+          setError(null);
+        })
+        .catch(err => {
+          console.error('Error accessing camera:', err);
+          if (isSubscribed) setError(err instanceof Error ? err.message : String(err));
+        });
+    } else {
+      objectUrl = URL.createObjectURL(input.file);
+      video.src = objectUrl;
+    }
+
+    return () => {
+      isSubscribed = false;
+      stopStream(mediaStream);
+      video.srcObject = null;
+      if (objectUrl) {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [stream]);
+
+  return (
+    <div className="bg-gray-800 p-2 rounded-lg">
+      <div className="flex justify-between items-center mb-2 text-sm">
+        <span className="text-white truncate" title={stream.label}>{stream.label}</span>
+        <span className="flex items-center gap-2">
+          <span className="text-gray-400">{trackedCount} tracked</span>
+          <button onClick={() => onRemove(stream.id)} className="text-red-400" title="Remove stream">
+            ×
+          </button>
+        </span>
+      </div>
+      <div className="relative">
+        <video
+          ref={videoRef}
+          autoPlay
+          loop
+          playsInline
+          muted
+          className="w-full h-auto block"
+          style={{ visibility: hideVideo ? 'hidden' : undefined }}
+        />
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        {error && <div className="absolute inset-0 flex items-center justify-center text-red-400 text-sm">{error}</div>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { parseLabelMap } from '@/utils/detectors';
+import { UNKNOWN_CATEGORY, addLabels, createCategory, removeCategory } from '@/utils/taxonomy';
+import type { Taxonomy, TaxonomyCategory, TaxonomyClass } from '@/types/taxonomy';
+
+interface TaxonomyManagerProps {
+  taxonomy: Taxonomy;
+  onChange: (taxonomy: Taxonomy) => void;
+  onExport: () => void;
+  onImport: (text: string) => void;
+  onReset: () => void;
+}
+
+const NEW_CATEGORY_COLORS = ['#00CED1', '#ADFF2F', '#FF1493', '#1E90FF', '#F0E68C', '#DA70D6'];
+
+export const TaxonomyManager: React.FC<TaxonomyManagerProps> = ({
+  taxonomy,
+  onChange,
+  onExport,
+  onImport,
+  onReset
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const labelsInputRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCategory = (id: string, changes: Partial<TaxonomyCategory>) => {
+    onChange({
+      ...taxonomy,
+      categories: taxonomy.categories.map(category => category.id === id ? { ...category, ...changes } : category)
+    });
+  };
+
+  const addCategory = () => {
+    const color = NEW_CATEGORY_COLORS[taxonomy.categories.length % NEW_CATEGORY_COLORS.length];
+    onChange({
+      ...taxonomy,
+      categories: [...taxonomy.categories, createCategory(`Category ${taxonomy.categories.length + 1}`, color)]
+    });
+  };
+
+  const updateClass = (className: string, changes: Partial<TaxonomyClass>) => {
+    onChange({
+      ...taxonomy,
+      classes: { ...taxonomy.classes, [className]: { ...taxonomy.classes[className], ...changes } }
+    });
+  };
+
+  const readFile = async (input: HTMLInputElement | null, file: File | undefined, handle: (text: string) => void) => {
+    if (!file) return;
+    try {
+      handle(await file.text());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    if (input) input.value = '';
+  };
+
+  const query = search.trim().toLowerCase();
+  const classNames = Object.keys(taxonomy.classes).filter(className =>
+    !query ||
+    className.toLowerCase().includes(query) ||
+    taxonomy.classes[className].description.toLowerCase().includes(query)
+  );
+  const hiddenCount = Object.values(taxonomy.classes).filter(entry => entry.hidden).length;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap gap-2">
+        <button onClick={addCategory} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+          Add category
+        </button>
+        <button onClick={() => labelsInputRef.current?.click()} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+          Add classes from label map
+        </button>
+        <button onClick={onExport} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+          Save JSON
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+          Load JSON
+        </button>
+        <button onClick={onReset} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+          Reset to COCO
+        </button>
+        <input
+          ref={labelsInputRef}
+          type="file"
+          accept=".txt,.json"
+          className="hidden"
+          onChange={(e) => readFile(labelsInputRef.current, e.target.files?.[0], text => {
+            onChange(addLabels(taxonomy, parseLabelMap(text)));
+          })}
+        />
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => readFile(importInputRef.current, e.target.files?.[0], onImport)}
+        />
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        {taxonomy.categories.map(category => (
+          <div key={category.id} className="flex items-center gap-1 bg-gray-700 rounded px-2 py-1">
+            <input
+              type="color"
+              value={category.color}
+              onChange={(e) => updateCategory(category.id, { color: e.target.value })}
+            />
+            <input
+              type="text"
+              value={category.name}
+              onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+              className="w-28 bg-gray-600 text-white px-2 py-0.5 rounded"
+            />
+            <button
+              onClick={() => onChange(removeCategory(taxonomy, category.id))}
+              className="text-red-400"
+              title="Delete category; its classes become unassigned"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-gray-300">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search classes"
+          className="w-48 bg-gray-600 text-white px-2 py-1 rounded"
+        />
+        <span className="text-gray-400">
+          {Object.keys(taxonomy.classes).length} classes{hiddenCount > 0 && ` · ${hiddenCount} hidden`}
+        </span>
+      </div>
+
+      <div className="max-h-80 overflow-auto space-y-1">
+        {classNames.map(className => {
+          const entry = taxonomy.classes[className];
+          return (
+            <div key={className} className={`flex flex-wrap items-center gap-2 ${entry.hidden ? 'opacity-50' : ''}`}>
+              <span className="w-32 text-white truncate" title={className}>{className}</span>
+              <select
+                value={entry.category}
+                onChange={(e) => updateClass(className, { category: e.target.value })}
+                className="bg-gray-700 text-white px-2 py-0.5 rounded"
+              >
+                <option value={UNKNOWN_CATEGORY}>Unassigned</option>
+                {taxonomy.categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={entry.description}
+                placeholder="Description"
+                onChange={(e) => updateClass(className, { description: e.target.value })}
+                className="flex-1 min-w-32 bg-gray-600 text-white px-2 py-0.5 rounded"
+              />
+              <label className="flex items-center gap-1 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={entry.hidden}
+                  onChange={(e) => updateClass(className, { hidden: e.target.checked })}
+                />
+                Hide
+              </label>
+            </div>
+          );
+        })}
+        {classNames.length === 0 && <div className="text-gray-400">No matching classes</div>}
+      </div>
+    </div>
+  );
+};
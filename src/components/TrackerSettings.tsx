@@ -0,0 +1,59 @@
+"use client";
+
+import React from 'react';
+import type { EntityTrackerOptions } from '@/types/entities';
+
+interface TrackerSettingsProps {
+  options: EntityTrackerOptions;
+  onChange: (options: EntityTrackerOptions) => void;
+  onReset: () => void;
+}
+
+type Field = {
+  key: keyof EntityTrackerOptions;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+const fields: Field[] = [
+  { key: 'iouThreshold', label: 'IoU match threshold', min: 0.05, max: 0.9, step: 0.05 },
+  { key: 'consecutiveRequirement', label: 'Frames to confirm', min: 1, max: 15, step: 1 },
+  { key: 'maxInactiveFrames', label: 'Max inactive frames', min: 1, max: 300, step: 1 },
+  { key: 'maxPredictionFrames', label: 'Max predicted frames', min: 0, max: 60, step: 1 },
+  { key: 'maxCenterDistance', label: 'Max centre distance', min: 0, max: 2, step: 0.05 },
+  { key: 'reidThreshold', label: 'Re-ID similarity', min: 0.5, max: 0.99, step: 0.01 },
+  { key: 'reidMaxFrames', label: 'Re-ID memory (frames)', min: 0, max: 3000, step: 30 }
+];
+
+export const TrackerSettings: React.FC<TrackerSettingsProps> = ({ options, onChange, onReset }) => {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+        {fields.map(field => (
+          <div key={field.key}>
+            <label className="block text-gray-300 text-sm">
+              {field.label}: {options[field.key]}
+            </label>
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={options[field.key]}
+              onChange={(e) => onChange({ ...options, [field.key]: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={onReset}
+        className="px-3 py-1 bg-gray-600 text-gray-200 rounded hover:bg-gray-500 transition-colors text-sm"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
@@ -1,63 +1,98 @@
 "use client";
 
 import React, { useRef, useEffect, useState } from 'react';
-import type { JSX } from 'react';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
-import '@tensorflow/tfjs';
 import type { DetectedObject } from '@tensorflow-models/coco-ssd';
-import cocoClasses from '@/utils/cocoClasses.json';
+import { createDetector, DEFAULT_DETECTOR_CONFIG } from '@/utils/detectors';
+import { OverlayRenderer } from '@/utils/overlayRenderer';
+import { DEFAULT_TAXONOMY, categoryOf } from '@/utils/taxonomy';
+import { DEFAULT_DETECTION_FILTER, passesDetectionFilter } from '@/utils/detectionFilter';
+import { DEFAULT_PRIVACY_SETTINGS, redactionsFor } from '@/utils/redaction';
+import { EntityTracker } from '@/utils/entityTracker';
+import type { OverlayItem, OverlayStyle } from '@/utils/overlayRenderer';
+import { DEFAULT_WEBCAM_SOURCE, openWebcam } from '@/utils/mediaSources';
+import type { Detector, DetectorConfig } from '@/types/detector';
+import type { WebcamSource } from '@/types/input';
+import type { Taxonomy } from '@/types/taxonomy';
+import type { DetectionFilter } from '@/types/filters';
+import type { PrivacySettings } from '@/types/privacy';
 
 interface VideoDetectionProps {
   onDetectionsUpdate?: (detections: DetectedObject[]) => void;
   threshold?: number;
   selectedCategories?: string[];
+  detectorConfig?: DetectorConfig;
+  webcam?: WebcamSource;
+  // Front cameras are mirrored unless the style says otherwise
+  overlayStyle?: Partial<OverlayStyle>;
+  taxonomy?: Taxonomy;
+  // Per-class thresholds, class lists and box size limits
+  detectionFilter?: DetectionFilter;
+  // Classes blurred, pixelated or masked in the drawn frame
+  privacy?: PrivacySettings;
 }
 
-// Category-based colors for better visualization
-const categoryColors: { [key: string]: string } = {
-  people: '#FF0000',
-  vehicle: '#00FF00',
-  animal: '#0000FF',
-  sports: '#FFA500',
-  food: '#800080',
-  kitchen: '#008080',
-  furniture: '#FFD700',
-  electronics: '#FF69B4',
-  appliance: '#4B0082',
-  indoor: '#20B2AA',
-  outdoor: '#FF6347',
-  accessory: '#98FB98'
-};
-
 export const VideoDetection: React.FC<VideoDetectionProps> = ({
   onDetectionsUpdate,
   threshold = 0.5,
-  selectedCategories
+  selectedCategories,
+  detectorConfig = DEFAULT_DETECTOR_CONFIG,
+  webcam = DEFAULT_WEBCAM_SOURCE,
+  overlayStyle,
+  taxonomy = DEFAULT_TAXONOMY,
+  detectionFilter = DEFAULT_DETECTION_FILTER,
+  privacy = DEFAULT_PRIVACY_SETTINGS
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [model, setModel] = useState<cocoSsd.ObjectDetection | null>(null);
+  const [model, setModel] = useState<Detector | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [stats, setStats] = useState<{ [key: string]: number }>({});
+  const rendererRef = useRef(new OverlayRenderer());
+  // Tracks give the overlay its ids and trails, as on the main and multi pages
+  const trackerRef = useRef(new EntityTracker());
 
   useEffect(() => {
+    rendererRef.current.configure({ mirror: webcam.facingMode === 'user', ...overlayStyle });
+    rendererRef.current.setTaxonomy(taxonomy);
+  }, [webcam, overlayStyle, taxonomy]);
+
+  useEffect(() => {
+    let isSubscribed = true;
+    let loadedModel: Detector | null = null;
+
     const loadModel = async () => {
-      const loadedModel = await cocoSsd.load();
-      setModel(loadedModel);
+      try {
+        loadedModel = await createDetector(detectorConfig);
+        if (isSubscribed) {
+          setModel(loadedModel);
+        } else {
+          loadedModel.dispose();
+        }
+      } catch (error) {
+        console.error('Error loading model:', error);
+      }
     };
     loadModel();
-  }, []);
+
+    return () => {
+      isSubscribed = false;
+      setModel(null);
+      loadedModel?.dispose();
+    };
+  }, [detectorConfig]);
 
   useEffect(() => {
+    const video = videoRef.current;
+    // Tracks and trails of the previous camera don't carry over
+    trackerRef.current.reset();
+    rendererRef.current.reset();
+
     const setupCamera = async () => {
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: 'user' },
-          audio: false,
-        });
+        const stream = await openWebcam(webcam);
 
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
+        if (video) {
+          video.srcObject = stream;
           setIsStreaming(true);
         }
       } catch (error) {
@@ -68,22 +103,12 @@ export const VideoDetection: React.FC<VideoDetectionProps> = ({
     setupCamera();
 
     return () => {
-      if (videoRef.current?.srcObject) {
-        const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
+      if (video?.srcObject) {
+        const tracks = (video.srcObject as MediaStream).getTracks();
         tracks.forEach(track => track.stop());
       }
     };
-  }, []);
-
-  const getObjectCategory = (className: string): string => {
-    return (cocoClasses as any)[className]?.category || 'unknown';
-  };
-
-  const shouldShowDetection = (detection: DetectedObject): boolean => {
-    if (!selectedCategories || selectedCategories.length === 0) return true;
-    const category = getObjectCategory(detection.class);
-    return selectedCategories.includes(category);
-  };
+  }, [webcam]);
 
   useEffect(() => {
     let animationFrameId: number;
@@ -100,14 +125,31 @@ export const VideoDetection: React.FC<VideoDetectionProps> = ({
       canvas.height = video.videoHeight;
 
       const detections = await model.detect(video);
-      
+      const passing = detections.filter(detection =>
+        passesDetectionFilter(detection, detectionFilter, threshold, canvas.width, canvas.height)
+      );
+      const visible = passing.filter(detection =>
+        !selectedCategories || selectedCategories.length === 0 ||
+          selectedCategories.includes(categoryOf(taxonomy, detection.class))
+      );
+
+      // Scores were already checked against the per-class thresholds
+      const entities = await trackerRef.current.update(visible, 0);
+      const items: OverlayItem[] = entities.map(entity => ({
+        id: entity.id,
+        class: entity.class,
+        bbox: entity.bbox,
+        score: entity.score,
+        predicted: entity.isPredicted,
+        mask: entity.mask,
+        keypoints: entity.keypoints
+      }));
+
       // Update detection statistics
       const newStats: { [key: string]: number } = {};
-      detections.forEach((detection) => {
-        if ((detection.score || 0) > threshold) {
-          const category = getObjectCategory(detection.class);
-          newStats[category] = (newStats[category] || 0) + 1;
-        }
+      passing.forEach((detection) => {
+        const category = categoryOf(taxonomy, detection.class);
+        newStats[category] = (newStats[category] || 0) + 1;
       });
       setStats(newStats);
 
@@ -115,37 +157,15 @@ export const VideoDetection: React.FC<VideoDetectionProps> = ({
         onDetectionsUpdate(detections);
       }
 
-      // Clear previous drawings
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      
-      // Draw video frame
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-      // Draw detections
-      detections.forEach((detection) => {
-        if ((detection.score || 0) > threshold && shouldShowDetection(detection)) {
-          const [x, y, width, height] = detection.bbox;
-          const category = getObjectCategory(detection.class);
-          const color = categoryColors[category] || '#FFFFFF';
-          
-          // Draw bounding box
-          ctx.strokeStyle = color;
-          ctx.lineWidth = 2;
-          ctx.strokeRect(x, y, width, height);
-
-          // Draw label background
-          ctx.fillStyle = color;
-          const description = (cocoClasses as any)[detection.class]?.description || detection.class;
-          const label = `${description} (${Math.round((detection.score || 0) * 100)}%)`;
-          const labelWidth = ctx.measureText(label).width;
-          ctx.fillRect(x, y - 25, labelWidth + 10, 25);
-
-          // Draw label text
-          ctx.fillStyle = '#000000';
-          ctx.font = '16px Arial';
-          ctx.fillText(label, x + 5, y - 5);
-        }
-      });
+      // Redaction uses every detection of a redacted class, not just the
+      // visible ones, plus tracks coasting through a missed detection
+      const redactions = redactionsFor(
+        [...detections.filter(detection => detection.score >= privacy.minScore), ...entities],
+        privacy
+      );
+
+      // Draw the video frame with the tracks on top
+      rendererRef.current.render(ctx, items, canvas.width, canvas.height, { background: video, redactions });
 
       animationFrameId = requestAnimationFrame(detectFrame);
     };
@@ -157,7 +177,7 @@ export const VideoDetection: React.FC<VideoDetectionProps> = ({
         cancelAnimationFrame(animationFrameId);
       }
     };
-  }, [model, isStreaming, onDetectionsUpdate, threshold, selectedCategories]);
+  }, [model, isStreaming, onDetectionsUpdate, threshold, selectedCategories, taxonomy, detectionFilter, privacy]);
 
   return (
     <div className="relative">
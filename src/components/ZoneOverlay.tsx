@@ -0,0 +1,167 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { Point, Zone, ZoneKind, ZoneStats } from '@/types/zones';
+
+interface ZoneOverlayProps {
+  zones: Zone[];
+  stats: { [zoneId: string]: ZoneStats };
+  drawingKind: ZoneKind | null;
+  // The video is shown flipped; zones stay in unflipped frame coordinates
+  mirror?: boolean;
+  onComplete: (points: Point[]) => void;
+  onCancel: () => void;
+  style?: React.CSSProperties;
+}
+
+const minimumPoints: { [kind in ZoneKind]: number } = { line: 2, polygon: 3 };
+
+const zoneLabel = (zone: Zone, stats: ZoneStats | undefined) => {
+  if (!stats) return zone.name;
+  if (stats.kind === 'line') return `${zone.name}  in ${stats.in} / out ${stats.out}`;
+  return `${zone.name}  ${stats.occupancy} inside, avg ${(stats.averageDwellMs / 1000).toFixed(1)}s`;
+};
+
+// Draws zones over the detection canvas in normalised frame coordinates,
+// and captures clicks while a new zone is being drawn
+export const ZoneOverlay: React.FC<ZoneOverlayProps> = ({
+  zones,
+  stats,
+  drawingKind,
+  mirror = false,
+  onComplete,
+  onCancel,
+  style
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [draft, setDraft] = useState<Point[]>([]);
+  const [cursor, setCursor] = useState<Point | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setDraft([]);
+    setCursor(null);
+  }, [drawingKind]);
+
+  useEffect(() => {
+    if (!drawingKind) return;
+
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      } else if (e.key === 'Enter' && draft.length >= minimumPoints[drawingKind]) {
+        onComplete(draft);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [drawingKind, draft, onCancel, onComplete]);
+
+  const toNormalized = (e: React.MouseEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    const x = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    return [
+      mirror ? 1 - x : x,
+      Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1)
+    ];
+  };
+
+  const toScreenX = (x: number) => (mirror ? 1 - x : x) * size.width;
+
+  const toPixels = (points: Point[]) =>
+    points.map(([x, y]) => `${toScreenX(x)},${y * size.height}`).join(' ');
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!drawingKind) return;
+    setDraft(prev => [...prev, toNormalized(e)]);
+  };
+
+  const handleDoubleClick = () => {
+    // The double-click's second click already added a duplicate point
+    const points = draft.slice(0, -1);
+    if (drawingKind && points.length >= minimumPoints[drawingKind]) {
+      onComplete(points);
+    }
+  };
+
+  const draftPoints = cursor ? [...draft, cursor] : draft;
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ ...style, pointerEvents: drawingKind ? 'auto' : 'none', cursor: drawingKind ? 'crosshair' : undefined }}
+      onClick={handleClick}
+      onDoubleClick={handleDoubleClick}
+      onMouseMove={(e) => drawingKind && setCursor(toNormalized(e))}
+      onMouseLeave={() => setCursor(null)}
+    >
+      <svg width={size.width} height={size.height} className="absolute inset-0">
+        {zones.map(zone => {
+          const [labelX, labelY] = zone.kind === 'polygon'
+            ? [
+                zone.points.reduce((sum, p) => sum + p[0], 0) / zone.points.length,
+                zone.points.reduce((sum, p) => sum + p[1], 0) / zone.points.length
+              ]
+            : zone.points[0];
+          return (
+            <g key={zone.id}>
+              {zone.kind === 'polygon' ? (
+                <polygon
+                  points={toPixels(zone.points)}
+                  fill={`${zone.color}33`}
+                  stroke={zone.color}
+                  strokeWidth={2}
+                />
+              ) : (
+                <polyline
+                  points={toPixels(zone.points)}
+                  fill="none"
+                  stroke={zone.color}
+                  strokeWidth={3}
+                  markerEnd="url(#zone-arrow)"
+                />
+              )}
+              <text
+                x={toScreenX(labelX)}
+                y={labelY * size.height}
+                fill="#ffffff"
+                stroke="#000000"
+                strokeWidth={3}
+                paintOrder="stroke"
+                fontSize={14}
+              >
+                {zoneLabel(zone, stats[zone.id])}
+              </text>
+            </g>
+          );
+        })}
+
+        {drawingKind && draftPoints.length > 0 && (
+          <polyline
+            points={toPixels(drawingKind === 'polygon' && draftPoints.length > 2 ? [...draftPoints, draftPoints[0]] : draftPoints)}
+            fill="none"
+            stroke="#ffffff"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+          />
+        )}
+
+        <defs>
+          <marker id="zone-arrow" viewBox="0 0 10 10" refX="5" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#ffffff" />
+          </marker>
+        </defs>
+      </svg>
+    </div>
+  );
+};
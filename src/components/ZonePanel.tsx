@@ -0,0 +1,211 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import type { Zone, ZoneKind, ZoneStats } from '@/types/zones';
+import type { Taxonomy } from '@/types/taxonomy';
+
+interface ZonePanelProps {
+  zones: Zone[];
+  stats: { [zoneId: string]: ZoneStats };
+  drawingKind: ZoneKind | null;
+  onDraw: (kind: ZoneKind | null) => void;
+  onChange: (zones: Zone[]) => void;
+  onExport: () => void;
+  onImport: (text: string) => void;
+  onResetCounts: () => void;
+  // Classes and categories the filters offer
+  taxonomy: Taxonomy;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const ZoneStatsSummary: React.FC<{ stats?: ZoneStats }> = ({ stats }) => {
+  if (!stats) return null;
+
+  if (stats.kind === 'line') {
+    return (
+      <div className="text-gray-300 text-sm">
+        <div>In: {stats.in} · Out: {stats.out}</div>
+        {Object.entries(stats.byClass).map(([className, counts]) => (
+          <div key={className} className="text-gray-400">
+            {className}: {counts.in} in / {counts.out} out
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-gray-300 text-sm">
+      <div>
+        Inside: {stats.occupancy} (peak {stats.peakOccupancy}) · Entries: {stats.entries}
+      </div>
+      <div>Average dwell: {formatSeconds(stats.averageDwellMs)}</div>
+      {Object.entries(stats.byClass).map(([className, count]) => (
+        <div key={className} className="text-gray-400">
+          {className}: {count} entries
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ZonePanel: React.FC<ZonePanelProps> = ({
+  zones,
+  stats,
+  drawingKind,
+  onDraw,
+  onChange,
+  onExport,
+  onImport,
+  onResetCounts,
+  taxonomy
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateZone = (id: string, changes: Partial<Zone>) => {
+    onChange(zones.map(zone => zone.id === id ? { ...zone, ...changes } as Zone : zone));
+  };
+
+  const toggleFilter = (zone: Zone, key: 'classes' | 'categories', value: string) => {
+    const values = zone.filter[key];
+    updateZone(zone.id, {
+      filter: {
+        ...zone.filter,
+        [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+      }
+    });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(await file.text());
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h2 className="text-xl font-bold text-white">Zones</h2>
+        <div className="flex flex-wrap gap-2 text-sm">
+          {(['line', 'polygon'] as ZoneKind[]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => onDraw(drawingKind === kind ? null : kind)}
+              className={`px-3 py-1 rounded ${
+                drawingKind === kind ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-200'
+              }`}
+            >
+              {drawingKind === kind ? 'Cancel' : kind === 'line' ? 'Draw line' : 'Draw polygon'}
+            </button>
+          ))}
+          <button onClick={onExport} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Save JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Load JSON
+          </button>
+          <button onClick={onResetCounts} className="px-3 py-1 rounded bg-gray-600 text-gray-200">
+            Reset counts
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      {drawingKind && (
+        <div className="text-gray-400 text-sm mb-2">
+          Click on the video to add points. Double-click or press Enter to finish, Escape to cancel.
+          {drawingKind === 'line' && ' Crossings from the left of the drawing direction to the right count as "in".'}
+        </div>
+      )}
+      {importError && <div className="text-red-400 text-sm mb-2">{importError}</div>}
+
+      <div className="space-y-3">
+        {zones.map(zone => (
+          <div key={zone.id} className="bg-gray-700 p-2 rounded" style={{ borderLeft: `4px solid ${zone.color}` }}>
+            <div className="flex items-center gap-2 mb-1">
+              <input
+                type="text"
+                value={zone.name}
+                onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                className="flex-1 bg-gray-600 text-white px-2 py-1 rounded"
+              />
+              <input
+                type="color"
+                value={zone.color}
+                onChange={(e) => updateZone(zone.id, { color: e.target.value })}
+              />
+              <span className="text-gray-400 text-sm">{zone.kind}</span>
+              <button
+                onClick={() => onChange(zones.filter(z => z.id !== zone.id))}
+                className="text-red-400 text-sm"
+              >
+                Delete
+              </button>
+            </div>
+
+            <ZoneStatsSummary stats={stats[zone.id]} />
+
+            <div className="flex flex-wrap gap-1 mt-2 text-xs">
+              {taxonomy.categories.map(category => (
+                <button
+                  key={category.id}
+                  onClick={() => toggleFilter(zone, 'categories', category.id)}
+                  className={`px-2 py-0.5 rounded ${
+                    zone.filter.categories.includes(category.id) ? 'bg-blue-500 text-white' : 'bg-gray-600 text-gray-300'
+                  }`}
+                >
+                  {category.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+              {zone.filter.classes.map(className => (
+                <button
+                  key={className}
+                  onClick={() => toggleFilter(zone, 'classes', className)}
+                  className="px-2 py-0.5 rounded bg-blue-500 text-white"
+                  title="Remove"
+                >
+                  {className} ×
+                </button>
+              ))}
+              <select
+                value=""
+                onChange={(e) => e.target.value && toggleFilter(zone, 'classes', e.target.value)}
+                className="bg-gray-600 text-gray-200 rounded px-1"
+              >
+                <option value="">+ class</option>
+                {Object.keys(taxonomy.classes)
+                  .filter(className => !zone.filter.classes.includes(className))
+                  .map(className => (
+                    <option key={className} value={className}>{className}</option>
+                  ))}
+              </select>
+              {zone.filter.classes.length === 0 && zone.filter.categories.length === 0 && (
+                <span className="text-gray-400">Counting all classes</span>
+              )}
+            </div>
+          </div>
+        ))}
+        {zones.length === 0 && (
+          <div className="text-gray-400 text-center text-sm">
+            No zones. Draw a line to count crossings or a polygon to measure occupancy.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import type { ZoneFilter } from './zones';
+import type { PoseLabel } from './pose';
+
+export type Comparison = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+
+// Which objects a condition looks at, by class name or taxonomy category
+// id. Empty lists match every object.
+export type AlertTarget = ZoneFilter;
+
+// Number of matching objects currently seen, optionally inside a polygon zone,
+// e.g. "more than 5 cars" or, with eq 0, "no person present"
+export interface CountCondition {
+  type: 'count';
+  target: AlertTarget;
+  comparison: Comparison;
+  value: number;
+  zoneId?: string;
+}
+
+// A matching object has stayed in the frame, or inside a polygon zone, for
+// longer than the given time
+export interface DwellCondition {
+  type: 'dwell';
+  target: AlertTarget;
+  seconds: number;
+  zoneId?: string;
+}
+
+// A matching object is tracked for the first time in this frame
+export interface AppearsCondition {
+  type: 'appears';
+  target: AlertTarget;
+  zoneId?: string;
+}
+
+// A matching object has held a pose, recognised from pose model keypoints,
+// for at least the given time, e.g. "person fallen for 3s"
+export interface PoseCondition {
+  type: 'pose';
+  target: AlertTarget;
+  pose: PoseLabel;
+  seconds: number;
+  zoneId?: string;
+}
+
+export type AlertCondition = CountCondition | DwellCondition | AppearsCondition | PoseCondition;
+
+export type AlertConditionType = AlertCondition['type'];
+
+export interface AlertActions {
+  toast: boolean;
+  sound: boolean;
+  notification: boolean;
+  snapshot: boolean;
+}
+
+// Fires when all of its conditions become true together. It re-arms once
+// they stop holding, and fires at most once per cooldown.
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertCondition[];
+  actions: AlertActions;
+  cooldownSeconds: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  timestamp: number;
+  message: string;
+  // Objects that satisfied the rule's conditions
+  entityIds: number[];
+  // JPEG data URL of the frame with its overlay, when the rule asks for one
+  snapshot?: string | null;
+}
+
+export interface AlertRuleFile {
+  version: 1;
+  rules: AlertRule[];
+}
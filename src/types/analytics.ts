@@ -0,0 +1,47 @@
+// Session-long aggregates of tracker output, as opposed to the per-frame
+// state shown by the overlay and the detection log
+
+// Tracked objects per class during one slice of the session
+export interface AnalyticsBucket {
+  // Ms since the session's first frame
+  start: number;
+  // Most objects of each class visible at once in this slice
+  counts: { [className: string]: number };
+}
+
+// Accumulated centroid density over a grid normalised to the frame
+export interface HeatmapGrid {
+  columns: number;
+  rows: number;
+  // Row-major, one value per cell
+  values: number[];
+}
+
+export interface BusyRegion {
+  // e.g. "top left", "centre"
+  name: string;
+  // Share of all observed positions, 0..1
+  share: number;
+}
+
+export interface DwellStats {
+  // Entities whose dwell counts, including ones still being tracked
+  entities: number;
+  averageDwellMs: number;
+}
+
+export interface AnalyticsSnapshot {
+  // Timestamp of the first analysed frame, or null before any
+  startedAt: number | null;
+  durationMs: number;
+  bucketMs: number;
+  buckets: AnalyticsBucket[];
+  // Classes seen this session, most frequent first
+  classes: string[];
+  dwell: DwellStats;
+  dwellByClass: { [className: string]: DwellStats };
+  peakOccupancy: number;
+  peakOccupancyAt: number | null;
+  heatmap: HeatmapGrid;
+  busiestRegions: BusyRegion[];
+}
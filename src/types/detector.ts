@@ -0,0 +1,115 @@
+import type { DetectedObject, ObjectDetectionBaseModel } from '@tensorflow-models/coco-ssd';
+import type { Keypoint } from './pose';
+
+export type DetectorInput = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageData | ImageBitmap;
+
+export type DetectorKind = 'coco-ssd' | 'yolo-onnx' | 'owl-vit';
+
+export type YoloVariant = 'yolov8' | 'yolo-nas';
+
+// detect: boxes only. segment: YOLOv8-seg models, adding instance masks.
+// pose: YOLOv8-pose models, adding person keypoints.
+export type YoloTask = 'detect' | 'segment' | 'pose';
+
+// Object silhouette on a grid stretched over the detection's bbox, row by
+// row, 1 where the object is
+export interface InstanceMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// A box, with the mask or keypoints of segmentation and pose models
+export interface Detection extends DetectedObject {
+  mask?: InstanceMask;
+  keypoints?: Keypoint[];
+}
+
+export interface DetectOptions {
+  maxDetections?: number;
+  minScore?: number;
+}
+
+// Where the last frame was analysed
+export type InferenceBackend = 'local' | 'remote';
+
+export type TfjsBackend = 'webgl' | 'wasm' | 'cpu';
+
+// What a detector runs on, for the performance overlay
+export interface DetectorRuntime {
+  backend: string;
+  // TF.js tensor memory, for detectors built on TF.js
+  numTensors?: number;
+  numBytes?: number;
+  // Why auto mode is running inference on one side only, if it is
+  fallback?: string;
+}
+
+export interface Detector {
+  readonly kind: DetectorKind;
+  readonly labels: string[];
+  // Set by detectors that can run inference on the server
+  readonly backend?: InferenceBackend;
+  runtime?(): DetectorRuntime;
+  detect(input: DetectorInput, options?: DetectOptions): Promise<Detection[]>;
+  dispose(): void;
+}
+
+export interface CocoSsdDetectorConfig {
+  kind: 'coco-ssd';
+  base?: ObjectDetectionBaseModel;
+  modelUrl?: string;
+  // Defaults to the best backend TF.js finds, normally webgl
+  backend?: TfjsBackend;
+}
+
+export interface YoloOnnxDetectorConfig {
+  kind: 'yolo-onnx';
+  modelUrl: string;
+  variant: YoloVariant;
+  // Defaults to detect; segment and pose need YOLOv8 exports of those models
+  task?: YoloTask;
+  // Class names in model output order; defaults to the 80 COCO classes
+  labels?: string[];
+  inputSize?: number;
+  iouThreshold?: number;
+  wasmPaths?: string;
+}
+
+// Open-vocabulary detection: the classes are free-text prompts such as
+// "red backpack" or "hard hat"
+export interface OwlVitDetectorConfig {
+  kind: 'owl-vit';
+  prompts: string[];
+  // Hugging Face model id; defaults to Xenova/owlvit-base-patch32
+  model?: string;
+  iouThreshold?: number;
+}
+
+export type DetectorConfig = CocoSsdDetectorConfig | YoloOnnxDetectorConfig | OwlVitDetectorConfig;
+
+// local: run the detector in the browser. remote: send downscaled JPEG
+// frames to /api/detect. auto: start locally and switch to whichever is
+// faster once local inference is too slow, falling back to local when the
+// server fails.
+export type InferenceMode = 'local' | 'remote' | 'auto';
+
+export interface InferenceOptions {
+  mode: InferenceMode;
+  endpoint: string;
+  // Frames are scaled so their longer side is at most this before upload
+  maxUploadSize: number;
+  jpegQuality: number;
+  // In auto mode, the server is tried once local inference is slower than this
+  localBudgetMs: number;
+  // Sent as a bearer token when the server sets DETECT_TOKEN
+  token?: string;
+}
+
+export interface RemoteDetectResponse {
+  detections: DetectedObject[];
+  // Size of the uploaded image the boxes refer to
+  width: number;
+  height: number;
+  inferenceMs: number;
+}
@@ -1,13 +1,97 @@
-import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { Detection, InstanceMask } from './detector';
+import type { Keypoint } from './pose';
 
-export interface TrackedEntity extends DetectedObject {
+// Masks and keypoints are those of the last matched detection; keypoints
+// move with the box while it is predicted
+export interface TrackedEntity extends Detection {
   id: number;
   lastSeenFrame: number;
+  // Centroid velocity from the track's Kalman filter, in pixels per frame
+  velocity: [number, number];
+  // True while the track is unmatched and bbox is the motion prediction
+  isPredicted: boolean;
+  // Wall-clock times in ms
+  firstSeen: number;
+  lastSeen: number;
+  // L2-normalised appearance descriptor, averaged over the track's lifetime
+  embedding?: Float32Array;
+  embeddingFrame?: number;
 }
 
 export interface CandidateEntity {
   class: string;
   bbox: [number, number, number, number];
   score: number;
+  mask?: InstanceMask;
+  keypoints?: Keypoint[];
   consecutiveFrames: number;
+  firstSeen: number;
+}
+
+// A track dropped after maxInactiveFrames, kept for appearance re-identification
+export interface LostEntity {
+  entity: TrackedEntity;
+  lostAtFrame: number;
+}
+
+export interface EntityTrackerOptions {
+  // Minimum overlap for a detection to match a track or candidate
+  iouThreshold: number;
+  // Frames a candidate must be seen in a row before it gets an id
+  consecutiveRequirement: number;
+  // Frames a track may go unmatched before it is dropped
+  maxInactiveFrames: number;
+  // Frames an unmatched track keeps moving along its predicted path
+  maxPredictionFrames: number;
+  // Max centre offset, relative to the predicted box diagonal, for matching
+  // pairs that don't overlap at all
+  maxCenterDistance: number;
+  // Cosine similarity needed to re-identify a lost track by appearance
+  reidThreshold: number;
+  // Frames a dropped track stays available for re-identification
+  reidMaxFrames: number;
+}
+
+export type TrackEventType = 'enter' | 'confirm' | 'lost' | 'reacquire' | 'exit';
+
+export interface TrackEventPayload<T = TrackedEntity> {
+  entity: T;
+  timestamp: number;
+  frame: number;
+  // Time since the object was first seen, in ms
+  dwellMs: number;
+}
+
+// enter: a new candidate appears. confirm: the candidate is promoted to a
+// track with an id. lost: a track goes unmatched. reacquire: a lost track
+// is matched or re-identified again. exit: a track is dropped; one kept for
+// re-identification exits once that window has passed.
+export interface TrackerEventMap {
+  enter: TrackEventPayload<CandidateEntity>;
+  confirm: TrackEventPayload;
+  lost: TrackEventPayload;
+  reacquire: TrackEventPayload;
+  exit: TrackEventPayload;
+}
+
+// Serialisable form, for posting across the worker boundary
+export type TrackEvent = {
+  [K in TrackEventType]: { type: K } & TrackerEventMap[K];
+}[TrackEventType];
+
+export type EntityStatus = 'active' | 'lost' | 'exited';
+
+// One row of the detection log: a single tracked entity over its lifetime
+export interface EntityLogEntry {
+  id: number;
+  class: string;
+  status: EntityStatus;
+  firstSeen: number;
+  lastSeen: number;
+  dwellMs: number;
+  peakConfidence: number;
+  thumbnail: string | null;
+  // Stream the entity was seen in, on the multi-camera page. Ids are only
+  // unique within a stream.
+  source?: string;
 }
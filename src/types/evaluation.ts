@@ -0,0 +1,61 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { BBox } from '../utils/bbox';
+import type { EntityTrackerOptions } from './entities';
+
+// One box of a ground-truth or tracker trajectory in a single frame
+export interface TrackBox {
+  id: number;
+  bbox: BBox;
+  class?: string;
+}
+
+export interface EvaluationFrame {
+  // Detector output fed to the tracker
+  detections: DetectedObject[];
+  groundTruth: TrackBox[];
+}
+
+export interface EvaluationSequence {
+  name: string;
+  fps: number;
+  frames: EvaluationFrame[];
+}
+
+export interface EvaluationOptions {
+  tracker?: Partial<EntityTrackerOptions>;
+  // Detection score threshold passed to EntityTracker.update
+  threshold?: number;
+  // IoU a tracker box needs with a ground-truth box to count as a match
+  iouThreshold?: number;
+  // Score coasting predictions as tracker output
+  includePredicted?: boolean;
+}
+
+export interface TrackingMetrics {
+  // CLEAR MOT
+  mota: number;
+  motp: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  idSwitches: number;
+  fragmentations: number;
+  // Identity metrics
+  idf1: number;
+  idPrecision: number;
+  idRecall: number;
+  // HOTA, averaged over IoU thresholds 0.05..0.95
+  hota: number;
+  detA: number;
+  assA: number;
+  groundTruthBoxes: number;
+  trackerBoxes: number;
+  groundTruthIds: number;
+  trackerIds: number;
+}
+
+export interface EvaluationResult {
+  name: string;
+  frames: number;
+  metrics: TrackingMetrics;
+}
@@ -0,0 +1,69 @@
+import type { BBox } from '../utils/bbox';
+import type { TrackEventType } from './entities';
+import type { RecordedFrame } from './recording';
+
+// Events sent to the /api/events route for backends to consume
+
+// A tracked entity without its appearance descriptor
+export interface EventEntity {
+  id: number;
+  class: string;
+  bbox: BBox;
+  score: number;
+  firstSeen: number;
+  lastSeen: number;
+  dwellMs: number;
+}
+
+export interface TrackSinkEvent {
+  type: `track.${Exclude<TrackEventType, 'enter'>}`;
+  entity: EventEntity;
+}
+
+export interface AlertSinkEvent {
+  type: 'alert';
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  entityIds: number[];
+}
+
+export interface FrameSinkEvent {
+  type: 'frame';
+  frame: RecordedFrame;
+}
+
+export type SinkEventBody = TrackSinkEvent | AlertSinkEvent | FrameSinkEvent;
+
+export type SinkEventType = SinkEventBody['type'];
+
+export type SinkEvent = SinkEventBody & {
+  // Unique per event, so consumers can drop duplicates from retried batches
+  id: string;
+  timestamp: number;
+  // Identifies the sending browser tab
+  source: string;
+};
+
+export interface EventBatch {
+  events: SinkEvent[];
+}
+
+export interface EventSinkSettings {
+  enabled: boolean;
+  // Also send every analysed frame's detections and tracks; high volume
+  includeFrames: boolean;
+  // Sent as a bearer token when the server sets EVENT_SINK_TOKEN
+  token: string;
+}
+
+export interface EventSinkStatus {
+  // Waiting in memory for the next batch
+  buffered: number;
+  // Batches waiting in IndexedDB for the server to be reachable
+  queuedBatches: number;
+  sent: number;
+  dropped: number;
+  lastError: string | null;
+  online: boolean;
+}
@@ -0,0 +1,13 @@
+// Class- and size-level filtering of raw detections, applied before tracking
+// so the overlay, log, zones, analytics and alerts all see the same objects
+export interface DetectionFilter {
+  // Score thresholds that replace the global one for these classes
+  classThresholds: { [className: string]: number };
+  // When non-empty, only these classes are kept
+  allowClasses: string[];
+  // Always dropped, even when allowed
+  denyClasses: string[];
+  // Box area limits as a fraction of the frame area (0..1)
+  minBoxArea: number;
+  maxBoxArea: number;
+}
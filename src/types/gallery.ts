@@ -0,0 +1,33 @@
+import type { BBox } from '../utils/bbox';
+
+// The highest-confidence crop of one tracked entity, kept in IndexedDB
+export interface Snapshot {
+  // IndexedDB key, set once stored
+  key?: number;
+  entityId: number;
+  class: string;
+  score: number;
+  // Box of the crop in the frame
+  bbox: BBox;
+  // When the entity was first seen and when the crop was taken, in ms
+  firstSeen: number;
+  capturedAt: number;
+  // JPEG crop
+  image: Blob;
+}
+
+export interface GallerySettings {
+  enabled: boolean;
+  // The oldest snapshots are deleted beyond this many
+  maxSnapshots: number;
+  // Snapshots older than this are deleted; 0 keeps them until the limit
+  maxAgeDays: number;
+}
+
+export interface SnapshotQuery {
+  // Part of the class name, case-insensitive; empty matches every class
+  className: string;
+  // Capture time range in ms; null leaves that end open
+  from: number | null;
+  to: number | null;
+}
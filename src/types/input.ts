@@ -0,0 +1,40 @@
+export type FacingMode = 'user' | 'environment';
+
+export interface WebcamSource {
+  kind: 'webcam';
+  // A specific camera; when unset the browser picks one by facing mode
+  deviceId?: string;
+  facingMode: FacingMode;
+}
+
+export interface VideoFileSource {
+  kind: 'file';
+  file: File;
+}
+
+// Still images, analysed one after another in file-name order
+export interface ImageSource {
+  kind: 'images';
+  files: File[];
+}
+
+export type InputSource = WebcamSource | VideoFileSource | ImageSource;
+
+export type InputSourceKind = InputSource['kind'];
+
+// One tile of the multi-camera grid
+export interface StreamSource {
+  id: string;
+  label: string;
+  input: WebcamSource | VideoFileSource;
+}
+
+export interface PlaybackState {
+  playing: boolean;
+  // Step through every frame at a fixed rate instead of sampling the
+  // playing video, so runs over the same file are repeatable
+  deterministic: boolean;
+  currentTime: number;
+  duration: number;
+  fps: number;
+}
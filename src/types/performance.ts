@@ -0,0 +1,24 @@
+import type { DetectorRuntime } from './detector';
+
+export interface SchedulerOptions {
+  // Pace inference to the target rate and the measured latency, and move
+  // tracked boxes along their velocity on the frames in between
+  adaptive: boolean;
+  // Analysed frames per second to aim for while adaptive
+  targetFps: number;
+  showHud: boolean;
+}
+
+// Averages over the last second, shown in the performance overlay
+export interface PerformanceStats {
+  captureFps: number;
+  analysedFps: number;
+  // Frames left to the tracker's prediction since the session started
+  skippedFrames: number;
+  inferenceMs: number;
+  trackerMs: number;
+  renderMs: number;
+  runtime: DetectorRuntime | null;
+  // JS heap in use, where the browser reports it
+  heapBytes: number | null;
+}
@@ -0,0 +1,11 @@
+// A body keypoint in frame pixels. Pose models output the 17 COCO keypoints
+// in a fixed order, named in COCO_KEYPOINTS.
+export interface Keypoint {
+  x: number;
+  y: number;
+  // Visibility confidence, 0 to 1
+  score: number;
+}
+
+// Poses recognised from keypoints, for alert rules
+export type PoseLabel = 'fallen' | 'hand-raised';
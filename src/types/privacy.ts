@@ -0,0 +1,28 @@
+import type { BBox } from '../utils/bbox';
+
+export type RedactionMethod = 'blur' | 'pixelate' | 'mask';
+
+export interface RedactionRule {
+  method: RedactionMethod;
+  // Blur radius or pixel block size, as a share of the box's longer side
+  strength: number;
+}
+
+export interface PrivacySettings {
+  enabled: boolean;
+  // Classes to redact, and how
+  rules: { [className: string]: RedactionRule };
+  // Detections of redacted classes count from this score, whatever the
+  // thresholds, filters and hidden classes used for tracking
+  minScore: number;
+  // Margin added on each side of a box, as a share of its size, to cover
+  // movement between analysed frames
+  padding: number;
+}
+
+// A region of a frame to redact, in that frame's pixels
+export interface Redaction {
+  bbox: BBox;
+  method: RedactionMethod;
+  strength: number;
+}
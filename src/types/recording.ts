@@ -0,0 +1,50 @@
+import type { BBox } from '../utils/bbox';
+
+export interface RecordedDetection {
+  class: string;
+  bbox: BBox;
+  score: number;
+}
+
+export interface RecordedTrack extends RecordedDetection {
+  id: number;
+  // The box is the tracker's motion prediction, not an observation
+  predicted: boolean;
+}
+
+export interface RecordedFrame {
+  // 1-based, counted from the start of the recording
+  frame: number;
+  timestamp: number;
+  width: number;
+  height: number;
+  detections: RecordedDetection[];
+  tracks: RecordedTrack[];
+}
+
+export type ExportFormat = 'jsonl' | 'csv' | 'mot-det' | 'mot-gt';
+
+export interface SessionFrame extends RecordedFrame {
+  // Position of the frame's overlay in the session clip
+  offsetMs: number;
+}
+
+// Written next to a session clip so its overlays can be re-rendered
+export interface SessionSidecar {
+  version: 1;
+  startedAt: number;
+  durationMs: number;
+  width: number;
+  height: number;
+  mimeType: string;
+  // Whether boxes were drawn into the clip itself
+  overlayBurnedIn: boolean;
+  // The clip is flipped horizontally; boxes are stored unflipped
+  mirrored: boolean;
+  frames: SessionFrame[];
+}
+
+export interface RecordedSession {
+  video: Blob;
+  sidecar: SessionSidecar;
+}
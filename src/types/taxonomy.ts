@@ -0,0 +1,25 @@
+// Categories group detector classes for filtering, colouring and the log.
+// Filters, zones and alert rules refer to categories by id, so renaming a
+// category keeps them working.
+export interface TaxonomyCategory {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface TaxonomyClass {
+  // Category id, or 'unknown' when unassigned
+  category: string;
+  description: string;
+  // Hidden classes are dropped before tracking, as if never detected
+  hidden: boolean;
+}
+
+export interface Taxonomy {
+  categories: TaxonomyCategory[];
+  classes: { [className: string]: TaxonomyClass };
+}
+
+export interface TaxonomyFile extends Taxonomy {
+  version: 1;
+}
@@ -0,0 +1,73 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type {
+  Detection,
+  DetectorConfig,
+  DetectorKind,
+  DetectorRuntime,
+  InferenceBackend,
+  InferenceOptions
+} from './detector';
+import type { EntityTrackerOptions, TrackEvent, TrackedEntity } from './entities';
+import type { Taxonomy } from './taxonomy';
+import type { DetectionFilter } from './filters';
+
+// Elements the page can hand to the detection client
+export type FrameSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+export interface FrameOptions {
+  threshold: number;
+  categories: string[];
+  filter: DetectionFilter;
+  // Classes whose raw detections are returned for privacy redaction
+  redact?: { classes: string[]; minScore: number };
+  // Each stream keeps its own tracks; frames without one share a default stream
+  stream?: string;
+  // Send the analysed frame back with the result, for drawing or cropping
+  // pixels that must match its boxes and redactions
+  returnFrame?: boolean;
+}
+
+export interface FrameResult {
+  frameId: number;
+  timestamp: number;
+  width: number;
+  height: number;
+  detections: Detection[];
+  entities: TrackedEntity[];
+  events: TrackEvent[];
+  inferenceMs: number;
+  trackerMs: number;
+  // Where this frame's detections were computed
+  backend: InferenceBackend;
+  // What the detector runs on, with TF.js memory when available
+  runtime?: DetectorRuntime;
+  // Detections of redacted classes, before thresholds, filters and tracking
+  redactTargets: DetectedObject[];
+  // The stream whose tracker produced the entities
+  stream: string;
+  // The analysed frame, when requested with returnFrame. Whoever handles the
+  // result owns it and must close it.
+  frame?: ImageBitmap;
+}
+
+export type DetectionWorkerRequest =
+  // loadId is echoed back so replies to superseded loads can be ignored
+  | { type: 'load'; loadId: number; config: DetectorConfig; inference?: InferenceOptions }
+  | {
+      type: 'frame';
+      frameId: number;
+      timestamp: number;
+      frame: ImageBitmap | VideoFrame;
+      options: FrameOptions;
+    }
+  | { type: 'reid'; enabled: boolean }
+  | { type: 'configureTracker'; options: Partial<EntityTrackerOptions> }
+  | { type: 'taxonomy'; taxonomy: Taxonomy }
+  | { type: 'reset'; stream?: string }
+  | { type: 'removeStream'; stream: string };
+
+export type DetectionWorkerResponse =
+  | { type: 'loaded'; loadId: number; kind: DetectorKind }
+  | { type: 'reid'; enabled: boolean; error?: string }
+  | { type: 'result'; result: FrameResult }
+  | { type: 'error'; frameId?: number; loadId?: number; message: string };
@@ -0,0 +1,58 @@
+// Zone points are normalised to the frame (0..1), so zones survive changes
+// of camera resolution
+export type Point = [number, number];
+
+export interface ZoneFilter {
+  // Empty lists match everything
+  classes: string[];
+  categories: string[];
+}
+
+interface ZoneBase {
+  id: string;
+  name: string;
+  points: Point[];
+  filter: ZoneFilter;
+  color: string;
+}
+
+// A polyline. Crossing it from the left of its drawing direction to the
+// right counts as "in", the reverse as "out".
+export interface LineZone extends ZoneBase {
+  kind: 'line';
+}
+
+export interface PolygonZone extends ZoneBase {
+  kind: 'polygon';
+}
+
+export type Zone = LineZone | PolygonZone;
+
+export type ZoneKind = Zone['kind'];
+
+export interface LineZoneStats {
+  kind: 'line';
+  in: number;
+  out: number;
+  byClass: { [className: string]: { in: number; out: number } };
+}
+
+export interface PolygonZoneStats {
+  kind: 'polygon';
+  occupancy: number;
+  peakOccupancy: number;
+  occupantIds: number[];
+  entries: number;
+  completedVisits: number;
+  // Dwell of completed visits plus time spent so far by current occupants
+  totalDwellMs: number;
+  averageDwellMs: number;
+  byClass: { [className: string]: number };
+}
+
+export type ZoneStats = LineZoneStats | PolygonZoneStats;
+
+export interface ZoneFile {
+  version: 1;
+  zones: Zone[];
+}
@@ -0,0 +1,365 @@
+import type { TrackedEntity } from '../types/entities';
+import type {
+  AlertActions,
+  AlertCondition,
+  AlertEvent,
+  AlertRule,
+  AlertRuleFile,
+  AlertTarget,
+  Comparison
+} from '../types/alerts';
+import type { Point, Zone } from '../types/zones';
+import type { Taxonomy } from '../types/taxonomy';
+import type { PoseLabel } from '../types/pose';
+import { matchesZoneFilter, pointInPolygon } from './zoneCounter';
+import { DEFAULT_TAXONOMY, categoryName } from './taxonomy';
+import { POSE_LABELS, detectPoses } from './pose';
+
+// Region key for the whole frame, next to polygon zone ids
+const FRAME = '';
+
+interface RuleState {
+  // Conditions held on the previous frame; rules fire on the rising edge
+  active: boolean;
+  lastFiredAt: number | null;
+}
+
+interface ConditionResult {
+  met: boolean;
+  entityIds: number[];
+}
+
+export const DEFAULT_ALERT_ACTIONS: AlertActions = {
+  toast: true,
+  sound: false,
+  notification: false,
+  snapshot: true
+};
+
+const comparisonSymbols: { [K in Comparison]: string } = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '='
+};
+
+function compare(count: number, comparison: Comparison, value: number): boolean {
+  switch (comparison) {
+    case 'gt': return count > value;
+    case 'gte': return count >= value;
+    case 'lt': return count < value;
+    case 'lte': return count <= value;
+    case 'eq': return count === value;
+  }
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createAlertRule(name: string, conditions: AlertCondition[] = []): AlertRule {
+  return {
+    id: newId(),
+    name,
+    enabled: true,
+    conditions,
+    actions: { ...DEFAULT_ALERT_ACTIONS },
+    cooldownSeconds: 30
+  };
+}
+
+// Starting points for the rule editor; zones are site-specific, so none of
+// these uses one
+export function exampleAlertRules(): AlertRule[] {
+  const anyOf = (classes: string[], categories: string[] = []): AlertTarget => ({ classes, categories });
+  return [
+    createAlertRule('Busy road', [
+      { type: 'count', target: anyOf(['car']), comparison: 'gt', value: 5 }
+    ]),
+    createAlertRule('Dog without owner', [
+      { type: 'count', target: anyOf(['dog']), comparison: 'gte', value: 1 },
+      { type: 'count', target: anyOf(['person']), comparison: 'eq', value: 0 }
+    ]),
+    createAlertRule('Animal spotted', [
+      { type: 'appears', target: anyOf([], ['animal']) }
+    ]),
+    createAlertRule('Loitering', [
+      { type: 'dwell', target: anyOf(['person']), seconds: 30 }
+    ]),
+    // Needs a pose model
+    createAlertRule('Person down', [
+      { type: 'pose', target: anyOf(['person']), pose: 'fallen', seconds: 3 }
+    ])
+  ];
+}
+
+export function describeTarget(target: AlertTarget, taxonomy: Taxonomy = DEFAULT_TAXONOMY): string {
+  const parts = [...target.classes, ...target.categories.map(category => `any ${categoryName(taxonomy, category)}`)];
+  return parts.length > 0 ? parts.join(' or ') : 'any object';
+}
+
+export function describeCondition(
+  condition: AlertCondition,
+  zones: Zone[] = [],
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): string {
+  const zone = condition.zoneId ? zones.find(z => z.id === condition.zoneId) : undefined;
+  const where = condition.zoneId ? ` in ${zone?.name ?? 'a deleted zone'}` : '';
+  const target = describeTarget(condition.target, taxonomy);
+
+  switch (condition.type) {
+    case 'count':
+      return `${target} count${where} ${comparisonSymbols[condition.comparison]} ${condition.value}`;
+    case 'dwell':
+      return `${target}${where || ' in view'} for over ${condition.seconds}s`;
+    case 'appears':
+      return `${target} appears${where}`;
+    case 'pose':
+      return `${target}${where} ${POSE_LABELS[condition.pose]}${condition.seconds > 0 ? ` for ${condition.seconds}s` : ''}`;
+  }
+}
+
+// Evaluates alert rules against tracker output every frame. Zone conditions
+// use polygon zones; a rule referring to a missing zone never fires.
+// DOM-free: the page decides how fired alerts are shown.
+export class AlertEngine {
+  private rules: AlertRule[] = [];
+  private zones = new Map<string, Point[]>();
+  // All zones, for naming them in alert messages
+  private zoneList: Zone[] = [];
+  private taxonomy: Taxonomy = DEFAULT_TAXONOMY;
+  private ruleStates = new Map<string, RuleState>();
+  // Entity id -> time it entered, per region
+  private occupants = new Map<string, Map<number, number>>();
+  // Entities that entered each region in the current frame
+  private entered = new Map<string, Set<number>>();
+  // Entity id -> pose -> time the pose was first seen without a break
+  private poses = new Map<number, Map<PoseLabel, number>>();
+
+  setRules(rules: AlertRule[]): void {
+    this.rules = rules;
+    const ids = new Set(rules.map(rule => rule.id));
+    Array.from(this.ruleStates.keys()).forEach(id => {
+      if (!ids.has(id)) this.ruleStates.delete(id);
+    });
+  }
+
+  setZones(zones: Zone[]): void {
+    this.zoneList = zones;
+    this.zones = new Map(
+      zones
+        .filter(zone => zone.kind === 'polygon' && zone.points.length >= 3)
+        .map(zone => [zone.id, zone.points])
+    );
+    Array.from(this.occupants.keys()).forEach(id => {
+      if (id !== FRAME && !this.zones.has(id)) this.occupants.delete(id);
+    });
+  }
+
+  // Category targets match against this taxonomy
+  setTaxonomy(taxonomy: Taxonomy): void {
+    this.taxonomy = taxonomy;
+  }
+
+  update(entities: TrackedEntity[], frameWidth: number, frameHeight: number, timestamp: number): AlertEvent[] {
+    if (frameWidth === 0 || frameHeight === 0) return [];
+
+    const observed = entities.filter(entity => !entity.isPredicted);
+    this.updateOccupants(entities, observed, frameWidth, frameHeight, timestamp);
+    this.updatePoses(entities, observed, timestamp);
+
+    const fired: AlertEvent[] = [];
+    this.rules.forEach(rule => {
+      if (!rule.enabled || rule.conditions.length === 0) return;
+
+      const results = rule.conditions.map(condition => this.evaluate(condition, observed, timestamp));
+      const met = results.every(result => result.met);
+      const state = this.ruleStates.get(rule.id) || { active: false, lastFiredAt: null };
+      const coolingDown = state.lastFiredAt !== null &&
+        timestamp - state.lastFiredAt < rule.cooldownSeconds * 1000;
+
+      if (met && !state.active && !coolingDown) {
+        state.lastFiredAt = timestamp;
+        fired.push({
+          id: newId(),
+          ruleId: rule.id,
+          ruleName: rule.name,
+          timestamp,
+          message: rule.conditions.map(condition => describeCondition(condition, this.zoneList, this.taxonomy)).join(' and '),
+          entityIds: Array.from(new Set(results.flatMap(result => result.entityIds)))
+        });
+      }
+      state.active = met;
+      this.ruleStates.set(rule.id, state);
+    });
+
+    return fired;
+  }
+
+  // Forget occupancy and rule state, e.g. when the input changes
+  reset(): void {
+    this.ruleStates.clear();
+    this.occupants.clear();
+    this.entered.clear();
+    this.poses.clear();
+  }
+
+  // Like occupancy, poses only change on observed frames
+  private updatePoses(entities: TrackedEntity[], observed: TrackedEntity[], timestamp: number) {
+    const tracked = new Set(entities.map(entity => entity.id));
+    observed.forEach(entity => {
+      const previous = this.poses.get(entity.id);
+      const current = new Map<PoseLabel, number>();
+      (entity.keypoints ? detectPoses(entity.keypoints) : []).forEach(pose => {
+        current.set(pose, previous?.get(pose) ?? timestamp);
+      });
+      this.poses.set(entity.id, current);
+    });
+    Array.from(this.poses.keys()).forEach(id => {
+      if (!tracked.has(id)) this.poses.delete(id);
+    });
+  }
+
+  private updateOccupants(
+    entities: TrackedEntity[],
+    observed: TrackedEntity[],
+    frameWidth: number,
+    frameHeight: number,
+    timestamp: number
+  ) {
+    const tracked = new Set(entities.map(entity => entity.id));
+    this.entered.clear();
+
+    [FRAME, ...Array.from(this.zones.keys())].forEach(regionId => {
+      const occupants = this.occupants.get(regionId) || new Map<number, number>();
+      const entered = new Set<number>();
+      const polygon = this.zones.get(regionId);
+
+      // Only observed positions move objects in or out, as in ZoneCounter
+      observed.forEach(entity => {
+        const [x, y, width, height] = entity.bbox;
+        const inside = !polygon || pointInPolygon(
+          [(x + width / 2) / frameWidth, (y + height / 2) / frameHeight],
+          polygon
+        );
+        if (inside && !occupants.has(entity.id)) {
+          occupants.set(entity.id, polygon ? timestamp : entity.firstSeen);
+          entered.add(entity.id);
+        } else if (!inside) {
+          occupants.delete(entity.id);
+        }
+      });
+      Array.from(occupants.keys()).forEach(id => {
+        if (!tracked.has(id)) occupants.delete(id);
+      });
+
+      this.occupants.set(regionId, occupants);
+      this.entered.set(regionId, entered);
+    });
+  }
+
+  private evaluate(condition: AlertCondition, observed: TrackedEntity[], timestamp: number): ConditionResult {
+    const regionId = condition.zoneId ?? FRAME;
+    const occupants = this.occupants.get(regionId);
+    if (!occupants) return { met: false, entityIds: [] };
+
+    const matching = observed.filter(entity =>
+      occupants.has(entity.id) && matchesZoneFilter(condition.target, entity.class, this.taxonomy)
+    );
+
+    switch (condition.type) {
+      case 'count':
+        return {
+          met: compare(matching.length, condition.comparison, condition.value),
+          entityIds: matching.map(entity => entity.id)
+        };
+      case 'dwell': {
+        const ids = matching
+          .filter(entity => timestamp - (occupants.get(entity.id) ?? timestamp) > condition.seconds * 1000)
+          .map(entity => entity.id);
+        return { met: ids.length > 0, entityIds: ids };
+      }
+      case 'appears': {
+        const entered = this.entered.get(regionId);
+        const ids = matching.filter(entity => entered?.has(entity.id)).map(entity => entity.id);
+        return { met: ids.length > 0, entityIds: ids };
+      }
+      case 'pose': {
+        const ids = matching
+          .filter(entity => {
+            const since = this.poses.get(entity.id)?.get(condition.pose);
+            return since !== undefined && timestamp - since >= condition.seconds * 1000;
+          })
+          .map(entity => entity.id);
+        return { met: ids.length > 0, entityIds: ids };
+      }
+    }
+  }
+}
+
+export function serializeAlertRules(rules: AlertRule[]): string {
+  const file: AlertRuleFile = { version: 1, rules };
+  return JSON.stringify(file, null, 2);
+}
+
+const conditionTypes = ['count', 'dwell', 'appears', 'pose'];
+const comparisons = Object.keys(comparisonSymbols);
+const poses = Object.keys(POSE_LABELS);
+
+function parseTarget(target: unknown): AlertTarget {
+  const value = target as Partial<AlertTarget> | undefined;
+  return {
+    classes: Array.isArray(value?.classes) ? value.classes.map(String) : [],
+    categories: Array.isArray(value?.categories) ? value.categories.map(String) : []
+  };
+}
+
+export function parseAlertRules(text: string): AlertRule[] {
+  const parsed = JSON.parse(text);
+  const rules: unknown = Array.isArray(parsed) ? parsed : parsed?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Alert rule file must contain a "rules" array');
+  }
+
+  return rules.map((rule, index) => {
+    if (!Array.isArray(rule?.conditions)) {
+      throw new Error(`Rule ${index + 1} has no "conditions" array`);
+    }
+
+    const conditions = rule.conditions.map((condition: Record<string, unknown>, conditionIndex: number) => {
+      if (!conditionTypes.includes(condition?.type as string)) {
+        throw new Error(`Rule ${index + 1}, condition ${conditionIndex + 1} has an unknown type`);
+      }
+      const base = {
+        target: parseTarget(condition.target),
+        ...(condition.zoneId ? { zoneId: String(condition.zoneId) } : {})
+      };
+      if (condition.type === 'count') {
+        if (!comparisons.includes(condition.comparison as string)) {
+          throw new Error(`Rule ${index + 1}, condition ${conditionIndex + 1} has an unknown comparison`);
+        }
+        return { ...base, type: 'count', comparison: condition.comparison, value: Number(condition.value) || 0 };
+      }
+      if (condition.type === 'dwell') {
+        return { ...base, type: 'dwell', seconds: Number(condition.seconds) || 0 };
+      }
+      if (condition.type === 'pose') {
+        if (!poses.includes(condition.pose as string)) {
+          throw new Error(`Rule ${index + 1}, condition ${conditionIndex + 1} has an unknown pose`);
+        }
+        return { ...base, type: 'pose', pose: condition.pose, seconds: Number(condition.seconds) || 0 };
+      }
+      return { ...base, type: 'appears' };
+    }) as AlertCondition[];
+
+    return {
+      id: String(rule.id ?? `rule-${newId()}-${index}`),
+      name: String(rule.name ?? `Rule ${index + 1}`),
+      enabled: rule.enabled !== false,
+      conditions,
+      actions: { ...DEFAULT_ALERT_ACTIONS, ...rule.actions },
+      cooldownSeconds: Number(rule.cooldownSeconds ?? 30) || 0
+    };
+  });
+}
@@ -0,0 +1,50 @@
+// Browser side effects for fired alerts. Everything here degrades to a no-op
+// where the API is missing or permission has been refused.
+
+let audioContext: AudioContext | null = null;
+
+// A short two-tone chime, synthesised so no audio file has to be shipped
+export function playChime(): void {
+  if (typeof AudioContext === 'undefined') return;
+  try {
+    const ctx = audioContext ?? (audioContext = new AudioContext());
+    // Browsers start contexts suspended until the page has been interacted with
+    if (ctx.state === 'suspended') ctx.resume();
+
+    [880, 1320].forEach((frequency, index) => {
+      const start = ctx.currentTime + index * 0.15;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.4);
+    });
+  } catch (error) {
+    console.error('Error playing chime:', error);
+  }
+}
+
+export function notificationPermission(): NotificationPermission | 'unsupported' {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export function showNotification(title: string, body: string, icon?: string | null): void {
+  if (notificationPermission() !== 'granted') return;
+  try {
+    new Notification(title, { body, icon: icon ?? undefined, tag: title });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Error showing notification:', error);
+  }
+}
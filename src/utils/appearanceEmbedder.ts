@@ -0,0 +1,80 @@
+import type { ImageFeatureExtractionPipeline, RawImage } from '@xenova/transformers';
+import type { BBox } from './bbox';
+
+export type EmbeddingSource = CanvasImageSource;
+
+export interface AppearanceEmbedder {
+  readonly dim: number;
+  embed(frame: EmbeddingSource, boxes: BBox[]): Promise<Float32Array[]>;
+}
+
+const DEFAULT_MODEL = 'Xenova/dinov2-small';
+const CROP_SIZE = 224;
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+  return vector.map(v => v / norm);
+}
+
+// Embeds box crops with a small self-supervised vision transformer via
+// @xenova/transformers. The CLS token of DINOv2-small is a 384-d descriptor
+// that is robust enough to re-identify an object after occlusion.
+export class TransformersAppearanceEmbedder implements AppearanceEmbedder {
+  private canvas: OffscreenCanvas;
+  private ctx: OffscreenCanvasRenderingContext2D;
+
+  private constructor(
+    private extractor: ImageFeatureExtractionPipeline,
+    private RawImageClass: typeof RawImage,
+    readonly dim: number
+  ) {
+    this.canvas = new OffscreenCanvas(CROP_SIZE, CROP_SIZE);
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('2D canvas context is not available for appearance crops');
+    }
+    this.ctx = ctx;
+  }
+
+  static async load(model = DEFAULT_MODEL, dim = 384): Promise<TransformersAppearanceEmbedder> {
+    const { pipeline, env, RawImage } = await import('@xenova/transformers');
+    // Models are fetched from the Hugging Face hub, not the app's own server
+    env.allowLocalModels = false;
+    const extractor = await pipeline('image-feature-extraction', model, { quantized: true });
+    return new TransformersAppearanceEmbedder(extractor, RawImage, dim);
+  }
+
+  async embed(frame: EmbeddingSource, boxes: BBox[]): Promise<Float32Array[]> {
+    if (boxes.length === 0) return [];
+
+    const crops = boxes.map(([x, y, width, height]) => {
+      this.ctx.clearRect(0, 0, CROP_SIZE, CROP_SIZE);
+      this.ctx.drawImage(frame, x, y, Math.max(width, 1), Math.max(height, 1), 0, 0, CROP_SIZE, CROP_SIZE);
+      const { data } = this.ctx.getImageData(0, 0, CROP_SIZE, CROP_SIZE);
+      return new this.RawImageClass(data, CROP_SIZE, CROP_SIZE, 4);
+    });
+
+    // last_hidden_state is [batch, tokens, dim]; token 0 is CLS
+    const output = await this.extractor(crops);
+    const tokens = output.dims[1];
+    const data = output.data as Float32Array;
+    return boxes.map((_, i) => {
+      const offset = i * tokens * this.dim;
+      return normalize(data.slice(offset, offset + this.dim));
+    });
+  }
+}
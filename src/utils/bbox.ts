@@ -0,0 +1,23 @@
+export type BBox = [number, number, number, number];
+
+export function calculateIoU(b1: BBox, b2: BBox): number {
+  const [x1, y1, w1, h1] = b1;
+  const [x2, y2, w2, h2] = b2;
+
+  const intersectionX = Math.max(0, Math.min(x1 + w1, x2 + w2) - Math.max(x1, x2));
+  const intersectionY = Math.max(0, Math.min(y1 + h1, y2 + h2) - Math.max(y1, y2));
+  const interArea = intersectionX * intersectionY;
+  const boxAArea = w1 * h1;
+  const boxBArea = w2 * h2;
+  const unionArea = boxAArea + boxBArea - interArea;
+
+  return unionArea > 0 ? interArea / unionArea : 0;
+}
+
+export function clipBBox(bbox: BBox, width: number, height: number): BBox {
+  const x = Math.min(Math.max(bbox[0], 0), width);
+  const y = Math.min(Math.max(bbox[1], 0), height);
+  const right = Math.min(Math.max(bbox[0] + bbox[2], 0), width);
+  const bottom = Math.min(Math.max(bbox[1] + bbox[3], 0), height);
+  return [x, y, right - x, bottom - y];
+}
@@ -0,0 +1,172 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type {
+  Detection,
+  Detector,
+  DetectorConfig,
+  DetectorInput,
+  DetectorRuntime,
+  InferenceBackend,
+  InferenceOptions
+} from '../types/detector';
+import type { FrameOptions } from '../types/worker';
+import type { Taxonomy } from '../types/taxonomy';
+import type { EntityTrackerOptions, TrackEvent, TrackEventType, TrackedEntity } from '../types/entities';
+import { createDetector } from './detectors';
+import { EntityTracker } from './entityTracker';
+import { TransformersAppearanceEmbedder } from './appearanceEmbedder';
+import { DEFAULT_TAXONOMY, categoryOf, isClassHidden } from './taxonomy';
+import { passesDetectionFilter } from './detectionFilter';
+import { getInputSize } from './detectors/canvas';
+
+export interface EngineResult {
+  detections: Detection[];
+  entities: TrackedEntity[];
+  events: TrackEvent[];
+  inferenceMs: number;
+  trackerMs: number;
+  backend: InferenceBackend;
+  runtime?: DetectorRuntime;
+  redactTargets: DetectedObject[];
+  stream: string;
+}
+
+// Tracker used by frames that don't name a stream
+export const DEFAULT_STREAM = 'default';
+
+const eventTypes: TrackEventType[] = ['enter', 'confirm', 'lost', 'reacquire', 'exit'];
+
+// Owns the detector and a tracker per video stream. Streams take turns on
+// the one detector, so several cameras share a single loaded model. Runs
+// inside the detection worker, or on the main thread when workers are
+// unavailable.
+export class DetectionEngine {
+  private detector: Detector | null = null;
+  private trackers = new Map<string, EntityTracker>();
+  private trackerOptions: Partial<EntityTrackerOptions> = {};
+  private embedder: TransformersAppearanceEmbedder | null = null;
+  private reidEnabled = false;
+  private frameEvents: TrackEvent[] = [];
+  private taxonomy: Taxonomy = DEFAULT_TAXONOMY;
+
+  get isLoaded(): boolean {
+    return this.detector !== null;
+  }
+
+  async load(config: DetectorConfig, inference?: InferenceOptions): Promise<Detector> {
+    const detector = await createDetector(config, inference);
+    this.detector?.dispose();
+    this.detector = detector;
+    this.trackers.forEach(tracker => tracker.reset());
+    return detector;
+  }
+
+  async setReidEnabled(enabled: boolean): Promise<void> {
+    if (enabled && !this.embedder) {
+      this.embedder = await TransformersAppearanceEmbedder.load();
+    }
+    this.reidEnabled = enabled;
+    this.trackers.forEach(tracker => tracker.setEmbedder(enabled ? this.embedder : null));
+  }
+
+  configureTracker(options: Partial<EntityTrackerOptions>): void {
+    this.trackerOptions = { ...this.trackerOptions, ...options };
+    this.trackers.forEach(tracker => tracker.configure(options));
+  }
+
+  // Decides which category a class filters as, and which classes are hidden
+  setTaxonomy(taxonomy: Taxonomy): void {
+    this.taxonomy = taxonomy;
+  }
+
+  async process(frame: DetectorInput, options: FrameOptions, timestamp = Date.now()): Promise<EngineResult> {
+    if (!this.detector) {
+      throw new Error('Detector has not been loaded');
+    }
+
+    // Resolved up front, so a stream removed while the detector runs isn't
+    // recreated by its late result
+    const stream = options.stream ?? DEFAULT_STREAM;
+    const tracker = this.trackerFor(stream);
+
+    const inferenceStart = performance.now();
+    const predictions = await this.detector.detect(frame);
+    const inferenceMs = performance.now() - inferenceStart;
+
+    // Filter predictions based on thresholds, class lists, box size, hidden
+    // classes and selected categories
+    // Privacy redaction must not depend on what is tracked or shown
+    const redact = options.redact;
+    const redactTargets = redact
+      ? predictions.filter(prediction =>
+        prediction.score >= redact.minScore && redact.classes.includes(prediction.class)
+      )
+      : [];
+
+    const [frameWidth, frameHeight] = getInputSize(frame);
+    const detections = predictions
+      .filter(prediction => {
+        const isSelectedCategory = options.categories.length === 0 ||
+          options.categories.includes(categoryOf(this.taxonomy, prediction.class));
+        return isSelectedCategory && !isClassHidden(this.taxonomy, prediction.class) &&
+          passesDetectionFilter(prediction, options.filter, options.threshold, frameWidth, frameHeight);
+      })
+      .sort((a, b) => (b.score || 0) - (a.score || 0));
+
+    const trackerStart = performance.now();
+    // ImageData can't be drawn into crops, so re-identification skips it
+    const cropSource = 'data' in frame ? undefined : frame;
+    // Scores were already checked against the per-class thresholds
+    const entities = this.trackers.get(stream) === tracker
+      ? await tracker.update(detections, 0, cropSource, timestamp)
+      : [];
+    const trackerMs = performance.now() - trackerStart;
+    const events = this.frameEvents;
+    this.frameEvents = [];
+
+    return {
+      detections,
+      // Copies, so later tracker mutations don't leak into posted results
+      entities: entities.map(entity => ({ ...entity })),
+      events,
+      inferenceMs,
+      trackerMs,
+      backend: this.detector.backend ?? 'local',
+      runtime: this.detector.runtime?.(),
+      redactTargets,
+      stream
+    };
+  }
+
+  // Forgets the tracks of one stream, or of every stream
+  reset(stream?: string): void {
+    if (stream === undefined) {
+      this.trackers.forEach(tracker => tracker.reset());
+    } else {
+      this.trackers.get(stream)?.reset();
+    }
+  }
+
+  removeStream(stream: string): void {
+    this.trackers.delete(stream);
+  }
+
+  private trackerFor(stream: string): EntityTracker {
+    const existing = this.trackers.get(stream);
+    if (existing) return existing;
+
+    const tracker = new EntityTracker(this.trackerOptions);
+    tracker.setEmbedder(this.reidEnabled ? this.embedder : null);
+    eventTypes.forEach(type => {
+      tracker.on(type, payload => {
+        this.frameEvents.push({ type, ...payload } as TrackEvent);
+      });
+    });
+    this.trackers.set(stream, tracker);
+    return tracker;
+  }
+
+  dispose(): void {
+    this.detector?.dispose();
+    this.detector = null;
+  }
+}
@@ -0,0 +1,45 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { DetectionFilter } from '../types/filters';
+
+export const DEFAULT_DETECTION_FILTER: DetectionFilter = {
+  classThresholds: {},
+  allowClasses: [],
+  denyClasses: [],
+  minBoxArea: 0,
+  maxBoxArea: 1
+};
+
+export function thresholdFor(filter: DetectionFilter, threshold: number, className: string): number {
+  return filter.classThresholds[className] ?? threshold;
+}
+
+// Score, class and box size checks; category filters are applied separately
+export function passesDetectionFilter(
+  detection: DetectedObject,
+  filter: DetectionFilter,
+  threshold: number,
+  frameWidth: number,
+  frameHeight: number
+): boolean {
+  if (detection.score < thresholdFor(filter, threshold, detection.class)) return false;
+  if (filter.denyClasses.includes(detection.class)) return false;
+  if (filter.allowClasses.length > 0 && !filter.allowClasses.includes(detection.class)) return false;
+
+  const frameArea = frameWidth * frameHeight;
+  if (frameArea > 0) {
+    const area = (detection.bbox[2] * detection.bbox[3]) / frameArea;
+    if (area < filter.minBoxArea || area > filter.maxBoxArea) return false;
+  }
+  return true;
+}
+
+// Fills in settings missing from older saved filters
+export function normalizeDetectionFilter(filter: Partial<DetectionFilter>): DetectionFilter {
+  return {
+    classThresholds: { ...filter.classThresholds },
+    allowClasses: Array.isArray(filter.allowClasses) ? filter.allowClasses.map(String) : [],
+    denyClasses: Array.isArray(filter.denyClasses) ? filter.denyClasses.map(String) : [],
+    minBoxArea: typeof filter.minBoxArea === 'number' ? filter.minBoxArea : DEFAULT_DETECTION_FILTER.minBoxArea,
+    maxBoxArea: typeof filter.maxBoxArea === 'number' ? filter.maxBoxArea : DEFAULT_DETECTION_FILTER.maxBoxArea
+  };
+}
@@ -0,0 +1,269 @@
+import type { DetectorConfig, InferenceOptions } from '../types/detector';
+import type { EntityTrackerOptions, TrackEventType, TrackerEventMap } from '../types/entities';
+import type { Taxonomy } from '../types/taxonomy';
+import type { DetectionWorkerResponse, FrameOptions, FrameResult, FrameSource } from '../types/worker';
+import { DetectionEngine } from './detectionEngine';
+import { frameSourceSize } from './mediaSources';
+import { TypedEventEmitter } from './typedEventEmitter';
+import type { Listener } from './typedEventEmitter';
+
+type ResultListener = (result: FrameResult) => void;
+type ErrorListener = (message: string) => void;
+
+interface PendingLoad {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingFrame {
+  resolve: (result: FrameResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Main-thread handle on the detection worker. Only one frame is ever in
+// flight: while the worker is busy new frames are dropped rather than
+// queued, so results never fall behind the live video.
+export class DetectionWorkerClient {
+  private worker: Worker | null = null;
+  private engine: DetectionEngine | null = null;
+  private pendingLoad: PendingLoad | null = null;
+  // Id of the latest load; replies to earlier ones are ignored
+  private loadId = 0;
+  private pendingReid: PendingLoad | null = null;
+  private pendingFrame: PendingFrame | null = null;
+  private idleWaiters: Array<() => void> = [];
+  private inFlight = false;
+  private nextFrameId = 1;
+  private droppedFrames = 0;
+  private trackEvents = new TypedEventEmitter<TrackerEventMap>();
+
+  onResult: ResultListener | null = null;
+  onError: ErrorListener | null = null;
+
+  constructor() {
+    if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+      this.worker = new Worker(new URL('../workers/detection.worker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<DetectionWorkerResponse>) => this.handleMessage(event.data);
+    } else {
+      // Fall back to running inference inline on browsers without OffscreenCanvas
+      this.engine = new DetectionEngine();
+    }
+  }
+
+  get usesWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  get isBusy(): boolean {
+    return this.inFlight;
+  }
+
+  get dropped(): number {
+    return this.droppedFrames;
+  }
+
+  async load(config: DetectorConfig, inference?: InferenceOptions): Promise<void> {
+    if (this.engine) {
+      await this.engine.load(config, inference);
+      return;
+    }
+
+    this.pendingLoad?.reject(new Error('Superseded by a newer load request'));
+    const loadId = ++this.loadId;
+    return new Promise((resolve, reject) => {
+      this.pendingLoad = { resolve, reject };
+      this.worker!.postMessage({ type: 'load', loadId, config, inference });
+    });
+  }
+
+  // Tracker lifecycle events, re-emitted on the main thread as results arrive
+  on<K extends TrackEventType>(event: K, listener: Listener<TrackerEventMap[K]>): () => void {
+    return this.trackEvents.on(event, listener);
+  }
+
+  // Loads the appearance embedder used to re-identify tracks after occlusion
+  async setReidEnabled(enabled: boolean): Promise<void> {
+    if (this.engine) {
+      await this.engine.setReidEnabled(enabled);
+      return;
+    }
+
+    this.pendingReid?.reject(new Error('Superseded by a newer re-identification request'));
+    return new Promise((resolve, reject) => {
+      this.pendingReid = { resolve, reject };
+      this.worker!.postMessage({ type: 'reid', enabled });
+    });
+  }
+
+  // Sends a frame for analysis unless one is already in flight. Live sources
+  // use the wall clock; recorded sources pass their media time so tracker
+  // timings match the footage.
+  async submit(source: FrameSource, options: FrameOptions, timestamp = Date.now()): Promise<boolean> {
+    if (this.inFlight) {
+      this.droppedFrames++;
+      return false;
+    }
+
+    this.inFlight = true;
+    const frameId = this.nextFrameId++;
+
+    if (this.engine) {
+      let frame: ImageBitmap | undefined;
+      try {
+        // Analyse a copy when it is returned, so it is exactly the analysed frame
+        frame = options.returnFrame ? await createImageBitmap(source) : undefined;
+        const result = await this.engine.process(frame ?? source, options, timestamp);
+        this.handleResult({
+          frameId,
+          timestamp,
+          ...frameSourceSize(source),
+          ...result,
+          frame
+        });
+      } catch (error) {
+        frame?.close();
+        this.handleFrameError(error instanceof Error ? error.message : String(error));
+      } finally {
+        this.setIdle();
+      }
+      return true;
+    }
+
+    try {
+      const frame = typeof VideoFrame !== 'undefined'
+        ? new VideoFrame(source, { timestamp: timestamp * 1000 })
+        : await createImageBitmap(source);
+      this.worker!.postMessage({ type: 'frame', frameId, timestamp, frame, options }, [frame]);
+    } catch (error) {
+      this.setIdle();
+      this.handleFrameError(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+    return true;
+  }
+
+  // Resolves once no frame is in flight
+  whenIdle(): Promise<void> {
+    if (!this.inFlight) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  // Analyses one frame and resolves with its result. Used when stepping
+  // through files, where every frame must be processed rather than dropped.
+  processFrame(source: FrameSource, options: FrameOptions, timestamp: number): Promise<FrameResult> {
+    if (this.inFlight) {
+      return Promise.reject(new Error('A frame is already being processed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pendingFrame = { resolve, reject };
+      this.submit(source, options, timestamp);
+    });
+  }
+
+  configureTracker(options: Partial<EntityTrackerOptions>): void {
+    this.engine?.configureTracker(options);
+    this.worker?.postMessage({ type: 'configureTracker', options });
+  }
+
+  setTaxonomy(taxonomy: Taxonomy): void {
+    this.engine?.setTaxonomy(taxonomy);
+    this.worker?.postMessage({ type: 'taxonomy', taxonomy });
+  }
+
+  // Forgets the tracks of one stream, or of every stream
+  reset(stream?: string): void {
+    this.engine?.reset(stream);
+    this.worker?.postMessage({ type: 'reset', stream });
+  }
+
+  // Drops a stream's tracker once the stream is closed
+  removeStream(stream: string): void {
+    this.engine?.removeStream(stream);
+    this.worker?.postMessage({ type: 'removeStream', stream });
+  }
+
+  dispose(): void {
+    this.pendingLoad?.reject(new Error('Detection worker disposed'));
+    this.pendingLoad = null;
+    this.pendingReid?.reject(new Error('Detection worker disposed'));
+    this.pendingReid = null;
+    this.pendingFrame?.reject(new Error('Detection worker disposed'));
+    this.pendingFrame = null;
+    this.setIdle();
+    this.worker?.terminate();
+    this.worker = null;
+    this.engine?.dispose();
+    this.engine = null;
+    this.onResult = null;
+    this.onError = null;
+    this.trackEvents.removeAllListeners();
+  }
+
+  private handleResult(result: FrameResult) {
+    result.events.forEach(({ type, ...payload }) => {
+      this.trackEvents.emit(type, payload as TrackerEventMap[typeof type]);
+    });
+    // The result listener takes ownership of a returned frame
+    if (this.onResult) {
+      this.onResult(result);
+    } else {
+      result.frame?.close();
+    }
+    this.pendingFrame?.resolve(result);
+    this.pendingFrame = null;
+  }
+
+  private setIdle() {
+    this.inFlight = false;
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private handleFrameError(message: string) {
+    if (this.pendingFrame) {
+      this.pendingFrame.reject(new Error(message));
+      this.pendingFrame = null;
+    } else {
+      this.onError?.(message);
+    }
+  }
+
+  private handleMessage(message: DetectionWorkerResponse) {
+    switch (message.type) {
+      case 'loaded':
+        if (message.loadId !== this.loadId) break;
+        this.pendingLoad?.resolve();
+        this.pendingLoad = null;
+        break;
+
+      case 'reid':
+        if (message.error) {
+          this.pendingReid?.reject(new Error(message.error));
+        } else {
+          this.pendingReid?.resolve();
+        }
+        this.pendingReid = null;
+        break;
+
+      case 'result':
+        this.setIdle();
+        this.handleResult(message.result);
+        break;
+
+      case 'error':
+        if (message.frameId !== undefined) {
+          this.setIdle();
+          this.handleFrameError(message.message);
+        } else if (message.loadId !== undefined) {
+          if (message.loadId !== this.loadId) break;
+          this.pendingLoad?.reject(new Error(message.message));
+          this.pendingLoad = null;
+        } else {
+          this.onError?.(message.message);
+        }
+        break;
+    }
+  }
+}
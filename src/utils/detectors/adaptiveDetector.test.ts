@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveDetector } from './adaptiveDetector';
+import type { Detection, Detector, DetectorInput } from '../../types/detector';
+
+const person: Detection = { class: 'person', bbox: [0, 0, 10, 10], score: 0.9 };
+const frame = {} as DetectorInput;
+
+// Counts calls, failing each one while fail is set
+const fakeDetector = (backend: string) => {
+  const detector = {
+    kind: 'coco-ssd' as const,
+    labels: ['person'],
+    calls: 0,
+    fail: false,
+    runtime: () => ({ backend }),
+    detect: async () => {
+      detector.calls++;
+      if (detector.fail) throw new Error(`${backend} is down`);
+      return [person];
+    },
+    dispose: () => undefined
+  };
+  return detector satisfies Detector;
+};
+
+// A negative budget sends the second frame to the server to measure it
+const setup = () => {
+  const local = fakeDetector('webgl');
+  const remote = fakeDetector('server');
+  return { local, remote, detector: new AdaptiveDetector(local, remote, -1) };
+};
+
+describe('AdaptiveDetector', () => {
+  it('falls back to one local call when the server fails', async () => {
+    const { local, remote, detector } = setup();
+    await detector.detect(frame);
+    remote.fail = true;
+
+    expect(await detector.detect(frame)).toEqual([person]);
+    expect(remote.calls).toBe(1);
+    expect(local.calls).toBe(2);
+    expect(detector.backend).toBe('local');
+    expect(detector.runtime().fallback).toContain('server is down');
+  });
+
+  it('stays local while the server is being retried', async () => {
+    const { local, remote, detector } = setup();
+    await detector.detect(frame);
+    remote.fail = true;
+    await detector.detect(frame);
+
+    await detector.detect(frame);
+    expect(remote.calls).toBe(1);
+    expect(local.calls).toBe(3);
+  });
+
+  it('reports no fallback while the server works', async () => {
+    const { remote, detector } = setup();
+    await detector.detect(frame);
+    await detector.detect(frame);
+
+    expect(remote.calls).toBe(1);
+    expect(detector.runtime()).toEqual({ backend: 'server' });
+  });
+
+  it('passes on local failures', async () => {
+    const { local, detector } = setup();
+    local.fail = true;
+
+    await expect(detector.detect(frame)).rejects.toThrow('webgl is down');
+    expect(local.calls).toBe(1);
+  });
+});
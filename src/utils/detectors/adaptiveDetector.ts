@@ -0,0 +1,97 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { DetectOptions, Detector, DetectorInput, DetectorRuntime, InferenceBackend } from '../../types/detector';
+
+// Weight of the newest sample in the latency averages
+const LATENCY_SMOOTHING = 0.2;
+// How often the backend not in use is measured again
+const PROBE_INTERVAL_MS = 30000;
+// How long to stay local after the server fails
+const REMOTE_RETRY_MS = 15000;
+
+// Runs a local and a remote detector behind one interface. Frames go to the
+// local detector while it keeps within its latency budget; beyond that, to
+// whichever backend has been faster, re-measuring the other now and then.
+// A failing server falls back to local inference for a while.
+export class AdaptiveDetector implements Detector {
+  readonly kind: Detector['kind'];
+  readonly labels: string[];
+
+  private latency: { [K in InferenceBackend]: number | null } = { local: null, remote: null };
+  private lastBackend: InferenceBackend = 'local';
+  private lastProbeAt = 0;
+  private remoteFailedAt: number | null = null;
+  private remoteError = '';
+
+  constructor(
+    private local: Detector,
+    private remote: Detector,
+    private localBudgetMs: number
+  ) {
+    this.kind = local.kind;
+    this.labels = local.labels;
+  }
+
+  get backend(): InferenceBackend {
+    return this.lastBackend;
+  }
+
+  runtime(): DetectorRuntime {
+    const detector = this.lastBackend === 'local' ? this.local : this.remote;
+    const runtime = detector.runtime?.() ?? { backend: this.lastBackend };
+    return this.isRemoteBlocked(Date.now())
+      ? { ...runtime, fallback: `Server inference failed, using the browser: ${this.remoteError}` }
+      : runtime;
+  }
+
+  async detect(input: DetectorInput, options?: DetectOptions): Promise<DetectedObject[]> {
+    const backend = this.choose();
+    if (backend === 'local') return this.run('local', input, options);
+
+    try {
+      return await this.run('remote', input, options);
+    } catch (error) {
+      this.remoteFailedAt = Date.now();
+      this.remoteError = error instanceof Error ? error.message : String(error);
+      this.latency.remote = null;
+      return this.run('local', input, options);
+    }
+  }
+
+  dispose(): void {
+    this.local.dispose();
+    this.remote.dispose();
+  }
+
+  private choose(): InferenceBackend {
+    const now = Date.now();
+    if (this.isRemoteBlocked(now)) return 'local';
+
+    const { local, remote } = this.latency;
+    if (local === null || (local <= this.localBudgetMs && this.lastBackend === 'local')) return 'local';
+    if (remote === null) return 'remote';
+
+    const faster: InferenceBackend = remote < local ? 'remote' : 'local';
+    if (now - this.lastProbeAt > PROBE_INTERVAL_MS) {
+      this.lastProbeAt = now;
+      return faster === 'local' ? 'remote' : 'local';
+    }
+    return faster;
+  }
+
+  private isRemoteBlocked(now: number): boolean {
+    return this.remoteFailedAt !== null && now - this.remoteFailedAt < REMOTE_RETRY_MS;
+  }
+
+  private async run(backend: InferenceBackend, input: DetectorInput, options?: DetectOptions): Promise<DetectedObject[]> {
+    const start = performance.now();
+    const detections = await (backend === 'local' ? this.local : this.remote).detect(input, options);
+    this.record(backend, performance.now() - start);
+    this.lastBackend = backend;
+    return detections;
+  }
+
+  private record(backend: InferenceBackend, ms: number) {
+    const previous = this.latency[backend];
+    this.latency[backend] = previous === null ? ms : previous + (ms - previous) * LATENCY_SMOOTHING;
+  }
+}
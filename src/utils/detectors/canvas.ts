@@ -0,0 +1,19 @@
+import type { DetectorInput } from '../../types/detector';
+
+export function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Property checks rather than instanceof so this also runs where DOM element
+// classes are not defined
+export function getInputSize(input: DetectorInput): [number, number] {
+  if ('videoWidth' in input) return [input.videoWidth, input.videoHeight];
+  if ('naturalWidth' in input) return [input.naturalWidth, input.naturalHeight];
+  return [input.width, input.height];
+}
@@ -0,0 +1,65 @@
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import * as tf from '@tensorflow/tfjs';
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type {
+  CocoSsdDetectorConfig,
+  DetectOptions,
+  Detector,
+  DetectorInput,
+  DetectorRuntime,
+  TfjsBackend
+} from '../../types/detector';
+import cocoClasses from '../cocoClasses.json';
+
+// The wasm backend is a separate package, fetched only when selected
+async function selectBackend(backend: TfjsBackend) {
+  if (backend === 'wasm') {
+    const { setWasmPaths, version_wasm } = await import('@tensorflow/tfjs-backend-wasm');
+    setWasmPaths(`https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-wasm@${version_wasm}/dist/`);
+  }
+  if (!await tf.setBackend(backend)) {
+    throw new Error(`TF.js backend "${backend}" is not available in this browser`);
+  }
+  await tf.ready();
+}
+
+export class CocoSsdDetector implements Detector {
+  readonly kind = 'coco-ssd' as const;
+  readonly labels = Object.keys(cocoClasses);
+
+  private constructor(private model: cocoSsd.ObjectDetection) {}
+
+  static async load(config: CocoSsdDetectorConfig): Promise<CocoSsdDetector> {
+    if (config.backend) {
+      await selectBackend(config.backend);
+    }
+    const model = await cocoSsd.load({
+      base: config.base || 'lite_mobilenet_v2',
+      modelUrl: config.modelUrl
+    });
+    return new CocoSsdDetector(model);
+  }
+
+  runtime(): DetectorRuntime {
+    const { numTensors, numBytes } = tf.memory();
+    return { backend: `tfjs-${tf.getBackend()}`, numTensors, numBytes };
+  }
+
+  async detect(input: DetectorInput, options: DetectOptions = {}): Promise<DetectedObject[]> {
+    // coco-ssd only takes DOM sources or tensors, so bitmaps (as received by
+    // the detection worker) are converted up front
+    if ('close' in input) {
+      const pixels = tf.browser.fromPixels(input);
+      try {
+        return await this.model.detect(pixels, options.maxDetections, options.minScore);
+      } finally {
+        pixels.dispose();
+      }
+    }
+    return this.model.detect(input, options.maxDetections, options.minScore);
+  }
+
+  dispose(): void {
+    this.model.dispose();
+  }
+}
@@ -0,0 +1,29 @@
+import type { DetectOptions, Detection, Detector, DetectorInput, DetectorRuntime, InferenceBackend } from '../../types/detector';
+
+// Runs one side of auto mode on its own, reporting in its runtime why the
+// other side isn't used
+export class FallbackDetector implements Detector {
+  readonly kind: Detector['kind'];
+  readonly labels: string[];
+
+  constructor(private detector: Detector, private reason: string) {
+    this.kind = detector.kind;
+    this.labels = detector.labels;
+  }
+
+  get backend(): InferenceBackend {
+    return this.detector.backend ?? 'local';
+  }
+
+  runtime(): DetectorRuntime {
+    return { ...(this.detector.runtime?.() ?? { backend: this.backend }), fallback: this.reason };
+  }
+
+  detect(input: DetectorInput, options?: DetectOptions): Promise<Detection[]> {
+    return this.detector.detect(input, options);
+  }
+
+  dispose(): void {
+    this.detector.dispose();
+  }
+}
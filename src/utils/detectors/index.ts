@@ -0,0 +1,86 @@
+import type { Detector, DetectorConfig, InferenceOptions } from '../../types/detector';
+import { FallbackDetector } from './fallbackDetector';
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = {
+  kind: 'coco-ssd',
+  base: 'lite_mobilenet_v2'
+};
+
+export const DEFAULT_INFERENCE_OPTIONS: InferenceOptions = {
+  mode: 'local',
+  endpoint: '/api/detect',
+  maxUploadSize: 480,
+  jpegQuality: 0.7,
+  localBudgetMs: 150
+};
+
+// Backends are imported lazily so onnxruntime-web and transformers.js are
+// only fetched when a model that needs them is actually selected
+async function createLocalDetector(config: DetectorConfig): Promise<Detector> {
+  switch (config.kind) {
+    case 'coco-ssd': {
+      const { CocoSsdDetector } = await import('./cocoSsdDetector');
+      return CocoSsdDetector.load(config);
+    }
+    case 'yolo-onnx': {
+      const { YoloOnnxDetector } = await import('./yoloOnnxDetector');
+      return YoloOnnxDetector.load(config);
+    }
+    case 'owl-vit': {
+      const { OwlVitDetector } = await import('./owlVitDetector');
+      return OwlVitDetector.load(config);
+    }
+  }
+}
+
+export async function createDetector(
+  config: DetectorConfig,
+  inference: InferenceOptions = DEFAULT_INFERENCE_OPTIONS
+): Promise<Detector> {
+  if (inference.mode === 'local') {
+    return createLocalDetector(config);
+  }
+
+  const { RemoteDetector, serverDetectorConfig } = await import('./remoteDetector');
+  if (inference.mode === 'remote') {
+    return new RemoteDetector(config, inference);
+  }
+
+  // Auto mode falls back to whichever side can run the model: local files
+  // can't be sent to the server, and some models only load there
+  try {
+    serverDetectorConfig(config);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return new FallbackDetector(await createLocalDetector(config), `Model is not available to the server, using the browser only: ${reason}`);
+  }
+  const remote = new RemoteDetector(config, inference);
+  const { AdaptiveDetector } = await import('./adaptiveDetector');
+  try {
+    return new AdaptiveDetector(await createLocalDetector(config), remote, inference.localBudgetMs);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return new FallbackDetector(remote, `Model failed to load in the browser, using the server only: ${reason}`);
+  }
+}
+
+export function parseLabelMap(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    if (Array.isArray(parsed)) {
+      return parsed.map(String);
+    }
+    // Ultralytics-style { "0": "person", "1": "bicycle", ... }
+    return Object.keys(parsed)
+      .sort((a, b) => Number(a) - Number(b))
+      .map(key => String(parsed[key]));
+  }
+  return trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+// Splits "red backpack, forklift, hard hat" into prompts, one per class
+export function parsePrompts(text: string): string[] {
+  const prompts = text.split(/[,\n]/).map(prompt => prompt.trim()).filter(Boolean);
+  return [...new Set(prompts)];
+}
@@ -0,0 +1,25 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import { calculateIoU } from '../bbox';
+
+// Greedy non-maximum suppression. Boxes only suppress each other when they
+// share a class, so overlapping objects of different classes both survive.
+export function classAwareNms<T extends DetectedObject>(
+  detections: T[],
+  iouThreshold: number,
+  maxDetections = Infinity
+): T[] {
+  const sorted = [...detections].sort((a, b) => b.score - a.score);
+  const kept: T[] = [];
+
+  for (const detection of sorted) {
+    if (kept.length >= maxDetections) break;
+    const suppressed = kept.some(k =>
+      k.class === detection.class && calculateIoU(k.bbox, detection.bbox) > iouThreshold
+    );
+    if (!suppressed) {
+      kept.push(detection);
+    }
+  }
+
+  return kept;
+}
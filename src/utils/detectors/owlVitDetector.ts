@@ -0,0 +1,107 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { RawImage, ZeroShotObjectDetectionOutput, ZeroShotObjectDetectionPipeline } from '@xenova/transformers';
+import type {
+  DetectOptions,
+  Detector,
+  DetectorInput,
+  DetectorRuntime,
+  OwlVitDetectorConfig
+} from '../../types/detector';
+import { createCanvas, getInputSize } from './canvas';
+import { classAwareNms } from './nms';
+
+const DEFAULT_MODEL = 'Xenova/owlvit-base-patch32';
+const DEFAULT_IOU_THRESHOLD = 0.3;
+// OWL-ViT scores run much lower than closed-set detectors
+const DEFAULT_MIN_SCORE = 0.1;
+const DEFAULT_MAX_DETECTIONS = 100;
+// The processor resizes to 768px anyway, so larger frames are shrunk first
+// to keep the pixel copy cheap
+const MAX_INPUT_SIZE = 768;
+
+type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// Zero-shot detection with OWL-ViT via @xenova/transformers. The prompts are
+// the detector's labels, so prompted classes flow through the tracker,
+// filters and log like any model's classes.
+export class OwlVitDetector implements Detector {
+  readonly kind = 'owl-vit' as const;
+  readonly labels: string[];
+
+  private canvas: OffscreenCanvas | HTMLCanvasElement;
+  private ctx: Canvas2D;
+
+  private constructor(
+    private detector: ZeroShotObjectDetectionPipeline,
+    private RawImageClass: typeof RawImage,
+    private iouThreshold: number,
+    prompts: string[]
+  ) {
+    this.labels = prompts;
+    this.canvas = createCanvas(MAX_INPUT_SIZE, MAX_INPUT_SIZE);
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('2D canvas context is not available for OWL-ViT preprocessing');
+    }
+    this.ctx = ctx as Canvas2D;
+  }
+
+  static async load(config: OwlVitDetectorConfig): Promise<OwlVitDetector> {
+    if (config.prompts.length === 0) {
+      throw new Error('Open-vocabulary detection needs at least one prompt');
+    }
+    const { pipeline, env, RawImage } = await import('@xenova/transformers');
+    // Models are fetched from the Hugging Face hub, not the app's own server
+    env.allowLocalModels = false;
+    const detector = await pipeline('zero-shot-object-detection', config.model || DEFAULT_MODEL, { quantized: true });
+    return new OwlVitDetector(detector, RawImage, config.iouThreshold ?? DEFAULT_IOU_THRESHOLD, config.prompts);
+  }
+
+  runtime(): DetectorRuntime {
+    return { backend: 'transformers-wasm' };
+  }
+
+  async detect(input: DetectorInput, options: DetectOptions = {}): Promise<DetectedObject[]> {
+    const [width, height] = getInputSize(input);
+    const scale = Math.min(1, MAX_INPUT_SIZE / Math.max(width, height));
+    const image = await this.preprocess(input, Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+
+    const output = await this.detector(image, this.labels, {
+      threshold: options.minScore ?? DEFAULT_MIN_SCORE
+    }) as ZeroShotObjectDetectionOutput[];
+
+    // Boxes come back in the pixels of the shrunk image
+    const candidates: DetectedObject[] = output.map(({ label, score, box }) => {
+      const left = Math.max(0, box.xmin / scale);
+      const top = Math.max(0, box.ymin / scale);
+      return {
+        bbox: [left, top, Math.min(width, box.xmax / scale) - left, Math.min(height, box.ymax / scale) - top],
+        class: label,
+        score
+      };
+    });
+
+    return classAwareNms(candidates, this.iouThreshold, options.maxDetections ?? DEFAULT_MAX_DETECTIONS);
+  }
+
+  dispose(): void {
+    void this.detector.dispose();
+  }
+
+  private async preprocess(input: DetectorInput, width: number, height: number): Promise<RawImage> {
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    const isImageData = 'data' in input;
+    const source = isImageData ? await createImageBitmap(input) : input;
+    this.ctx.drawImage(source, 0, 0, width, height);
+    if (isImageData) {
+      (source as ImageBitmap).close();
+    }
+
+    const { data } = this.ctx.getImageData(0, 0, width, height);
+    return new this.RawImageClass(data, width, height, 4);
+  }
+}
@@ -0,0 +1,135 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type {
+  DetectOptions,
+  Detector,
+  DetectorConfig,
+  DetectorInput,
+  DetectorRuntime,
+  InferenceOptions,
+  RemoteDetectResponse
+} from '../../types/detector';
+import { createCanvas, getInputSize } from './canvas';
+import cocoClasses from '../cocoClasses.json';
+
+// The part of a detector config the server needs. Browser-only settings
+// are left out, and local model files can't be sent at all.
+export function serverDetectorConfig(config: DetectorConfig): DetectorConfig {
+  if (config.kind === 'coco-ssd') {
+    if (config.modelUrl) {
+      throw new Error('Server inference only supports the built-in COCO-SSD models');
+    }
+    return { kind: 'coco-ssd', base: config.base };
+  }
+
+  if (config.kind === 'owl-vit') {
+    throw new Error('Server inference does not support open-vocabulary detection');
+  }
+
+  // Masks and keypoints aren't sent back by the route
+  if (config.task && config.task !== 'detect') {
+    throw new Error('Server inference only supports box detection models');
+  }
+  if (!config.modelUrl.startsWith('/models/')) {
+    throw new Error('Server inference needs a YOLO model served from /models/');
+  }
+  return {
+    kind: 'yolo-onnx',
+    modelUrl: config.modelUrl,
+    variant: config.variant,
+    labels: config.labels,
+    inputSize: config.inputSize,
+    iouThreshold: config.iouThreshold
+  };
+}
+
+async function encodeJpeg(canvas: OffscreenCanvas | HTMLCanvasElement, quality: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality });
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode frame')), 'image/jpeg', quality);
+  });
+}
+
+// Sends downscaled JPEG frames to the /api/detect route, which runs the same
+// detector in Node, and maps the returned boxes back to the frame size
+export class RemoteDetector implements Detector {
+  readonly kind: DetectorConfig['kind'];
+  readonly labels: string[];
+  readonly backend = 'remote' as const;
+
+  private canvas: OffscreenCanvas | HTMLCanvasElement | null = null;
+  private query: string;
+
+  constructor(config: DetectorConfig, private options: InferenceOptions) {
+    const serverConfig = serverDetectorConfig(config);
+    this.kind = config.kind;
+    this.labels = config.kind === 'yolo-onnx' && config.labels?.length ? config.labels : Object.keys(cocoClasses);
+    this.query = `config=${encodeURIComponent(JSON.stringify(serverConfig))}`;
+  }
+
+  runtime(): DetectorRuntime {
+    return { backend: 'server' };
+  }
+
+  async detect(input: DetectorInput, options: DetectOptions = {}): Promise<DetectedObject[]> {
+    const [width, height] = getInputSize(input);
+    const scale = Math.min(1, this.options.maxUploadSize / Math.max(width, height));
+    const uploadWidth = Math.max(1, Math.round(width * scale));
+    const uploadHeight = Math.max(1, Math.round(height * scale));
+
+    const canvas = this.canvas ?? (this.canvas = createCanvas(uploadWidth, uploadHeight));
+    if (canvas.width !== uploadWidth || canvas.height !== uploadHeight) {
+      canvas.width = uploadWidth;
+      canvas.height = uploadHeight;
+    }
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx) {
+      throw new Error('2D canvas context is not available for frame upload');
+    }
+
+    if ('data' in input) {
+      const bitmap = await createImageBitmap(input);
+      ctx.drawImage(bitmap, 0, 0, uploadWidth, uploadHeight);
+      bitmap.close();
+    } else {
+      ctx.drawImage(input, 0, 0, uploadWidth, uploadHeight);
+    }
+
+    const params = [
+      this.query,
+      options.minScore !== undefined ? `minScore=${options.minScore}` : '',
+      options.maxDetections !== undefined ? `maxDetections=${options.maxDetections}` : ''
+    ].filter(Boolean).join('&');
+
+    const response = await fetch(`${this.options.endpoint}?${params}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'image/jpeg',
+        ...(this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {})
+      },
+      body: await encodeJpeg(canvas, this.options.jpegQuality)
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Server inference failed: ${body?.error ?? response.status}`);
+    }
+
+    const result: RemoteDetectResponse = await response.json();
+    const scaleX = width / result.width;
+    const scaleY = height / result.height;
+    return result.detections.map(detection => ({
+      ...detection,
+      bbox: [
+        detection.bbox[0] * scaleX,
+        detection.bbox[1] * scaleY,
+        detection.bbox[2] * scaleX,
+        detection.bbox[3] * scaleY
+      ]
+    }));
+  }
+
+  dispose(): void {
+    this.canvas = null;
+  }
+}
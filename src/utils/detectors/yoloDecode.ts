@@ -0,0 +1,227 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { Detection, YoloTask } from '../../types/detector';
+import type { Keypoint } from '../../types/pose';
+import { clipBBox } from '../bbox';
+
+// Tensor decoding shared by the browser (onnxruntime-web) and server
+// (onnxruntime-node) YOLO detectors, which use different Tensor classes
+
+export interface TensorLike {
+  readonly data: unknown;
+  readonly dims: readonly number[];
+}
+
+// YOLOv8-seg adds this many mask coefficients per anchor, weighting the
+// model's mask prototypes
+const MASK_COEFFICIENTS = 32;
+// YOLOv8-pose adds x, y and visibility for each COCO keypoint
+const POSE_KEYPOINTS = 17;
+
+// A decoded box, with the mask coefficients of segmentation models until
+// its mask is built
+export interface YoloCandidate extends Detection {
+  coefficients?: Float32Array;
+}
+
+// How a frame was fitted into the square model input
+export interface LetterboxGeometry {
+  scale: number;
+  padX: number;
+  padY: number;
+  // Original frame size
+  width: number;
+  height: number;
+}
+
+export function letterboxGeometry(width: number, height: number, size: number): LetterboxGeometry {
+  const scale = Math.min(size / width, size / height);
+  return {
+    scale,
+    padX: (size - Math.round(width * scale)) / 2,
+    padY: (size - Math.round(height * scale)) / 2,
+    width,
+    height
+  };
+}
+
+function toDetection(
+  letterbox: LetterboxGeometry,
+  labels: string[],
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  classIndex: number,
+  score: number
+): DetectedObject {
+  const { scale, padX, padY, width, height } = letterbox;
+  const left = (x1 - padX) / scale;
+  const top = (y1 - padY) / scale;
+  const right = (x2 - padX) / scale;
+  const bottom = (y2 - padY) / scale;
+
+  return {
+    bbox: clipBBox([left, top, right - left, bottom - top], width, height),
+    class: labels[classIndex] || `class ${classIndex}`,
+    score
+  };
+}
+
+// YOLOv8 exports a single [1, 4 + classes, anchors] tensor of cx, cy, w, h
+// followed by per-class scores, then mask coefficients (segment) or
+// keypoints (pose). Some exports transpose it to [1, anchors, channels].
+export function decodeYoloV8(
+  output: TensorLike,
+  letterbox: LetterboxGeometry,
+  labels: string[],
+  minScore: number,
+  task: YoloTask = 'detect'
+): YoloCandidate[] {
+  const [, dimA, dimB] = output.dims;
+  const channelsFirst = dimA < dimB;
+  const channels = channelsFirst ? dimA : dimB;
+  const anchors = channelsFirst ? dimB : dimA;
+  const extraChannels = task === 'segment' ? MASK_COEFFICIENTS : task === 'pose' ? POSE_KEYPOINTS * 3 : 0;
+  const classChannels = channels - 4 - extraChannels;
+  if (classChannels < 1) {
+    throw new Error(`Model output has ${channels} channels, too few for a ${task} model`);
+  }
+  const numClasses = Math.min(classChannels, labels.length);
+  const data = output.data as Float32Array;
+  const at = (anchor: number, channel: number) =>
+    channelsFirst ? data[channel * anchors + anchor] : data[anchor * channels + channel];
+
+  const detections: YoloCandidate[] = [];
+  for (let a = 0; a < anchors; a++) {
+    let bestClass = -1;
+    let bestScore = minScore;
+    for (let c = 0; c < numClasses; c++) {
+      const score = at(a, 4 + c);
+      if (score >= bestScore) {
+        bestScore = score;
+        bestClass = c;
+      }
+    }
+    if (bestClass < 0) continue;
+
+    const cx = at(a, 0);
+    const cy = at(a, 1);
+    const w = at(a, 2);
+    const h = at(a, 3);
+    const detection: YoloCandidate = toDetection(
+      letterbox, labels, cx - w / 2, cy - h / 2, cx + w / 2, cy + h / 2, bestClass, bestScore
+    );
+
+    const extra = 4 + classChannels;
+    if (task === 'segment') {
+      detection.coefficients = new Float32Array(MASK_COEFFICIENTS);
+      for (let k = 0; k < MASK_COEFFICIENTS; k++) detection.coefficients[k] = at(a, extra + k);
+    } else if (task === 'pose') {
+      const { scale, padX, padY } = letterbox;
+      const keypoints: Keypoint[] = [];
+      for (let k = 0; k < POSE_KEYPOINTS; k++) {
+        keypoints.push({
+          x: (at(a, extra + k * 3) - padX) / scale,
+          y: (at(a, extra + k * 3 + 1) - padY) / scale,
+          score: at(a, extra + k * 3 + 2)
+        });
+      }
+      detection.keypoints = keypoints;
+    }
+    detections.push(detection);
+  }
+  return detections;
+}
+
+// Builds the masks of segmentation candidates kept after NMS from the
+// [1, coefficients, height, width] prototypes, which cover the model input.
+// Each mask is sampled over its box at prototype resolution.
+export function decodeYoloMasks(
+  candidates: YoloCandidate[],
+  prototypes: TensorLike,
+  letterbox: LetterboxGeometry,
+  inputSize: number
+): Detection[] {
+  const [, numCoefficients, protoHeight, protoWidth] = prototypes.dims;
+  const protoData = prototypes.data as Float32Array;
+  const protoArea = protoHeight * protoWidth;
+  const ratioX = protoWidth / inputSize;
+  const ratioY = protoHeight / inputSize;
+  const { scale, padX, padY } = letterbox;
+
+  return candidates.map(({ bbox, class: className, score, coefficients }) => {
+    const detection: Detection = { bbox, class: className, score };
+    if (!coefficients) return detection;
+
+    // The box in model input pixels
+    const left = bbox[0] * scale + padX;
+    const top = bbox[1] * scale + padY;
+    const boxWidth = bbox[2] * scale;
+    const boxHeight = bbox[3] * scale;
+    const width = Math.max(1, Math.round(boxWidth * ratioX));
+    const height = Math.max(1, Math.round(boxHeight * ratioY));
+    const data = new Uint8Array(width * height);
+
+    for (let row = 0; row < height; row++) {
+      const py = Math.min(protoHeight - 1, Math.max(0, Math.floor((top + (row + 0.5) / height * boxHeight) * ratioY)));
+      for (let column = 0; column < width; column++) {
+        const px = Math.min(protoWidth - 1, Math.max(0, Math.floor((left + (column + 0.5) / width * boxWidth) * ratioX)));
+        let value = 0;
+        for (let k = 0; k < numCoefficients; k++) {
+          value += coefficients[k] * protoData[k * protoArea + py * protoWidth + px];
+        }
+        // sigmoid(value) > 0.5
+        data[row * width + column] = value > 0 ? 1 : 0;
+      }
+    }
+
+    detection.mask = { width, height, data };
+    return detection;
+  });
+}
+
+// YOLO-NAS exports separate [1, anchors, 4] x1, y1, x2, y2 boxes and
+// [1, anchors, classes] scores
+export function decodeYoloNas(
+  outputs: TensorLike[],
+  letterbox: LetterboxGeometry,
+  labels: string[],
+  minScore: number
+): DetectedObject[] {
+  const boxes = outputs.find(t => t.dims[t.dims.length - 1] === 4);
+  const scores = outputs.find(t => t !== boxes);
+  if (!boxes || !scores) {
+    throw new Error('YOLO-NAS model must output separate box and score tensors');
+  }
+
+  const anchors = boxes.dims[1];
+  const numClasses = scores.dims[2];
+  const boxData = boxes.data as Float32Array;
+  const scoreData = scores.data as Float32Array;
+
+  const detections: DetectedObject[] = [];
+  for (let a = 0; a < anchors; a++) {
+    let bestClass = -1;
+    let bestScore = minScore;
+    for (let c = 0; c < numClasses; c++) {
+      const score = scoreData[a * numClasses + c];
+      if (score >= bestScore) {
+        bestScore = score;
+        bestClass = c;
+      }
+    }
+    if (bestClass < 0) continue;
+
+    detections.push(toDetection(
+      letterbox,
+      labels,
+      boxData[a * 4],
+      boxData[a * 4 + 1],
+      boxData[a * 4 + 2],
+      boxData[a * 4 + 3],
+      bestClass,
+      bestScore
+    ));
+  }
+  return detections;
+}
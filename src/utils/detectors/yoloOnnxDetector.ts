@@ -0,0 +1,141 @@
+import * as ort from 'onnxruntime-web';
+import type {
+  DetectOptions,
+  Detection,
+  Detector,
+  DetectorInput,
+  DetectorRuntime,
+  YoloOnnxDetectorConfig,
+  YoloTask,
+  YoloVariant
+} from '../../types/detector';
+import { createCanvas, getInputSize } from './canvas';
+import { classAwareNms } from './nms';
+import { decodeYoloMasks, decodeYoloNas, decodeYoloV8, letterboxGeometry } from './yoloDecode';
+import type { LetterboxGeometry } from './yoloDecode';
+import cocoClasses from '../cocoClasses.json';
+
+const DEFAULT_INPUT_SIZE = 640;
+const DEFAULT_IOU_THRESHOLD = 0.45;
+const DEFAULT_MIN_SCORE = 0.25;
+const DEFAULT_MAX_DETECTIONS = 100;
+const LETTERBOX_FILL = 'rgb(114, 114, 114)';
+
+type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+interface Letterbox extends LetterboxGeometry {
+  tensor: ort.Tensor;
+}
+
+export class YoloOnnxDetector implements Detector {
+  readonly kind = 'yolo-onnx' as const;
+  readonly labels: string[];
+
+  private canvas: OffscreenCanvas | HTMLCanvasElement;
+  private ctx: Canvas2D;
+
+  private constructor(
+    private session: ort.InferenceSession,
+    private variant: YoloVariant,
+    private task: YoloTask,
+    private inputSize: number,
+    private iouThreshold: number,
+    labels: string[]
+  ) {
+    this.labels = labels;
+    this.canvas = createCanvas(inputSize, inputSize);
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('2D canvas context is not available for YOLO preprocessing');
+    }
+    this.ctx = ctx as Canvas2D;
+  }
+
+  static async load(config: YoloOnnxDetectorConfig): Promise<YoloOnnxDetector> {
+    const task = config.task ?? 'detect';
+    if (config.variant === 'yolo-nas' && task !== 'detect') {
+      throw new Error('Segmentation and pose need YOLOv8 models');
+    }
+    ort.env.wasm.wasmPaths = config.wasmPaths ||
+      `https://cdn.jsdelivr.net/npm/onnxruntime-web@${ort.env.versions.web}/dist/`;
+
+    const session = await ort.InferenceSession.create(config.modelUrl, {
+      executionProviders: ['wasm'],
+      graphOptimizationLevel: 'all'
+    });
+
+    return new YoloOnnxDetector(
+      session,
+      config.variant,
+      task,
+      config.inputSize || DEFAULT_INPUT_SIZE,
+      config.iouThreshold ?? DEFAULT_IOU_THRESHOLD,
+      config.labels && config.labels.length > 0 ? config.labels : Object.keys(cocoClasses)
+    );
+  }
+
+  runtime(): DetectorRuntime {
+    return { backend: 'onnxruntime-wasm' };
+  }
+
+  async detect(input: DetectorInput, options: DetectOptions = {}): Promise<Detection[]> {
+    const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    const maxDetections = options.maxDetections ?? DEFAULT_MAX_DETECTIONS;
+
+    const letterbox = await this.preprocess(input);
+    const outputs = await this.session.run({ [this.session.inputNames[0]]: letterbox.tensor });
+
+    const candidates = this.variant === 'yolo-nas'
+      ? decodeYoloNas(this.session.outputNames.map(name => outputs[name]), letterbox, this.labels, minScore)
+      : decodeYoloV8(outputs[this.session.outputNames[0]], letterbox, this.labels, minScore, this.task);
+    const kept = classAwareNms(candidates, this.iouThreshold, maxDetections);
+    if (this.task !== 'segment') return kept;
+
+    // Masks are only built for the boxes that survive NMS
+    const prototypes = this.session.outputNames.map(name => outputs[name]).find(output => output.dims.length === 4);
+    if (!prototypes) {
+      throw new Error('Segmentation model must output mask prototypes');
+    }
+    return decodeYoloMasks(kept, prototypes, letterbox, this.inputSize);
+  }
+
+  dispose(): void {
+    this.session.release();
+  }
+
+  // Resize preserving aspect ratio, pad to a square and convert to a
+  // normalised CHW float tensor
+  private async preprocess(input: DetectorInput): Promise<Letterbox> {
+    const size = this.inputSize;
+    const [width, height] = getInputSize(input);
+    const geometry = letterboxGeometry(width, height, size);
+    const { scale, padX, padY } = geometry;
+    const scaledWidth = Math.round(width * scale);
+    const scaledHeight = Math.round(height * scale);
+
+    const isImageData = 'data' in input;
+    const source = isImageData ? await createImageBitmap(input) : input;
+
+    this.ctx.fillStyle = LETTERBOX_FILL;
+    this.ctx.fillRect(0, 0, size, size);
+    this.ctx.drawImage(source, padX, padY, scaledWidth, scaledHeight);
+
+    if (isImageData) {
+      (source as ImageBitmap).close();
+    }
+
+    const { data } = this.ctx.getImageData(0, 0, size, size);
+    const area = size * size;
+    const chw = new Float32Array(3 * area);
+    for (let i = 0; i < area; i++) {
+      chw[i] = data[i * 4] / 255;
+      chw[area + i] = data[i * 4 + 1] / 255;
+      chw[2 * area + i] = data[i * 4 + 2] / 255;
+    }
+
+    return {
+      ...geometry,
+      tensor: new ort.Tensor('float32', chw, [1, 3, size, size])
+    };
+  }
+}
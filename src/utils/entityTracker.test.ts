@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { EntityTracker } from './entityTracker';
+import { normalize } from './appearanceEmbedder';
+import type { AppearanceEmbedder, EmbeddingSource } from './appearanceEmbedder';
+import type { Detection } from '../types/detector';
+import type { TrackEventType } from '../types/entities';
+
+const person = (x = 0): Detection => ({ class: 'person', bbox: [x, 0, 50, 100], score: 0.9 });
+
+// Every event of the given types as [type, frame], in emission order
+const recordEvents = (tracker: EntityTracker, types: TrackEventType[]) => {
+  const events: Array<[TrackEventType, number]> = [];
+  types.forEach(type => tracker.on(type, ({ frame }) => events.push([type, frame])));
+  return events;
+};
+
+describe('EntityTracker events', () => {
+  it('enters on the first sighting and confirms once seen often enough', async () => {
+    const tracker = new EntityTracker({ consecutiveRequirement: 3 });
+    const events = recordEvents(tracker, ['enter', 'confirm']);
+
+    for (let i = 0; i < 3; i++) await tracker.update([person()], 0, undefined, i);
+
+    expect(events).toEqual([['enter', 1], ['confirm', 3]]);
+  });
+
+  it('enters without confirming a candidate that disappears', async () => {
+    const tracker = new EntityTracker({ consecutiveRequirement: 3 });
+    const events = recordEvents(tracker, ['enter', 'confirm']);
+
+    await tracker.update([person()], 0, undefined, 0);
+    await tracker.update([], 0, undefined, 1);
+
+    expect(events).toEqual([['enter', 1]]);
+  });
+
+  it('restarts ids after a reset', async () => {
+    const tracker = new EntityTracker({ consecutiveRequirement: 2 });
+    await tracker.update([person()], 0, undefined, 0);
+    const [first] = await tracker.update([person()], 0, undefined, 1);
+    expect(first.id).toBe(1);
+
+    tracker.reset();
+    await tracker.update([person(200)], 0, undefined, 2);
+    const [second] = await tracker.update([person(200)], 0, undefined, 3);
+    expect(second.id).toBe(1);
+  });
+});
+
+// Every crop looks the same, so any lost person is re-identified
+const sameLooks: AppearanceEmbedder = {
+  dim: 384,
+  embed: async (_frame, boxes) => boxes.map(() => normalize(new Float32Array(384).fill(1)))
+};
+const frame = {} as EmbeddingSource;
+
+describe('EntityTracker exits with re-identification', () => {
+  const options = { consecutiveRequirement: 2, maxInactiveFrames: 3, reidMaxFrames: 5 };
+
+  // Seen in frames 1 and 2, then gone
+  const trackThenLose = async (tracker: EntityTracker, frames: number) => {
+    for (let i = 1; i <= frames; i++) {
+      await tracker.update(i <= 2 ? [person()] : [], 0, frame, i);
+    }
+  };
+
+  it('exits once the track expires when it has no appearance to match', async () => {
+    const tracker = new EntityTracker(options);
+    const events = recordEvents(tracker, ['lost', 'exit']);
+
+    await trackThenLose(tracker, 12);
+
+    expect(events).toEqual([['lost', 3], ['exit', 5]]);
+  });
+
+  it('holds the exit of a re-identifiable track until the window has passed', async () => {
+    const tracker = new EntityTracker(options);
+    tracker.setEmbedder(sameLooks);
+    const events = recordEvents(tracker, ['lost', 'exit']);
+
+    await trackThenLose(tracker, 12);
+
+    // Expired at frame 5, re-identifiable for 5 more frames
+    expect(events).toEqual([['lost', 3], ['exit', 10]]);
+  });
+
+  it('never exits a track re-identified within the window', async () => {
+    const tracker = new EntityTracker(options);
+    tracker.setEmbedder(sameLooks);
+    const events = recordEvents(tracker, ['lost', 'reacquire', 'exit']);
+
+    await trackThenLose(tracker, 6);
+    await tracker.update([person(200)], 0, frame, 7);
+    const [entity] = await tracker.update([person(200)], 0, frame, 8);
+
+    expect(entity.id).toBe(1);
+    expect(events).toEqual([['lost', 3], ['reacquire', 8]]);
+  });
+});
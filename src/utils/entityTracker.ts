@@ -1,103 +1,394 @@
-import type { DetectedObject } from '@tensorflow-models/coco-ssd';
-import type { TrackedEntity, CandidateEntity } from '../types/entities';
+import type { Detection } from '../types/detector';
+import type {
+  TrackedEntity,
+  CandidateEntity,
+  LostEntity,
+  EntityTrackerOptions,
+  TrackEvent,
+  TrackEventType,
+  TrackerEventMap
+} from '../types/entities';
+import { cosineSimilarity, normalize } from './appearanceEmbedder';
+import type { AppearanceEmbedder, EmbeddingSource } from './appearanceEmbedder';
+import { calculateIoU } from './bbox';
+import type { BBox } from './bbox';
+import { maskIoU } from './masks';
+import { translateKeypoints } from './pose';
+import { BoxKalmanFilter } from './kalmanFilter';
+import { solveAssignment } from './hungarian';
+import { TypedEventEmitter } from './typedEventEmitter';
+import type { Listener } from './typedEventEmitter';
+
+export const DEFAULT_TRACKER_OPTIONS: EntityTrackerOptions = {
+  iouThreshold: 0.3,
+  consecutiveRequirement: 3,
+  maxInactiveFrames: 30,
+  maxPredictionFrames: 10,
+  maxCenterDistance: 0.5,
+  reidThreshold: 0.8,
+  reidMaxFrames: 300
+};
 
 export class EntityTracker {
   private entities: TrackedEntity[] = [];
   private candidates: CandidateEntity[] = [];
+  private lostEntities: LostEntity[] = [];
+  private filters = new Map<number, BoxKalmanFilter>();
   private nextId = 1;
-  private iouThreshold = 0.3;
-  private consecutiveRequirement = 3;
+  private options: EntityTrackerOptions;
   private embeddingDim = 384;
-  private maxInactiveFrames = 30;
   private frameCount = 0;
+  private embedder: AppearanceEmbedder | null = null;
+  private embeddingRefreshFrames = 10;
+  private embeddingMomentum = 0.9;
+  private events = new TypedEventEmitter<TrackerEventMap>();
+  private pendingEvents: TrackEvent[] = [];
+
+  constructor(options: Partial<EntityTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+  }
+
+  // Takes effect from the next update; existing tracks are kept
+  configure(options: Partial<EntityTrackerOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): EntityTrackerOptions {
+    return { ...this.options };
+  }
+
+  on<K extends TrackEventType>(event: K, listener: Listener<TrackerEventMap[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  onEnter(listener: Listener<TrackerEventMap['enter']>): () => void {
+    return this.on('enter', listener);
+  }
+
+  onConfirm(listener: Listener<TrackerEventMap['confirm']>): () => void {
+    return this.on('confirm', listener);
+  }
+
+  onLost(listener: Listener<TrackerEventMap['lost']>): () => void {
+    return this.on('lost', listener);
+  }
 
-  async update(detections: DetectedObject[], threshold: number, video: HTMLVideoElement, canvas: HTMLCanvasElement): Promise<TrackedEntity[]> {
+  onReacquire(listener: Listener<TrackerEventMap['reacquire']>): () => void {
+    return this.on('reacquire', listener);
+  }
+
+  onExit(listener: Listener<TrackerEventMap['exit']>): () => void {
+    return this.on('exit', listener);
+  }
+
+  setEmbedder(embedder: AppearanceEmbedder | null): void {
+    if (embedder && embedder.dim !== this.embeddingDim) {
+      throw new Error(`Embedder produces ${embedder.dim}-d vectors, tracker expects ${this.embeddingDim}`);
+    }
+    this.embedder = embedder;
+  }
+
+  async update(
+    detections: Detection[],
+    threshold: number,
+    frame?: EmbeddingSource,
+    timestamp = Date.now()
+  ): Promise<TrackedEntity[]> {
     this.frameCount++;
     const validDetections = detections.filter(d => (d.score || 0) > threshold);
-    
-    // Process existing entities first
+
+    // Process existing entities first. Expired entities with an appearance
+    // embedding are kept aside so they can be re-identified later, and only
+    // exit once that window has passed.
     this.entities = this.entities.filter(entity => {
       const framesSinceLastSeen = this.frameCount - entity.lastSeenFrame;
-      return framesSinceLastSeen < this.maxInactiveFrames;
+      if (framesSinceLastSeen < this.options.maxInactiveFrames) return true;
+      if (entity.embedding) {
+        this.lostEntities.push({ entity, lostAtFrame: this.frameCount });
+      } else {
+        this.queueEvent('exit', entity, timestamp);
+      }
+      this.filters.delete(entity.id);
+      return false;
     });
+    this.lostEntities = this.lostEntities.filter(lost => {
+      if (this.frameCount - lost.lostAtFrame < this.options.reidMaxFrames) return true;
+      this.queueEvent('exit', lost.entity, timestamp);
+      return false;
+    });
+
+    // Predict where every track should be in this frame
+    const predictions = this.entities.map(entity => this.filters.get(entity.id)!.predict());
 
-    // Match detections with existing entities
-    const matchedDetections = new Set<DetectedObject>();
-    this.entities.forEach(entity => {
-      const bestMatch = validDetections
-        .filter(d => !matchedDetections.has(d) && d.class === entity.class) // Match same class objects
-        .map(d => ({
-          detection: d,
-          iou: this.calculateIoU(entity.bbox, d.bbox)
-        }))
-        .filter(match => match.iou > this.iouThreshold)
-        .sort((a, b) => b.iou - a.iou)[0];
-
-      if (bestMatch) {
-        matchedDetections.add(bestMatch.detection);
-        entity.bbox = bestMatch.detection.bbox;
-        entity.score = bestMatch.detection.score || 0;
-        entity.lastSeenFrame = this.frameCount;
+    // Match detections with existing entities. The assignment is globally
+    // optimal, so an early track can't steal a later track's best match.
+    const cost = this.entities.map((entity, i) =>
+      validDetections.map(d => this.matchCost(entity, predictions[i], d))
+    );
+    const matchedDetections = new Set<Detection>();
+    const matchedEntities: TrackedEntity[] = [];
+    solveAssignment(cost).forEach(([entityIndex, detectionIndex]) => {
+      const entity = this.entities[entityIndex];
+      const detection = validDetections[detectionIndex];
+      const filter = this.filters.get(entity.id)!;
+      const wasLost = entity.lastSeenFrame < this.frameCount - 1;
+
+      filter.update(detection.bbox);
+      matchedDetections.add(detection);
+      entity.bbox = detection.bbox;
+      entity.score = detection.score || 0;
+      entity.mask = detection.mask;
+      entity.keypoints = detection.keypoints;
+      entity.lastSeenFrame = this.frameCount;
+      entity.lastSeen = timestamp;
+      entity.velocity = filter.velocity;
+      entity.isPredicted = false;
+      matchedEntities.push(entity);
+      if (wasLost) {
+        this.queueEvent('reacquire', entity, timestamp);
+      }
+    });
+
+    // Coast briefly unmatched tracks along their predicted path
+    this.entities.forEach((entity, i) => {
+      if (entity.lastSeenFrame === this.frameCount) return;
+      if (entity.lastSeenFrame === this.frameCount - 1) {
+        this.queueEvent('lost', entity, timestamp);
+      }
+      if (this.frameCount - entity.lastSeenFrame <= this.options.maxPredictionFrames) {
+        if (entity.keypoints) {
+          entity.keypoints = translateKeypoints(
+            entity.keypoints,
+            predictions[i][0] - entity.bbox[0],
+            predictions[i][1] - entity.bbox[1]
+          );
+        }
+        entity.bbox = predictions[i];
+        entity.velocity = this.filters.get(entity.id)!.velocity;
+        entity.isPredicted = true;
       }
     });
 
     // Create candidates for unmatched detections
+    const promotions: CandidateEntity[] = [];
     validDetections
       .filter(d => !matchedDetections.has(d))
       .forEach(detection => {
         const existingCandidate = this.candidates.find(
-          c => c.class === detection.class && 
-          this.calculateIoU(c.bbox, detection.bbox) > this.iouThreshold
+          c => c.class === detection.class &&
+          calculateIoU(c.bbox, detection.bbox) > this.options.iouThreshold
         );
 
         if (existingCandidate) {
           existingCandidate.consecutiveFrames++;
           existingCandidate.bbox = detection.bbox;
           existingCandidate.score = detection.score || 0;
-          
-          if (existingCandidate.consecutiveFrames >= this.consecutiveRequirement) {
-            this.entities.push({
-              id: this.nextId++,
-              class: detection.class,
-              bbox: detection.bbox,
-              score: detection.score || 0,
-              lastSeenFrame: this.frameCount
-            });
+          existingCandidate.mask = detection.mask;
+          existingCandidate.keypoints = detection.keypoints;
+
+          if (existingCandidate.consecutiveFrames >= this.options.consecutiveRequirement) {
+            promotions.push(existingCandidate);
             this.candidates = this.candidates.filter(c => c !== existingCandidate);
           }
         } else {
-          this.candidates.push({
+          const candidate: CandidateEntity = {
             class: detection.class,
             bbox: detection.bbox,
             score: detection.score || 0,
-            consecutiveFrames: 1
-          });
+            mask: detection.mask,
+            keypoints: detection.keypoints,
+            consecutiveFrames: 1,
+            firstSeen: timestamp
+          };
+          this.candidates.push(candidate);
+          this.queueEvent('enter', candidate, timestamp);
         }
       });
 
+    const embeddings = await this.embed(frame, promotions, matchedEntities);
+
+    promotions.forEach((candidate, i) => {
+      const embedding = embeddings[i];
+      const reidentified = embedding ? this.reidentify(candidate, embedding) : null;
+
+      if (reidentified && embedding) {
+        reidentified.bbox = candidate.bbox;
+        reidentified.score = candidate.score;
+        reidentified.mask = candidate.mask;
+        reidentified.keypoints = candidate.keypoints;
+        reidentified.lastSeenFrame = this.frameCount;
+        reidentified.lastSeen = timestamp;
+        reidentified.embedding = this.blendEmbedding(reidentified.embedding, embedding);
+        reidentified.embeddingFrame = this.frameCount;
+        reidentified.velocity = [0, 0];
+        reidentified.isPredicted = false;
+        this.filters.set(reidentified.id, new BoxKalmanFilter(candidate.bbox));
+        this.queueEvent('reacquire', reidentified, timestamp);
+        return;
+      }
+
+      const id = this.nextId++;
+      const entity: TrackedEntity = {
+        id,
+        class: candidate.class,
+        bbox: candidate.bbox,
+        score: candidate.score,
+        mask: candidate.mask,
+        keypoints: candidate.keypoints,
+        lastSeenFrame: this.frameCount,
+        velocity: [0, 0],
+        isPredicted: false,
+        firstSeen: candidate.firstSeen,
+        lastSeen: timestamp,
+        embedding,
+        embeddingFrame: embedding ? this.frameCount : undefined
+      };
+      this.filters.set(id, new BoxKalmanFilter(candidate.bbox));
+      this.entities.push(entity);
+      this.queueEvent('confirm', entity, timestamp);
+    });
+
     // Clean up old candidates
     this.candidates = this.candidates.filter(candidate => {
       const matchingDetection = validDetections.find(
-        d => d.class === candidate.class && 
-        this.calculateIoU(candidate.bbox, d.bbox) > this.iouThreshold
+        d => d.class === candidate.class &&
+        calculateIoU(candidate.bbox, d.bbox) > this.options.iouThreshold
       );
       return matchingDetection !== undefined;
     });
 
+    this.flushEvents();
     return this.entities;
   }
 
-  private calculateIoU(b1: [number, number, number, number], b2: [number, number, number, number]): number {
-    const [x1, y1, w1, h1] = b1;
-    const [x2, y2, w2, h2] = b2;
+  // Events are queued during an update and emitted once it completes, so
+  // listeners always see the tracker in a consistent state
+  private queueEvent<K extends TrackEventType>(
+    type: K,
+    entity: TrackerEventMap[K]['entity'],
+    timestamp: number
+  ): void {
+    const lastSeen = 'lastSeen' in entity ? entity.lastSeen : timestamp;
+    this.pendingEvents.push({
+      type,
+      entity: { ...entity },
+      timestamp,
+      frame: this.frameCount,
+      dwellMs: lastSeen - entity.firstSeen
+    } as TrackEvent);
+  }
+
+  private flushEvents(): void {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    events.forEach(({ type, ...payload }) => {
+      this.events.emit(type, payload as TrackerEventMap[typeof type]);
+    });
+  }
+
+  reset(): void {
+    this.entities = [];
+    this.candidates = [];
+    this.lostEntities = [];
+    this.filters.clear();
+    this.pendingEvents = [];
+    this.frameCount = 0;
+    this.nextId = 1;
+  }
+
+  // Overlapping pairs cost 1 - IoU. Fast movers whose predicted box no
+  // longer overlaps fall back to a centre-distance cost above 1, so any
+  // overlap is preferred. Different classes never match. When both sides
+  // have masks, the track's last mask is moved to its predicted box and the
+  // masks are compared instead, which separates objects whose boxes overlap.
+  private matchCost(entity: TrackedEntity, predicted: BBox, detection: Detection): number {
+    if (entity.class !== detection.class) return Infinity;
 
-    const intersectionX = Math.max(0, Math.min(x1 + w1, x2 + w2) - Math.max(x1, x2));
-    const intersectionY = Math.max(0, Math.min(y1 + h1, y2 + h2) - Math.max(y1, y2));
-    const interArea = intersectionX * intersectionY;
-    const boxAArea = w1 * h1;
-    const boxBArea = w2 * h2;
+    const iou = entity.mask && detection.mask
+      ? maskIoU({ bbox: predicted, mask: entity.mask }, { bbox: detection.bbox, mask: detection.mask })
+      : calculateIoU(predicted, detection.bbox);
+    if (iou > this.options.iouThreshold) return 1 - iou;
+
+    const [px, py, pw, ph] = predicted;
+    const [dx, dy, dw, dh] = detection.bbox;
+    const distance = Math.hypot((px + pw / 2) - (dx + dw / 2), (py + ph / 2) - (dy + dh / 2));
+    const relativeDistance = distance / Math.hypot(pw, ph);
+    return relativeDistance < this.options.maxCenterDistance ? 1 + relativeDistance : Infinity;
+  }
+
+  // Embed crops of candidates about to be promoted, plus matched entities
+  // whose stored appearance is getting stale, in one batch
+  private async embed(
+    frame: EmbeddingSource | undefined,
+    promotions: CandidateEntity[],
+    matchedEntities: TrackedEntity[]
+  ): Promise<(Float32Array | undefined)[]> {
+    if (!this.embedder || !frame) {
+      return [];
+    }
+
+    const stale = matchedEntities.filter(entity =>
+      entity.embeddingFrame === undefined ||
+      this.frameCount - entity.embeddingFrame >= this.embeddingRefreshFrames
+    );
+    if (promotions.length === 0 && stale.length === 0) {
+      return [];
+    }
+
+    let vectors: Float32Array[];
+    try {
+      vectors = await this.embedder.embed(frame, [
+        ...promotions.map(c => c.bbox),
+        ...stale.map(e => e.bbox)
+      ]);
+    } catch (error) {
+      console.error('Appearance embedding failed:', error);
+      return [];
+    }
+
+    stale.forEach((entity, i) => {
+      entity.embedding = this.blendEmbedding(entity.embedding, vectors[promotions.length + i]);
+      entity.embeddingFrame = this.frameCount;
+    });
+
+    return vectors.slice(0, promotions.length);
+  }
+
+  // Look for a same-class track that is either lost or currently unmatched
+  // and looks like the new candidate
+  private reidentify(candidate: CandidateEntity, embedding: Float32Array): TrackedEntity | null {
+    const pool: TrackedEntity[] = [
+      ...this.entities.filter(e => e.lastSeenFrame < this.frameCount),
+      ...this.lostEntities.map(lost => lost.entity)
+    ];
+
+    let best: TrackedEntity | null = null;
+    let bestSimilarity = this.options.reidThreshold;
+    for (const entity of pool) {
+      if (entity.class !== candidate.class || !entity.embedding) continue;
+      const similarity = cosineSimilarity(entity.embedding, embedding);
+      if (similarity >= bestSimilarity) {
+        best = entity;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (!best) return null;
+
+    // Bring a lost track back under its original id
+    const lostIndex = this.lostEntities.findIndex(lost => lost.entity === best);
+    if (lostIndex >= 0) {
+      this.lostEntities.splice(lostIndex, 1);
+      this.entities.push(best);
+    }
+    return best;
+  }
 
-    return interArea / (boxAArea + boxBArea - interArea);
+  // Exponential moving average keeps the descriptor stable against
+  // single-frame blur or partial occlusion
+  private blendEmbedding(current: Float32Array | undefined, next: Float32Array): Float32Array {
+    if (!current) return next;
+    return normalize(current.map((v, i) => this.embeddingMomentum * v + (1 - this.embeddingMomentum) * next[i]));
   }
 
   getAllEntities(): TrackedEntity[] {
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateSequence } from './index';
+import { crossingSequence, flickerSequence, occlusionSequence } from './fixtures';
+
+// Bounds sit a little below the current scores, so a tracker change that
+// costs identities or noticeably more accuracy fails here
+
+describe('tracker fixtures', () => {
+  it('keeps identities through a 20-frame occlusion', async () => {
+    const { metrics } = await evaluateSequence(occlusionSequence());
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.trackerIds).toBe(2);
+    expect(metrics.falsePositives).toBe(0);
+    expect(metrics.mota).toBeGreaterThanOrEqual(0.9);
+    expect(metrics.idf1).toBeGreaterThanOrEqual(0.93);
+    expect(metrics.hota).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('keeps identities when two paths cross', async () => {
+    const { metrics } = await evaluateSequence(crossingSequence());
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.trackerIds).toBe(2);
+    expect(metrics.mota).toBeGreaterThanOrEqual(0.95);
+    expect(metrics.idf1).toBeGreaterThanOrEqual(0.97);
+    expect(metrics.hota).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('holds one track through flicker without confirming clutter', async () => {
+    const { metrics } = await evaluateSequence(flickerSequence());
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.trackerIds).toBe(1);
+    expect(metrics.falsePositives).toBe(0);
+    expect(metrics.mota).toBeGreaterThanOrEqual(0.7);
+    expect(metrics.idf1).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('bridges flicker gaps with predicted boxes', async () => {
+    // Scored as displayed, with coasting predictions filling missed frames
+    const { metrics } = await evaluateSequence(flickerSequence(), { includePredicted: true });
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.fragmentations).toBeLessThanOrEqual(1);
+    expect(metrics.mota).toBeGreaterThanOrEqual(0.9);
+    expect(metrics.idf1).toBeGreaterThanOrEqual(0.95);
+  });
+});
@@ -0,0 +1,168 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { EvaluationFrame, EvaluationSequence, TrackBox } from '../../types/evaluation';
+import type { BBox } from '../bbox';
+
+// Synthetic sequences for the failure modes trackers most often get wrong.
+// Each object moves in a straight line; detections are its true box plus
+// jitter, with gaps and clutter depending on the scenario. A seeded RNG
+// keeps every run identical.
+
+const FPS = 30;
+const FRAME_WIDTH = 640;
+const FRAME_HEIGHT = 480;
+
+interface SyntheticObject {
+  id: number;
+  class: string;
+  start: [number, number];
+  velocity: [number, number];
+  size: [number, number];
+  firstFrame: number;
+  lastFrame: number;
+  // Frames in which the detector misses the object
+  isMissed?: (frame: number) => boolean;
+}
+
+// Mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function boxAt(object: SyntheticObject, frame: number): BBox {
+  const elapsed = frame - object.firstFrame;
+  return [
+    object.start[0] + object.velocity[0] * elapsed,
+    object.start[1] + object.velocity[1] * elapsed,
+    object.size[0],
+    object.size[1]
+  ];
+}
+
+function buildSequence(
+  name: string,
+  frameCount: number,
+  objects: SyntheticObject[],
+  seed: number,
+  clutter: (frame: number, random: () => number) => DetectedObject[] = () => []
+): EvaluationSequence {
+  const random = createRandom(seed);
+  const jitter = (scale: number) => (random() - 0.5) * 2 * scale;
+
+  const frames: EvaluationFrame[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    const groundTruth: TrackBox[] = [];
+    const detections: DetectedObject[] = [];
+
+    objects.forEach(object => {
+      if (frame < object.firstFrame || frame > object.lastFrame) return;
+      const bbox = boxAt(object, frame);
+      groundTruth.push({ id: object.id, bbox, class: object.class });
+      if (object.isMissed?.(frame)) return;
+
+      const [x, y, width, height] = bbox;
+      detections.push({
+        bbox: [x + jitter(3), y + jitter(3), width + jitter(4), height + jitter(4)],
+        class: object.class,
+        score: 0.7 + random() * 0.25
+      });
+    });
+
+    frames.push({ detections: [...detections, ...clutter(frame, random)], groundTruth });
+  }
+
+  return { name, fps: FPS, frames };
+}
+
+// A person walks behind a pillar and is undetected for 20 frames, while a
+// second person keeps walking nearby
+export function occlusionSequence(): EvaluationSequence {
+  return buildSequence('occlusion', 150, [
+    {
+      id: 1,
+      class: 'person',
+      start: [40, 200],
+      velocity: [3.5, 0],
+      size: [60, 150],
+      firstFrame: 0,
+      lastFrame: 149,
+      isMissed: frame => frame >= 60 && frame < 80
+    },
+    {
+      id: 2,
+      class: 'person',
+      start: [500, 80],
+      velocity: [-2, 0.5],
+      size: [50, 130],
+      firstFrame: 10,
+      lastFrame: 149
+    }
+  ], 1);
+}
+
+// Two people walk towards each other along the same line and pass, so
+// their boxes overlap heavily for several frames
+export function crossingSequence(): EvaluationSequence {
+  return buildSequence('crossing', 120, [
+    {
+      id: 1,
+      class: 'person',
+      start: [20, 180],
+      velocity: [5, 0.2],
+      size: [60, 150],
+      firstFrame: 0,
+      lastFrame: 119
+    },
+    {
+      id: 2,
+      class: 'person',
+      start: [FRAME_WIDTH - 80, 190],
+      velocity: [-5, 0],
+      size: [60, 150],
+      firstFrame: 0,
+      lastFrame: 119
+    }
+  ], 2);
+}
+
+// A car whose detection flickers on and off, plus short-lived false
+// positives scattered over the frame
+export function flickerSequence(): EvaluationSequence {
+  const missRandom = createRandom(3);
+  const missed = new Set<number>();
+  for (let frame = 0; frame < 120; frame++) {
+    if (missRandom() < 0.3) missed.add(frame);
+  }
+
+  return buildSequence('flicker', 120, [
+    {
+      id: 1,
+      class: 'car',
+      start: [30, 260],
+      velocity: [4, -0.5],
+      size: [140, 80],
+      firstFrame: 0,
+      lastFrame: 119,
+      isMissed: frame => missed.has(frame)
+    }
+  ], 4, (frame, random) => {
+    if (random() > 0.15) return [];
+    return [{
+      bbox: [random() * (FRAME_WIDTH - 60), random() * (FRAME_HEIGHT - 60), 40 + random() * 20, 40 + random() * 20],
+      class: 'car',
+      score: 0.55 + random() * 0.3
+    }];
+  });
+}
+
+export const EVALUATION_FIXTURES: Array<() => EvaluationSequence> = [
+  occlusionSequence,
+  crossingSequence,
+  flickerSequence
+];
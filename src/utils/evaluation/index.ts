@@ -0,0 +1,92 @@
+import type {
+  EvaluationOptions,
+  EvaluationResult,
+  EvaluationSequence,
+  TrackBox
+} from '../../types/evaluation';
+import { EntityTracker } from '../entityTracker';
+import { parseMotDetections, parseMotGroundTruth } from '../trackExport';
+import { evaluateTracks } from './metrics';
+
+export { evaluateTracks } from './metrics';
+
+// Feeds a sequence's detections through a fresh tracker, frame by frame,
+// and returns its output per frame. No browser APIs are involved, so this
+// runs under Node.
+export async function replayTracker(
+  sequence: EvaluationSequence,
+  options: EvaluationOptions = {}
+): Promise<TrackBox[][]> {
+  const tracker = new EntityTracker(options.tracker);
+  const threshold = options.threshold ?? 0.5;
+  const output: TrackBox[][] = [];
+
+  for (let frame = 0; frame < sequence.frames.length; frame++) {
+    const timestamp = Math.round(frame * 1000 / sequence.fps);
+    const entities = await tracker.update(sequence.frames[frame].detections, threshold, undefined, timestamp);
+    output.push(entities
+      .filter(entity => options.includePredicted || !entity.isPredicted)
+      .map(entity => ({ id: entity.id, bbox: entity.bbox, class: entity.class })));
+  }
+
+  return output;
+}
+
+export async function evaluateSequence(
+  sequence: EvaluationSequence,
+  options: EvaluationOptions = {}
+): Promise<EvaluationResult> {
+  const tracks = await replayTracker(sequence, options);
+  const groundTruth = sequence.frames.map(frame => frame.groundTruth);
+  return {
+    name: sequence.name,
+    frames: sequence.frames.length,
+    metrics: evaluateTracks(groundTruth, tracks, options.iouThreshold)
+  };
+}
+
+// Builds a sequence from MOTChallenge det.txt and gt.txt contents, such as
+// those exported from a recording
+export function sequenceFromMot(
+  name: string,
+  detText: string,
+  gtText: string,
+  fps = 30,
+  defaultClass = 'person'
+): EvaluationSequence {
+  const detections = parseMotDetections(detText, defaultClass);
+  const groundTruth = parseMotGroundTruth(gtText);
+  const frameCount = Math.max(detections.length, groundTruth.length);
+
+  return {
+    name,
+    fps,
+    frames: Array.from({ length: frameCount }, (_, frame) => ({
+      detections: detections[frame] || [],
+      groundTruth: groundTruth[frame] || []
+    }))
+  };
+}
+
+const formatRatio = (value: number) => (value * 100).toFixed(1).padStart(6);
+const formatCount = (value: number) => String(value).padStart(6);
+
+// Plain-text table of the headline metrics, one row per sequence
+export function formatResults(results: EvaluationResult[]): string {
+  const header = ['sequence', '  MOTA', '  IDF1', '  HOTA', '  DetA', '  AssA', '  IDSW', '  Frag', '    FP', '    FN'];
+  const nameWidth = Math.max(header[0].length, ...results.map(result => result.name.length));
+  const rows = results.map(({ name, metrics }) => [
+    name.padEnd(nameWidth),
+    formatRatio(metrics.mota),
+    formatRatio(metrics.idf1),
+    formatRatio(metrics.hota),
+    formatRatio(metrics.detA),
+    formatRatio(metrics.assA),
+    formatCount(metrics.idSwitches),
+    formatCount(metrics.fragmentations),
+    formatCount(metrics.falsePositives),
+    formatCount(metrics.falseNegatives)
+  ].join('  '));
+
+  return [[header[0].padEnd(nameWidth), ...header.slice(1)].join('  '), ...rows].join('\n');
+}
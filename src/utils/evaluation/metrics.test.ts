@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateTracks } from './metrics';
+import type { TrackBox } from '../../types/evaluation';
+import type { BBox } from '../bbox';
+
+const BOX: BBox = [0, 0, 10, 10];
+const FAR: BBox = [100, 100, 10, 10];
+
+const track = (id: number, bbox: BBox = BOX): TrackBox => ({ id, bbox });
+
+// One ground-truth object, present and still in every frame
+const groundTruth = (frames: number) => Array.from({ length: frames }, () => [track(1)]);
+
+describe('evaluateTracks', () => {
+  it('scores perfect tracking as 1', () => {
+    const metrics = evaluateTracks(groundTruth(4), groundTruth(4).map(() => [track(7)]));
+    expect(metrics.mota).toBe(1);
+    expect(metrics.motp).toBe(1);
+    expect(metrics.idf1).toBe(1);
+    expect(metrics.hota).toBeCloseTo(1);
+    expect(metrics.detA).toBeCloseTo(1);
+    expect(metrics.assA).toBeCloseTo(1);
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.fragmentations).toBe(0);
+    expect(metrics.groundTruthIds).toBe(1);
+    expect(metrics.trackerIds).toBe(1);
+  });
+
+  it('counts an identity switch', () => {
+    const metrics = evaluateTracks(groundTruth(4), [[track(7)], [track(7)], [track(8)], [track(8)]]);
+    expect(metrics.idSwitches).toBe(1);
+    expect(metrics.mota).toBeCloseTo(0.75);
+    // Only half the boxes map to the best single tracker id
+    expect(metrics.idf1).toBeCloseTo(0.5);
+    expect(metrics.assA).toBeLessThan(1);
+    expect(metrics.detA).toBeCloseTo(1);
+  });
+
+  it('counts a missed frame as a false negative and fragmentation', () => {
+    const metrics = evaluateTracks(groundTruth(4), [[track(7)], [track(7)], [], [track(7)]]);
+    expect(metrics.falseNegatives).toBe(1);
+    expect(metrics.fragmentations).toBe(1);
+    expect(metrics.idSwitches).toBe(0);
+    expect(metrics.mota).toBeCloseTo(0.75);
+    expect(metrics.idf1).toBeCloseTo(6 / 7);
+  });
+
+  it('counts unmatched tracker boxes as false positives', () => {
+    const metrics = evaluateTracks(groundTruth(2), [[track(7), track(9, FAR)], [track(7)]]);
+    expect(metrics.falsePositives).toBe(1);
+    expect(metrics.truePositives).toBe(2);
+    expect(metrics.mota).toBeCloseTo(0.5);
+  });
+
+  it('rejects matches below the IoU threshold', () => {
+    const shifted: BBox = [6, 0, 10, 10];
+    const metrics = evaluateTracks(groundTruth(1), [[track(7, shifted)]]);
+    expect(metrics.truePositives).toBe(0);
+    expect(metrics.falseNegatives).toBe(1);
+    expect(metrics.falsePositives).toBe(1);
+    expect(evaluateTracks(groundTruth(1), [[track(7, shifted)]], 0.2).truePositives).toBe(1);
+  });
+
+  it('counts tracker output past the last ground-truth frame as false positives', () => {
+    const metrics = evaluateTracks(groundTruth(2), [[track(7)], [track(7)], [track(7)]]);
+    expect(metrics.falsePositives).toBe(1);
+    expect(metrics.trackerBoxes).toBe(3);
+    expect(metrics.groundTruthBoxes).toBe(2);
+  });
+});
@@ -0,0 +1,223 @@
+import type { TrackBox, TrackingMetrics } from '../../types/evaluation';
+import { calculateIoU } from '../bbox';
+import { solveAssignment } from '../hungarian';
+
+// IoU thresholds HOTA is averaged over
+const HOTA_ALPHAS = Array.from({ length: 19 }, (_, i) => (i + 1) * 0.05);
+const EPSILON = 1e-9;
+
+const pairKey = (gtId: number, trackerId: number) => `${gtId}:${trackerId}`;
+
+const ratio = (numerator: number, denominator: number) => denominator > 0 ? numerator / denominator : 0;
+
+function iouMatrix(gt: TrackBox[], tracks: TrackBox[]): number[][] {
+  return gt.map(g => tracks.map(t => calculateIoU(g.bbox, t.bbox)));
+}
+
+function countIds(frames: TrackBox[][]): Map<number, number> {
+  const counts = new Map<number, number>();
+  frames.forEach(boxes => boxes.forEach(box => counts.set(box.id, (counts.get(box.id) || 0) + 1)));
+  return counts;
+}
+
+// CLEAR MOT (Bernardin & Stiefelhagen, 2008). Matches from the previous frame
+// are kept while they stay above the IoU threshold; the rest are assigned
+// by minimum total (1 - IoU).
+function clearMot(gtFrames: TrackBox[][], trackerFrames: TrackBox[][], iouThreshold: number) {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let idSwitches = 0;
+  let fragmentations = 0;
+  let iouSum = 0;
+  let previousMatches = new Map<number, number>();
+  // Last tracker id each ground-truth object was matched to, at any time
+  const lastMatch = new Map<number, number>();
+  // Whether each ground-truth object was matched the last time it was present
+  const wasTracked = new Map<number, boolean>();
+
+  gtFrames.forEach((gt, frame) => {
+    const tracks = trackerFrames[frame] || [];
+    const ious = iouMatrix(gt, tracks);
+    const matches = new Map<number, number>();
+    const usedTracks = new Set<number>();
+
+    gt.forEach((g, i) => {
+      const trackerId = previousMatches.get(g.id);
+      if (trackerId === undefined) return;
+      const j = tracks.findIndex(t => t.id === trackerId);
+      if (j >= 0 && !usedTracks.has(j) && ious[i][j] >= iouThreshold) {
+        matches.set(i, j);
+        usedTracks.add(j);
+      }
+    });
+
+    const openGt = gt.map((_, i) => i).filter(i => !matches.has(i));
+    const openTracks = tracks.map((_, j) => j).filter(j => !usedTracks.has(j));
+    const cost = openGt.map(i => openTracks.map(j =>
+      ious[i][j] >= iouThreshold ? 1 - ious[i][j] : Infinity
+    ));
+    solveAssignment(cost).forEach(([row, col]) => matches.set(openGt[row], openTracks[col]));
+
+    const currentMatches = new Map<number, number>();
+    gt.forEach((g, i) => {
+      const j = matches.get(i);
+      if (j === undefined) {
+        wasTracked.set(g.id, false);
+        return;
+      }
+
+      const trackerId = tracks[j].id;
+      const previousId = lastMatch.get(g.id);
+      if (previousId !== undefined && previousId !== trackerId) idSwitches++;
+      if (previousId !== undefined && wasTracked.get(g.id) === false) fragmentations++;
+
+      lastMatch.set(g.id, trackerId);
+      wasTracked.set(g.id, true);
+      currentMatches.set(g.id, trackerId);
+      iouSum += ious[i][j];
+    });
+
+    truePositives += matches.size;
+    falseNegatives += gt.length - matches.size;
+    falsePositives += tracks.length - matches.size;
+    previousMatches = currentMatches;
+  });
+
+  const groundTruthBoxes = truePositives + falseNegatives;
+  return {
+    mota: groundTruthBoxes > 0 ? 1 - (falseNegatives + falsePositives + idSwitches) / groundTruthBoxes : 0,
+    motp: ratio(iouSum, truePositives),
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    idSwitches,
+    fragmentations
+  };
+}
+
+// IDF1 (Ristani et al., 2016): the best one-to-one mapping between
+// ground-truth and tracker ids over the whole sequence
+function identityMetrics(gtFrames: TrackBox[][], trackerFrames: TrackBox[][], iouThreshold: number) {
+  const overlaps = new Map<string, number>();
+  gtFrames.forEach((gt, frame) => {
+    const tracks = trackerFrames[frame] || [];
+    const ious = iouMatrix(gt, tracks);
+    gt.forEach((g, i) => tracks.forEach((t, j) => {
+      if (ious[i][j] < iouThreshold) return;
+      const key = pairKey(g.id, t.id);
+      overlaps.set(key, (overlaps.get(key) || 0) + 1);
+    }));
+  });
+
+  const gtIds = Array.from(countIds(gtFrames).keys());
+  const trackerIds = Array.from(countIds(trackerFrames).keys());
+  const cost = gtIds.map(g => trackerIds.map(t => {
+    const overlap = overlaps.get(pairKey(g, t));
+    return overlap ? -overlap : Infinity;
+  }));
+  const idTruePositives = solveAssignment(cost)
+    .reduce((total, [row, col]) => total - cost[row][col], 0);
+
+  const groundTruthBoxes = gtFrames.reduce((total, gt) => total + gt.length, 0);
+  const trackerBoxes = trackerFrames.reduce((total, tracks) => total + tracks.length, 0);
+  return {
+    idf1: ratio(2 * idTruePositives, groundTruthBoxes + trackerBoxes),
+    idPrecision: ratio(idTruePositives, trackerBoxes),
+    idRecall: ratio(idTruePositives, groundTruthBoxes)
+  };
+}
+
+// HOTA (Luiten et al., 2021), following the TrackEval reference: frames are
+// matched once by IoU weighted with global id alignment, then detection and
+// association accuracy are scored at each IoU threshold
+function hotaMetrics(gtFrames: TrackBox[][], trackerFrames: TrackBox[][]) {
+  const gtCounts = countIds(gtFrames);
+  const trackerCounts = countIds(trackerFrames);
+  const frameIous = gtFrames.map((gt, frame) => iouMatrix(gt, trackerFrames[frame] || []));
+
+  // How strongly each ground-truth id aligns with each tracker id overall
+  const potential = new Map<string, number>();
+  gtFrames.forEach((gt, frame) => {
+    const tracks = trackerFrames[frame] || [];
+    const ious = frameIous[frame];
+    const gtSums = ious.map(row => row.reduce((sum, value) => sum + value, 0));
+    const trackSums = tracks.map((_, j) => ious.reduce((sum, row) => sum + row[j], 0));
+    gt.forEach((g, i) => tracks.forEach((t, j) => {
+      const denominator = gtSums[i] + trackSums[j] - ious[i][j];
+      if (ious[i][j] <= 0 || denominator <= EPSILON) return;
+      const key = pairKey(g.id, t.id);
+      potential.set(key, (potential.get(key) || 0) + ious[i][j] / denominator);
+    }));
+  });
+  const alignment = (gtId: number, trackerId: number) => {
+    const value = potential.get(pairKey(gtId, trackerId)) || 0;
+    return ratio(value, gtCounts.get(gtId)! + trackerCounts.get(trackerId)! - value);
+  };
+
+  const truePositives = HOTA_ALPHAS.map(() => 0);
+  const falseNegatives = HOTA_ALPHAS.map(() => 0);
+  const falsePositives = HOTA_ALPHAS.map(() => 0);
+  const matchCounts = HOTA_ALPHAS.map(() => new Map<string, number>());
+
+  gtFrames.forEach((gt, frame) => {
+    const tracks = trackerFrames[frame] || [];
+    const ious = frameIous[frame];
+    const cost = gt.map((g, i) => tracks.map((t, j) => {
+      const score = alignment(g.id, t.id) * ious[i][j];
+      return score > 0 ? -score : Infinity;
+    }));
+    const matches = solveAssignment(cost);
+
+    HOTA_ALPHAS.forEach((alpha, a) => {
+      let matched = 0;
+      matches.forEach(([i, j]) => {
+        if (ious[i][j] < alpha - EPSILON) return;
+        matched++;
+        const key = pairKey(gt[i].id, tracks[j].id);
+        matchCounts[a].set(key, (matchCounts[a].get(key) || 0) + 1);
+      });
+      truePositives[a] += matched;
+      falseNegatives[a] += gt.length - matched;
+      falsePositives[a] += tracks.length - matched;
+    });
+  });
+
+  const perAlpha = HOTA_ALPHAS.map((_, a) => {
+    let association = 0;
+    matchCounts[a].forEach((count, key) => {
+      const [gtId, trackerId] = key.split(':').map(Number);
+      association += count * count / (gtCounts.get(gtId)! + trackerCounts.get(trackerId)! - count);
+    });
+    const assA = ratio(association, truePositives[a]);
+    const detA = ratio(truePositives[a], truePositives[a] + falseNegatives[a] + falsePositives[a]);
+    return { detA, assA, hota: Math.sqrt(detA * assA) };
+  });
+
+  const mean = (key: 'detA' | 'assA' | 'hota') =>
+    perAlpha.reduce((sum, values) => sum + values[key], 0) / perAlpha.length;
+  return { hota: mean('hota'), detA: mean('detA'), assA: mean('assA') };
+}
+
+// Scores tracker output against ground truth. Both arrays are indexed by
+// frame; boxes match when their IoU reaches iouThreshold.
+export function evaluateTracks(
+  gtFrames: TrackBox[][],
+  trackerFrames: TrackBox[][],
+  iouThreshold = 0.5
+): TrackingMetrics {
+  // Tracker output beyond the last ground-truth frame is all false positives
+  const frameCount = Math.max(gtFrames.length, trackerFrames.length);
+  const gt = Array.from({ length: frameCount }, (_, frame) => gtFrames[frame] || []);
+  const tracks = Array.from({ length: frameCount }, (_, frame) => trackerFrames[frame] || []);
+
+  return {
+    ...clearMot(gt, tracks, iouThreshold),
+    ...identityMetrics(gt, tracks, iouThreshold),
+    ...hotaMetrics(gt, tracks),
+    groundTruthBoxes: gt.reduce((total, boxes) => total + boxes.length, 0),
+    trackerBoxes: tracks.reduce((total, boxes) => total + boxes.length, 0),
+    groundTruthIds: countIds(gt).size,
+    trackerIds: countIds(tracks).size
+  };
+}
@@ -0,0 +1,253 @@
+import type { TrackedEntity } from '../types/entities';
+import type { EventEntity, EventSinkStatus, SinkEvent, SinkEventBody } from '../types/events';
+import { STORES, isIndexedDbSupported, withStore } from './indexedDb';
+
+interface QueuedBatch {
+  // Assigned by IndexedDB
+  key?: number;
+  events: SinkEvent[];
+  createdAt: number;
+}
+
+export interface EventSinkOptions {
+  endpoint: string;
+  // Events per request
+  batchSize: number;
+  // Longest time an event waits in memory before its batch is sent
+  flushIntervalMs: number;
+  // Oldest batches are dropped beyond this while the server is unreachable
+  maxQueuedBatches: number;
+}
+
+export const DEFAULT_EVENT_SINK_OPTIONS: EventSinkOptions = {
+  endpoint: '/api/events',
+  batchSize: 50,
+  flushIntervalMs: 2000,
+  maxQueuedBatches: 500
+};
+
+const MIN_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+
+type PostResult = 'sent' | 'rejected' | 'retry';
+
+export function toEventEntity(entity: TrackedEntity, dwellMs: number): EventEntity {
+  return {
+    id: entity.id,
+    class: entity.class,
+    bbox: entity.bbox,
+    score: entity.score,
+    firstSeen: entity.firstSeen,
+    lastSeen: entity.lastSeen,
+    dwellMs
+  };
+}
+
+// Batches events and posts them to the events route. Every batch is queued
+// in IndexedDB before it is sent, so events survive network failures and
+// reloads; the queue drains oldest first, with exponential backoff while
+// the server is unreachable. Browser-only: create it on demand.
+export class EventSink {
+  private options: EventSinkOptions;
+  private buffer: SinkEvent[] = [];
+  // Used instead of IndexedDB where it is unavailable
+  private memoryQueue: QueuedBatch[] = [];
+  private queuedBatches = 0;
+  private sent = 0;
+  private dropped = 0;
+  private lastError: string | null = null;
+  private token = '';
+  private source = `tab-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  private nextEventId = 1;
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+  private retryDelayMs = MIN_RETRY_MS;
+  private draining = false;
+  private started = false;
+
+  constructor(options: Partial<EventSinkOptions> = {}) {
+    this.options = { ...DEFAULT_EVENT_SINK_OPTIONS, ...options };
+  }
+
+  // Starts sending, including batches left queued by a previous visit
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('pagehide', this.handlePageHide);
+    this.refreshQueuedCount().then(() => this.drain());
+  }
+
+  // Stops sending; buffered events are queued for the next start
+  async stop(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    clearTimeout(this.retryTimer);
+    await this.flush();
+  }
+
+  setToken(token: string): void {
+    this.token = token;
+  }
+
+  enqueue(body: SinkEventBody, timestamp = Date.now()): void {
+    if (!this.started) return;
+    this.buffer.push({ ...body, id: `${this.source}-${this.nextEventId++}`, timestamp, source: this.source });
+
+    if (this.buffer.length >= this.options.batchSize) {
+      this.flush();
+    } else if (this.flushTimer === undefined) {
+      this.flushTimer = setTimeout(() => this.flush(), this.options.flushIntervalMs);
+    }
+  }
+
+  // Queues the buffered events as a batch and tries to send the queue
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (this.buffer.length === 0) return;
+
+    const events = this.buffer;
+    this.buffer = [];
+    try {
+      await this.addBatch({ events, createdAt: Date.now() });
+    } catch (error) {
+      console.error('Error queueing events:', error);
+      this.memoryQueue.push({ events, createdAt: Date.now() });
+      this.queuedBatches++;
+    }
+    if (this.started) this.drain();
+  }
+
+  getStatus(): EventSinkStatus {
+    return {
+      buffered: this.buffer.length,
+      queuedBatches: this.queuedBatches,
+      sent: this.sent,
+      dropped: this.dropped,
+      lastError: this.lastError,
+      online: typeof navigator === 'undefined' || navigator.onLine
+    };
+  }
+
+  private handleOnline = () => {
+    this.retryDelayMs = MIN_RETRY_MS;
+    this.drain();
+  };
+
+  // Best effort: the page may be gone before the write completes
+  private handlePageHide = () => {
+    this.flush();
+  };
+
+  private async drain() {
+    if (this.draining || !this.started) return;
+    this.draining = true;
+    clearTimeout(this.retryTimer);
+
+    try {
+      while (this.started && navigator.onLine) {
+        const batch = await this.oldestBatch();
+        if (!batch) break;
+
+        const result = await this.post(batch.events);
+        if (result === 'retry') {
+          this.retryTimer = setTimeout(() => this.drain(), this.retryDelayMs);
+          this.retryDelayMs = Math.min(this.retryDelayMs * 2, MAX_RETRY_MS);
+          break;
+        }
+
+        if (result === 'sent') {
+          this.sent += batch.events.length;
+          this.lastError = null;
+          this.retryDelayMs = MIN_RETRY_MS;
+        } else {
+          this.dropped += batch.events.length;
+        }
+        await this.removeBatch(batch);
+      }
+    } catch (error) {
+      console.error('Error draining event queue:', error);
+      this.lastError = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async post(events: SinkEvent[]): Promise<PostResult> {
+    try {
+      const response = await fetch(this.options.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+        },
+        body: JSON.stringify({ events })
+      });
+      if (response.ok) return 'sent';
+
+      this.lastError = `Server responded ${response.status}`;
+      // Client errors other than timeouts and rate limits won't succeed on retry
+      const retriable = response.status >= 500 || response.status === 408 || response.status === 429;
+      return retriable ? 'retry' : 'rejected';
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      return 'retry';
+    }
+  }
+
+  private async addBatch(batch: QueuedBatch) {
+    if (!isIndexedDbSupported()) {
+      this.memoryQueue.push(batch);
+    } else {
+      await withStore(STORES.eventOutbox, 'readwrite', store => store.add(batch));
+    }
+    this.queuedBatches++;
+
+    // The batch is queued by now, so a failure here must not reach flush(),
+    // which would queue it a second time
+    try {
+      await this.trimQueue();
+    } catch (error) {
+      console.error('Error trimming event queue:', error);
+    }
+  }
+
+  // Drop the oldest batches rather than grow without bound while offline
+  private async trimQueue() {
+    while (this.queuedBatches > this.options.maxQueuedBatches) {
+      const oldest = await this.oldestBatch();
+      if (!oldest) break;
+      this.dropped += oldest.events.length;
+      await this.removeBatch(oldest);
+    }
+  }
+
+  private async oldestBatch(): Promise<QueuedBatch | null> {
+    if (this.memoryQueue.length > 0) return this.memoryQueue[0];
+    if (!isIndexedDbSupported()) return null;
+    const [batch] = await withStore(STORES.eventOutbox, 'readonly', store => store.getAll(null, 1));
+    return (batch as QueuedBatch | undefined) ?? null;
+  }
+
+  private async removeBatch(batch: QueuedBatch) {
+    if (batch.key === undefined) {
+      this.memoryQueue = this.memoryQueue.filter(queued => queued !== batch);
+    } else {
+      await withStore(STORES.eventOutbox, 'readwrite', store => store.delete(batch.key!));
+    }
+    this.queuedBatches = Math.max(0, this.queuedBatches - 1);
+  }
+
+  private async refreshQueuedCount() {
+    if (!isIndexedDbSupported()) return;
+    try {
+      const stored = await withStore(STORES.eventOutbox, 'readonly', store => store.count());
+      this.queuedBatches = stored + this.memoryQueue.length;
+    } catch (error) {
+      console.error('Error reading event queue:', error);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import type { FrameResult } from '../types/worker';
+import type { RecordedFrame } from '../types/recording';
+import type { BBox } from './bbox';
+
+const roundBox = (bbox: number[]) => bbox.map(value => Math.round(value * 100) / 100) as BBox;
+
+export function toRecordedFrame(result: FrameResult, frame: number): RecordedFrame {
+  return {
+    frame,
+    timestamp: result.timestamp,
+    width: result.width,
+    height: result.height,
+    detections: result.detections.map(detection => ({
+      class: detection.class,
+      bbox: roundBox(detection.bbox),
+      score: detection.score
+    })),
+    tracks: result.entities.map(entity => ({
+      id: entity.id,
+      class: entity.class,
+      bbox: roundBox(entity.bbox),
+      score: entity.score,
+      predicted: entity.isPredicted
+    }))
+  };
+}
+
+// Collects per-frame detector and tracker output while recording is on.
+// Only plain values are kept, so frames can be exported or replayed later.
+export class FrameRecorder {
+  private recordedFrames: RecordedFrame[] = [];
+  private recording = false;
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get frameCount(): number {
+    return this.recordedFrames.length;
+  }
+
+  get frames(): readonly RecordedFrame[] {
+    return this.recordedFrames;
+  }
+
+  start(): void {
+    this.recording = true;
+  }
+
+  stop(): void {
+    this.recording = false;
+  }
+
+  add(result: FrameResult): void {
+    if (!this.recording) return;
+    this.recordedFrames.push(toRecordedFrame(result, this.recordedFrames.length + 1));
+  }
+
+  clear(): void {
+    this.recordedFrames = [];
+  }
+}
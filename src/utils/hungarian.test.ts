@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { solveAssignment } from './hungarian';
+
+const totalCost = (cost: number[][], assignment: Array<[number, number]>) =>
+  assignment.reduce((total, [row, col]) => total + cost[row][col], 0);
+
+// Smallest total over every way of assigning min(rows, cols) pairs
+function bruteForce(cost: number[][]): number {
+  const cols = cost[0].length;
+  let best = Infinity;
+  const visit = (row: number, used: Set<number>, total: number) => {
+    if (row === cost.length) {
+      best = Math.min(best, total);
+      return;
+    }
+    if (cost.length - row > cols - used.size) {
+      // Fewer columns than rows: this row may stay unassigned
+      visit(row + 1, used, total);
+    }
+    for (let col = 0; col < cols; col++) {
+      if (used.has(col)) continue;
+      used.add(col);
+      visit(row + 1, used, total + cost[row][col]);
+      used.delete(col);
+    }
+  };
+  visit(0, new Set(), 0);
+  return best;
+}
+
+describe('solveAssignment', () => {
+  it('finds the minimum-cost assignment', () => {
+    const cost = [
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2]
+    ];
+    expect(solveAssignment(cost)).toEqual([[0, 1], [1, 0], [2, 2]]);
+  });
+
+  it('handles more rows than columns', () => {
+    expect(solveAssignment([[1], [0], [5]])).toEqual([[1, 0]]);
+  });
+
+  it('leaves out forbidden pairs', () => {
+    expect(solveAssignment([[Infinity, 1], [Infinity, 2]])).toEqual([[0, 1]]);
+    expect(solveAssignment([[Infinity]])).toEqual([]);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(solveAssignment([])).toEqual([]);
+    expect(solveAssignment([[], []])).toEqual([]);
+  });
+
+  it('matches a brute-force search on random matrices', () => {
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+
+    for (let trial = 0; trial < 50; trial++) {
+      const rows = 1 + Math.floor(random() * 5);
+      const cols = 1 + Math.floor(random() * 5);
+      const cost = Array.from({ length: rows }, () => Array.from({ length: cols }, () => Math.round(random() * 100)));
+      const assignment = solveAssignment(cost);
+
+      expect(assignment).toHaveLength(Math.min(rows, cols));
+      expect(new Set(assignment.map(([, col]) => col)).size).toBe(assignment.length);
+      expect(totalCost(cost, assignment)).toBe(bruteForce(cost));
+    }
+  });
+});
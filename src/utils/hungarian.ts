@@ -0,0 +1,80 @@
+// Kuhn-Munkres with potentials, O(n^2 m). Infinite costs mark forbidden
+// pairs; they are replaced by a large finite cost for the solver and
+// filtered out of the result.
+export function solveAssignment(cost: number[][]): Array<[number, number]> {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return [];
+
+  // The algorithm needs rows <= cols, so solve the transpose if necessary
+  const transposed = rows > cols;
+  const n = transposed ? cols : rows;
+  const m = transposed ? rows : cols;
+
+  let maxFinite = 0;
+  cost.forEach(row => row.forEach(c => {
+    if (Number.isFinite(c)) maxFinite = Math.max(maxFinite, Math.abs(c));
+  }));
+  const forbidden = (maxFinite + 1) * (n + 1);
+  const at = (i: number, j: number) => {
+    const c = transposed ? cost[j][i] : cost[i][j];
+    return Number.isFinite(c) ? c : forbidden;
+  };
+
+  // 1-indexed arrays as in the classic formulation
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = at(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment: Array<[number, number]> = [];
+  for (let j = 1; j <= m; j++) {
+    if (p[j] === 0) continue;
+    const [row, col] = transposed ? [j - 1, p[j] - 1] : [p[j] - 1, j - 1];
+    if (Number.isFinite(cost[row][col])) {
+      assignment.push([row, col]);
+    }
+  }
+  return assignment.sort((a, b) => a[0] - b[0]);
+}
@@ -0,0 +1,70 @@
+// Promise wrappers around the app's IndexedDB database. Stores are created
+// on upgrade; add new ones to STORES and bump DB_VERSION.
+
+const DB_NAME = 'next-client-yolo';
+const DB_VERSION = 2;
+
+export const STORES = {
+  // Event batches waiting to be posted to /api/events
+  eventOutbox: 'event-outbox',
+  // Best crop of every confirmed track, for the snapshot gallery
+  snapshots: 'snapshots'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise;
+  if (!isIndexedDbSupported()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'key', autoIncrement: true });
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(error => {
+    // Allow a later call to try again
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+}
+
+// Runs one transaction against a store and resolves with the callback's
+// request result once the transaction has committed
+export async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  callback: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = callback(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
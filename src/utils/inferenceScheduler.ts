@@ -0,0 +1,146 @@
+import type { PerformanceStats, SchedulerOptions } from '../types/performance';
+import type { FrameResult } from '../types/worker';
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  adaptive: true,
+  targetFps: 15,
+  showHud: false
+};
+
+// Weight of the newest sample in the timing averages
+const SMOOTHING = 0.2;
+// Spacing kept above the inference latency, so a slow detector doesn't
+// keep the worker and GPU saturated
+const LATENCY_HEADROOM = 1.25;
+const RATE_WINDOW_MS = 1000;
+
+const smooth = (previous: number | null, sample: number) =>
+  previous === null ? sample : previous + (sample - previous) * SMOOTHING;
+
+// Counts events over a sliding one-second window
+class RateMeter {
+  private times: number[] = [];
+
+  tick(now: number): void {
+    this.times.push(now);
+    this.prune(now);
+  }
+
+  rate(now: number): number {
+    this.prune(now);
+    return this.times.length * 1000 / RATE_WINDOW_MS;
+  }
+
+  reset(): void {
+    this.times = [];
+  }
+
+  private prune(now: number) {
+    while (this.times.length > 0 && now - this.times[0] > RATE_WINDOW_MS) this.times.shift();
+  }
+}
+
+// Decides which captured frames go to the detector. Without adaptive
+// scheduling every frame the worker is free for is analysed; with it,
+// frames are spaced by the target rate or the inference latency, whichever
+// is slower, and the frames in between are skipped. Also collects the
+// timings shown in the performance overlay.
+export class InferenceScheduler {
+  private options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS;
+  private lastSubmit = -Infinity;
+  // Set while a scheduled frame awaits its result; stepped frames aren't timed
+  private submittedAt: number | null = null;
+  private latencyMs: number | null = null;
+  private resultIntervalMs: number | null = null;
+  private lastResultAt: number | null = null;
+  private capture = new RateMeter();
+  private analysed = new RateMeter();
+  private skipped = 0;
+  private inferenceMs = 0;
+  private trackerMs = 0;
+  private renderMs: number | null = null;
+  private runtime: PerformanceStats['runtime'] = null;
+
+  configure(options: SchedulerOptions): void {
+    this.options = options;
+  }
+
+  get adaptive(): boolean {
+    return this.options.adaptive;
+  }
+
+  // Average time between results, used to spread box motion over the
+  // frames in between
+  get resultInterval(): number | null {
+    return this.resultIntervalMs;
+  }
+
+  // Called once per captured frame while the worker is idle
+  shouldSubmit(now = performance.now()): boolean {
+    this.capture.tick(now);
+    if (!this.options.adaptive) {
+      this.lastSubmit = this.submittedAt = now;
+      return true;
+    }
+
+    const interval = Math.max(1000 / this.options.targetFps, (this.latencyMs ?? 0) * LATENCY_HEADROOM);
+    if (now - this.lastSubmit < interval) {
+      this.skipped++;
+      return false;
+    }
+    this.lastSubmit = this.submittedAt = now;
+    return true;
+  }
+
+  // Captured frames that arrive while a frame is in flight
+  frameBusy(now = performance.now()): void {
+    this.capture.tick(now);
+    this.skipped++;
+  }
+
+  recordResult(result: FrameResult, now = performance.now()): void {
+    this.analysed.tick(now);
+    if (this.submittedAt !== null) {
+      this.latencyMs = smooth(this.latencyMs, now - this.submittedAt);
+      this.submittedAt = null;
+    }
+    if (this.lastResultAt !== null) {
+      this.resultIntervalMs = smooth(this.resultIntervalMs, now - this.lastResultAt);
+    }
+    this.lastResultAt = now;
+    this.inferenceMs = result.inferenceMs;
+    this.trackerMs = result.trackerMs;
+    this.runtime = result.runtime ?? null;
+  }
+
+  recordRender(ms: number): void {
+    this.renderMs = smooth(this.renderMs, ms);
+  }
+
+  getStats(now = performance.now()): PerformanceStats {
+    // Chrome only, and not part of any standard
+    const memory = (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory;
+    return {
+      captureFps: this.capture.rate(now),
+      analysedFps: this.analysed.rate(now),
+      skippedFrames: this.skipped,
+      inferenceMs: this.inferenceMs,
+      trackerMs: this.trackerMs,
+      renderMs: this.renderMs ?? 0,
+      runtime: this.runtime,
+      heapBytes: memory ? memory.usedJSHeapSize : null
+    };
+  }
+
+  // Forget timings, e.g. after switching input or detector
+  reset(): void {
+    this.lastSubmit = -Infinity;
+    this.submittedAt = null;
+    this.latencyMs = null;
+    this.resultIntervalMs = null;
+    this.lastResultAt = null;
+    this.capture.reset();
+    this.analysed.reset();
+    this.skipped = 0;
+  }
+}
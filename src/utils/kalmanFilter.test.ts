@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { BoxKalmanFilter } from './kalmanFilter';
+import type { BBox } from './bbox';
+
+describe('BoxKalmanFilter', () => {
+  it('starts at the initial box without moving', () => {
+    const filter = new BoxKalmanFilter([10, 20, 30, 60]);
+    expect(filter.bbox).toEqual([10, 20, 30, 60]);
+    expect(filter.velocity).toEqual([0, 0]);
+    expect(filter.predict()).toEqual([10, 20, 30, 60]);
+  });
+
+  it('learns a constant velocity and predicts ahead', () => {
+    const boxAt = (frame: number): BBox => [100 + 5 * frame, 50 - 2 * frame, 40, 80];
+    const filter = new BoxKalmanFilter(boxAt(0));
+    for (let frame = 1; frame <= 30; frame++) {
+      filter.predict();
+      filter.update(boxAt(frame));
+    }
+
+    const [vx, vy] = filter.velocity;
+    expect(vx).toBeCloseTo(5, 1);
+    expect(vy).toBeCloseTo(-2, 1);
+
+    const [x, y, width, height] = filter.predict();
+    const [expectedX, expectedY] = boxAt(31);
+    expect(x).toBeCloseTo(expectedX, 0);
+    expect(y).toBeCloseTo(expectedY, 0);
+    expect(width).toBeCloseTo(40, 0);
+    expect(height).toBeCloseTo(80, 0);
+  });
+
+  it('keeps coasting along its velocity without measurements', () => {
+    const filter = new BoxKalmanFilter([0, 0, 20, 40]);
+    for (let frame = 1; frame <= 20; frame++) {
+      filter.predict();
+      filter.update([3 * frame, 0, 20, 40]);
+    }
+    const before = filter.bbox[0];
+    filter.predict();
+    filter.predict();
+    expect(filter.bbox[0] - before).toBeCloseTo(6, 0);
+  });
+
+  it('smooths a noisy measurement', () => {
+    const filter = new BoxKalmanFilter([100, 100, 50, 100]);
+    for (let frame = 0; frame < 20; frame++) {
+      filter.predict();
+      filter.update([100, 100, 50, 100]);
+    }
+    filter.predict();
+    const [x] = filter.update([120, 100, 50, 100]);
+    expect(x).toBeGreaterThan(100);
+    expect(x).toBeLessThan(120);
+  });
+});
@@ -0,0 +1,100 @@
+import type { BBox } from './bbox';
+
+// Noise is scaled by box height so small and large objects behave alike
+const POSITION_STD = 1 / 20;
+const VELOCITY_STD = 1 / 160;
+
+interface AxisState {
+  position: number;
+  velocity: number;
+  // 2x2 covariance of [position, velocity]
+  p00: number;
+  p01: number;
+  p10: number;
+  p11: number;
+}
+
+function createAxis(position: number, scale: number): AxisState {
+  const positionVariance = (2 * POSITION_STD * scale) ** 2;
+  const velocityVariance = (10 * VELOCITY_STD * scale) ** 2;
+  return { position, velocity: 0, p00: positionVariance, p01: 0, p10: 0, p11: velocityVariance };
+}
+
+// Constant-velocity Kalman filter over a box's centre and size. The axes
+// (cx, cy, w, h) evolve independently, so each is a 2-state filter rather
+// than one 8x8 matrix problem.
+export class BoxKalmanFilter {
+  private axes: [AxisState, AxisState, AxisState, AxisState];
+
+  constructor(bbox: BBox) {
+    const [x, y, w, h] = bbox;
+    this.axes = [
+      createAxis(x + w / 2, h),
+      createAxis(y + h / 2, h),
+      createAxis(w, h),
+      createAxis(h, h)
+    ];
+  }
+
+  predict(): BBox {
+    const scale = this.height;
+    const q00 = (POSITION_STD * scale) ** 2;
+    const q11 = (VELOCITY_STD * scale) ** 2;
+
+    this.axes.forEach(axis => {
+      axis.position += axis.velocity;
+      // P = F P F^T + Q with F = [[1, 1], [0, 1]]
+      const p00 = axis.p00 + axis.p01 + axis.p10 + axis.p11 + q00;
+      const p01 = axis.p01 + axis.p11;
+      const p10 = axis.p10 + axis.p11;
+      const p11 = axis.p11 + q11;
+      axis.p00 = p00;
+      axis.p01 = p01;
+      axis.p10 = p10;
+      axis.p11 = p11;
+    });
+
+    return this.bbox;
+  }
+
+  update(bbox: BBox): BBox {
+    const [x, y, w, h] = bbox;
+    const measurements = [x + w / 2, y + h / 2, w, h];
+    const r = (POSITION_STD * h) ** 2;
+
+    this.axes.forEach((axis, i) => {
+      const residual = measurements[i] - axis.position;
+      const s = axis.p00 + r;
+      const k0 = axis.p00 / s;
+      const k1 = axis.p10 / s;
+      axis.position += k0 * residual;
+      axis.velocity += k1 * residual;
+      const p00 = (1 - k0) * axis.p00;
+      const p01 = (1 - k0) * axis.p01;
+      const p10 = axis.p10 - k1 * axis.p00;
+      const p11 = axis.p11 - k1 * axis.p01;
+      axis.p00 = p00;
+      axis.p01 = p01;
+      axis.p10 = p10;
+      axis.p11 = p11;
+    });
+
+    return this.bbox;
+  }
+
+  get bbox(): BBox {
+    const [cx, cy, w, h] = this.axes.map(axis => axis.position);
+    const width = Math.max(w, 1);
+    const height = Math.max(h, 1);
+    return [cx - width / 2, cy - height / 2, width, height];
+  }
+
+  // Centroid velocity in pixels per frame
+  get velocity(): [number, number] {
+    return [this.axes[0].velocity, this.axes[1].velocity];
+  }
+
+  private get height(): number {
+    return Math.max(this.axes[3].position, 1);
+  }
+}
@@ -0,0 +1,51 @@
+import type { BBox } from './bbox';
+import type { InstanceMask } from '../types/detector';
+
+export interface MaskedBox {
+  bbox: BBox;
+  mask: InstanceMask;
+}
+
+// Area covered by the mask, in frame pixels
+export function maskArea({ bbox, mask }: MaskedBox): number {
+  let filled = 0;
+  for (let i = 0; i < mask.data.length; i++) filled += mask.data[i];
+  return mask.data.length > 0 ? filled / mask.data.length * bbox[2] * bbox[3] : 0;
+}
+
+// Overlap of two masks, each stretched over its own box. Cells of a that lie
+// in the boxes' overlap are looked up in b at their centres.
+export function maskIoU(a: MaskedBox, b: MaskedBox): number {
+  const [ax, ay, aw, ah] = a.bbox;
+  const [bx, by, bw, bh] = b.bbox;
+  const left = Math.max(ax, bx);
+  const top = Math.max(ay, by);
+  const right = Math.min(ax + aw, bx + bw);
+  const bottom = Math.min(ay + ah, by + bh);
+  if (right <= left || bottom <= top) return 0;
+
+  const cellWidth = aw / a.mask.width;
+  const cellHeight = ah / a.mask.height;
+  const firstColumn = Math.max(0, Math.floor((left - ax) / cellWidth));
+  const lastColumn = Math.min(a.mask.width, Math.ceil((right - ax) / cellWidth));
+  const firstRow = Math.max(0, Math.floor((top - ay) / cellHeight));
+  const lastRow = Math.min(a.mask.height, Math.ceil((bottom - ay) / cellHeight));
+
+  let cells = 0;
+  for (let row = firstRow; row < lastRow; row++) {
+    const y = ay + (row + 0.5) * cellHeight;
+    const bRow = Math.floor((y - by) / bh * b.mask.height);
+    if (bRow < 0 || bRow >= b.mask.height) continue;
+    for (let column = firstColumn; column < lastColumn; column++) {
+      if (!a.mask.data[row * a.mask.width + column]) continue;
+      const x = ax + (column + 0.5) * cellWidth;
+      const bColumn = Math.floor((x - bx) / bw * b.mask.width);
+      if (bColumn < 0 || bColumn >= b.mask.width) continue;
+      cells += b.mask.data[bRow * b.mask.width + bColumn];
+    }
+  }
+
+  const intersection = cells * cellWidth * cellHeight;
+  const union = maskArea(a) + maskArea(b) - intersection;
+  return union > 0 ? Math.min(1, intersection / union) : 0;
+}
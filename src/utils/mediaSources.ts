@@ -0,0 +1,66 @@
+import type { FacingMode, WebcamSource } from '../types/input';
+import type { FrameSource } from '../types/worker';
+
+export const DEFAULT_WEBCAM_SOURCE: WebcamSource = { kind: 'webcam', facingMode: 'environment' };
+
+// Device labels are only exposed once camera permission has been granted,
+// so callers should list devices again after the first stream opens
+export async function listVideoDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+}
+
+export function openWebcam(source: WebcamSource): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: source.deviceId
+      ? { deviceId: { exact: source.deviceId } }
+      : { facingMode: source.facingMode },
+    audio: false
+  });
+}
+
+export function stopStream(stream: MediaStream | null): void {
+  stream?.getTracks().forEach(track => track.stop());
+}
+
+export function oppositeFacingMode(facingMode: FacingMode): FacingMode {
+  return facingMode === 'user' ? 'environment' : 'user';
+}
+
+// Resolves once the video has moved to the given time and the frame there
+// can be read
+export function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  const target = Math.min(Math.max(time, 0), video.duration || 0);
+  if (Math.abs(video.currentTime - target) < 1e-6 && video.readyState >= 2) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+    };
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Could not seek video'));
+    };
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = target;
+  });
+}
+
+export function frameSourceSize(source: FrameSource | ImageBitmap): { width: number; height: number } {
+  if ('videoWidth' in source) return { width: source.videoWidth, height: source.videoHeight };
+  if ('naturalWidth' in source) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+}
+
+export function sortFilesByName(files: File[]): File[] {
+  return [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
@@ -0,0 +1,366 @@
+import type { BBox } from './bbox';
+import type { Taxonomy } from '../types/taxonomy';
+import type { Redaction } from '../types/privacy';
+import type { InstanceMask } from '../types/detector';
+import type { Keypoint } from '../types/pose';
+import { DEFAULT_TAXONOMY, classColor } from './taxonomy';
+import { applyRedactions, placeRedactions } from './redaction';
+import { COCO_SKELETON, MIN_KEYPOINT_SCORE } from './pose';
+
+export interface OverlayStyle {
+  // Used for classes without a category
+  defaultColor: string;
+  lineWidth: number;
+  fontFamily: string;
+  // Label size scales with box width between these bounds
+  minFontSize: number;
+  maxFontSize: number;
+  showIds: boolean;
+  // Use the class description from the taxonomy instead of its name
+  showDescriptions: boolean;
+  showScores: boolean;
+  showConfidenceBars: boolean;
+  showPredicted: boolean;
+  showTrails: boolean;
+  // Centroids kept per track
+  trailLength: number;
+  // Draw a decaying density map of where objects have been
+  heatmap: boolean;
+  // Fraction of heat kept from one frame to the next
+  heatmapDecay: number;
+  // Fill instance masks of segmentation models in the class color
+  showMasks: boolean;
+  // Draw keypoints and skeletons of pose models
+  showSkeletons: boolean;
+  // Flip horizontally, to match a mirrored front-camera preview
+  mirror: boolean;
+}
+
+export const DEFAULT_OVERLAY_STYLE: OverlayStyle = {
+  defaultColor: '#ffffff',
+  lineWidth: 2,
+  fontFamily: 'Arial',
+  minFontSize: 12,
+  maxFontSize: 16,
+  showIds: true,
+  showDescriptions: false,
+  showScores: true,
+  showConfidenceBars: false,
+  showPredicted: true,
+  showTrails: true,
+  trailLength: 30,
+  heatmap: false,
+  heatmapDecay: 0.97,
+  showMasks: true,
+  showSkeletons: true,
+  mirror: false
+};
+
+// A box to draw: a tracked entity when id is set, else a raw detection
+export interface OverlayItem {
+  id?: number;
+  class: string;
+  bbox: BBox;
+  score: number;
+  predicted?: boolean;
+  mask?: InstanceMask;
+  keypoints?: Keypoint[];
+}
+
+export interface RenderOptions {
+  // Drawn first, e.g. the video frame when the canvas replaces the video
+  background?: CanvasImageSource;
+  // Regions of the background to blur, pixelate or mask, in frame pixels
+  redactions?: Redaction[];
+  // Boxes moved ahead of the last analysed frame; drawn without adding to
+  // trails or heat, which follow analysed frames only
+  extrapolated?: boolean;
+}
+
+const HEATMAP_CELL = 16;
+const MASK_OPACITY = 0.4;
+
+// Draws detections and tracks onto a canvas in frame coordinates. Keeps the
+// per-track state trails and heatmaps need, so use one renderer per view.
+export class OverlayRenderer {
+  private style: OverlayStyle;
+  private taxonomy: Taxonomy = DEFAULT_TAXONOMY;
+  private trails = new Map<number, { points: Array<[number, number]>; lastFrame: number }>();
+  private heat: Float32Array | null = null;
+  private heatColumns = 0;
+  private heatRows = 0;
+  private frame = 0;
+  private maskCanvas: HTMLCanvasElement | null = null;
+
+  constructor(style: Partial<OverlayStyle> = {}) {
+    this.style = { ...DEFAULT_OVERLAY_STYLE, ...style };
+  }
+
+  configure(style: Partial<OverlayStyle>): void {
+    this.style = { ...this.style, ...style };
+    if (!this.style.heatmap) this.heat = null;
+  }
+
+  getStyle(): OverlayStyle {
+    return { ...this.style };
+  }
+
+  // Categories, colors and descriptions of classes
+  setTaxonomy(taxonomy: Taxonomy): void {
+    this.taxonomy = taxonomy;
+  }
+
+  colorFor(className: string): string {
+    return classColor(this.taxonomy, className) || this.style.defaultColor;
+  }
+
+  // Forget trails and heat, e.g. after seeking or switching input
+  reset(): void {
+    this.trails.clear();
+    this.heat = null;
+  }
+
+  render(
+    ctx: CanvasRenderingContext2D,
+    items: OverlayItem[],
+    width: number,
+    height: number,
+    options: RenderOptions = {}
+  ): void {
+    const { style } = this;
+    if (!options.extrapolated) this.frame++;
+
+    ctx.clearRect(0, 0, width, height);
+    if (options.background) {
+      ctx.save();
+      if (style.mirror) {
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+      }
+      ctx.drawImage(options.background, 0, 0, width, height);
+      ctx.restore();
+      if (options.redactions) {
+        applyRedactions(ctx, placeRedactions(options.redactions, { mirrorWidth: style.mirror ? width : undefined }));
+      }
+    }
+
+    const visible = items
+      .filter(item => style.showPredicted || !item.predicted)
+      .map(item => style.mirror
+        ? {
+          ...item,
+          bbox: this.mirrorBox(item.bbox, width),
+          keypoints: item.keypoints?.map(keypoint => ({ ...keypoint, x: width - keypoint.x }))
+        }
+        : item);
+
+    if (style.heatmap) {
+      if (!options.extrapolated) this.updateHeat(visible, width, height);
+      this.drawHeat(ctx);
+    }
+    if (!options.extrapolated) this.updateTrails(visible);
+    if (style.showTrails) {
+      visible.forEach(item => item.id !== undefined && this.drawTrail(ctx, item));
+    }
+    if (style.showMasks) {
+      visible.forEach(item => item.mask && this.drawMask(ctx, item, item.mask));
+    }
+    visible.forEach(item => this.drawItem(ctx, item));
+    if (style.showSkeletons) {
+      visible.forEach(item => item.keypoints && this.drawSkeleton(ctx, item, item.keypoints));
+    }
+  }
+
+  private mirrorBox([x, y, w, h]: BBox, width: number): BBox {
+    return [width - x - w, y, w, h];
+  }
+
+  private drawItem(ctx: CanvasRenderingContext2D, item: OverlayItem) {
+    const { style } = this;
+    const [x, y, width, height] = item.bbox;
+    const color = this.colorFor(item.class);
+
+    // Draw bounding box; predicted positions are dashed
+    ctx.strokeStyle = color;
+    ctx.lineWidth = style.lineWidth;
+    ctx.setLineDash(item.predicted ? [6, 4] : []);
+    ctx.strokeRect(x, y, width, height);
+    ctx.setLineDash([]);
+
+    if (style.showConfidenceBars) {
+      const barHeight = height * Math.min(Math.max(item.score, 0), 1);
+      ctx.fillStyle = `${color}55`;
+      ctx.fillRect(x - 6, y, 4, height);
+      ctx.fillStyle = color;
+      ctx.fillRect(x - 6, y + height - barHeight, 4, barHeight);
+    }
+
+    const parts: string[] = [];
+    if (style.showIds && item.id !== undefined) parts.push(`#${item.id}`);
+    parts.push(style.showDescriptions
+      ? this.taxonomy.classes[item.class]?.description || item.class
+      : item.class);
+    if (style.showScores) parts.push(`${Math.round(item.score * 100)}%`);
+    if (item.predicted) parts.push('predicted');
+    const label = parts.join(' ');
+
+    // Draw label background
+    const fontSize = Math.max(style.minFontSize, Math.min(style.maxFontSize, width / 10));
+    ctx.font = `${fontSize}px ${style.fontFamily}`;
+    const textWidth = ctx.measureText(label).width;
+    const padding = 4;
+    // Keep the label inside the frame for boxes touching the top edge
+    const labelTop = y - fontSize - padding * 2 >= 0 ? y - fontSize - padding * 2 : y;
+
+    ctx.fillStyle = item.predicted ? `${color}88` : `${color}dd`;
+    ctx.fillRect(x - 1, labelTop, textWidth + padding * 2, fontSize + padding * 2);
+
+    // Draw label text
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(label, x + padding, labelTop + fontSize + padding);
+  }
+
+  // Masks are painted white where the object is, tinted with the class
+  // color, then stretched over the box
+  private drawMask(ctx: CanvasRenderingContext2D, item: OverlayItem, mask: InstanceMask) {
+    const canvas = this.maskCanvas ?? (this.maskCanvas = document.createElement('canvas'));
+    canvas.width = mask.width;
+    canvas.height = mask.height;
+    const maskCtx = canvas.getContext('2d');
+    if (!maskCtx) return;
+
+    const image = maskCtx.createImageData(mask.width, mask.height);
+    for (let i = 0; i < mask.data.length; i++) {
+      if (!mask.data[i]) continue;
+      image.data.fill(255, i * 4, i * 4 + 4);
+    }
+    maskCtx.putImageData(image, 0, 0);
+    maskCtx.globalCompositeOperation = 'source-in';
+    maskCtx.fillStyle = this.colorFor(item.class);
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+
+    const [x, y, width, height] = item.bbox;
+    ctx.save();
+    ctx.globalAlpha = item.predicted ? MASK_OPACITY / 2 : MASK_OPACITY;
+    if (this.style.mirror) {
+      ctx.translate(x + width, y);
+      ctx.scale(-1, 1);
+      ctx.drawImage(canvas, 0, 0, width, height);
+    } else {
+      ctx.drawImage(canvas, x, y, width, height);
+    }
+    ctx.restore();
+  }
+
+  private drawSkeleton(ctx: CanvasRenderingContext2D, item: OverlayItem, keypoints: Keypoint[]) {
+    const color = this.colorFor(item.class);
+    const isVisible = (keypoint?: Keypoint) => keypoint !== undefined && keypoint.score >= MIN_KEYPOINT_SCORE;
+
+    ctx.save();
+    ctx.globalAlpha = item.predicted ? 0.5 : 1;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = this.style.lineWidth;
+    COCO_SKELETON.forEach(([from, to]) => {
+      const a = keypoints[from];
+      const b = keypoints[to];
+      if (!isVisible(a) || !isVisible(b)) return;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    });
+
+    ctx.fillStyle = '#ffffff';
+    keypoints.forEach(keypoint => {
+      if (!isVisible(keypoint)) return;
+      ctx.beginPath();
+      ctx.arc(keypoint.x, keypoint.y, this.style.lineWidth + 1, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    ctx.restore();
+  }
+
+  private updateTrails(items: OverlayItem[]) {
+    items.forEach(item => {
+      if (item.id === undefined) return;
+      const [x, y, width, height] = item.bbox;
+      const trail = this.trails.get(item.id) || { points: [], lastFrame: this.frame };
+      trail.points.push([x + width / 2, y + height / 2]);
+      if (trail.points.length > this.style.trailLength) {
+        trail.points.splice(0, trail.points.length - this.style.trailLength);
+      }
+      trail.lastFrame = this.frame;
+      this.trails.set(item.id, trail);
+    });
+
+    // Drop trails of tracks that have not been drawn for a while
+    this.trails.forEach((trail, id) => {
+      if (this.frame - trail.lastFrame > this.style.trailLength) this.trails.delete(id);
+    });
+  }
+
+  private drawTrail(ctx: CanvasRenderingContext2D, item: OverlayItem) {
+    const points = this.trails.get(item.id!)?.points;
+    if (!points || points.length < 2) return;
+
+    ctx.strokeStyle = this.colorFor(item.class);
+    ctx.lineWidth = Math.max(1, this.style.lineWidth - 0.5);
+    for (let i = 1; i < points.length; i++) {
+      // Older segments fade out
+      ctx.globalAlpha = i / points.length;
+      ctx.beginPath();
+      ctx.moveTo(points[i - 1][0], points[i - 1][1]);
+      ctx.lineTo(points[i][0], points[i][1]);
+      ctx.stroke();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private updateHeat(items: OverlayItem[], width: number, height: number) {
+    const columns = Math.ceil(width / HEATMAP_CELL);
+    const rows = Math.ceil(height / HEATMAP_CELL);
+    if (!this.heat || columns !== this.heatColumns || rows !== this.heatRows) {
+      this.heat = new Float32Array(columns * rows);
+      this.heatColumns = columns;
+      this.heatRows = rows;
+    }
+
+    const heat = this.heat;
+    for (let i = 0; i < heat.length; i++) heat[i] *= this.style.heatmapDecay;
+
+    items.forEach(item => {
+      if (item.predicted) return;
+      const [x, y, w, h] = item.bbox;
+      const column = Math.floor((x + w / 2) / HEATMAP_CELL);
+      const row = Math.floor((y + h / 2) / HEATMAP_CELL);
+      // Spread each centroid over its neighbouring cells
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = column + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= columns || r >= rows) continue;
+          heat[r * columns + c] += dx === 0 && dy === 0 ? 1 : 0.5;
+        }
+      }
+    });
+  }
+
+  private drawHeat(ctx: CanvasRenderingContext2D) {
+    const heat = this.heat;
+    if (!heat) return;
+
+    let max = 0;
+    for (let i = 0; i < heat.length; i++) max = Math.max(max, heat[i]);
+    if (max <= 0) return;
+
+    for (let row = 0; row < this.heatRows; row++) {
+      for (let column = 0; column < this.heatColumns; column++) {
+        const value = heat[row * this.heatColumns + column] / max;
+        if (value < 0.05) continue;
+        // Blue through red as density increases
+        ctx.fillStyle = `hsla(${Math.round(240 * (1 - value))}, 100%, 50%, ${0.15 + value * 0.4})`;
+        ctx.fillRect(column * HEATMAP_CELL, row * HEATMAP_CELL, HEATMAP_CELL, HEATMAP_CELL);
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import type { Keypoint, PoseLabel } from '../types/pose';
+
+// Keypoint order of COCO-trained pose models
+export const COCO_KEYPOINTS = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist',
+  'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+];
+
+// Keypoint index pairs joined by the skeleton overlay
+export const COCO_SKELETON: Array<[number, number]> = [
+  [15, 13], [13, 11], [16, 14], [14, 12], [11, 12], [5, 11], [6, 12], [5, 6], [5, 7],
+  [6, 8], [7, 9], [8, 10], [1, 2], [0, 1], [0, 2], [1, 3], [2, 4], [3, 5], [4, 6]
+];
+
+export const POSE_LABELS: { [K in PoseLabel]: string } = {
+  fallen: 'fallen',
+  'hand-raised': 'hand raised'
+};
+
+// Keypoints below this visibility are treated as missing
+export const MIN_KEYPOINT_SCORE = 0.5;
+
+// A torso tilted further than this from vertical counts as fallen, in degrees
+const FALLEN_TORSO_ANGLE = 60;
+
+const NOSE = 0;
+const SHOULDERS = [5, 6];
+const WRISTS = [9, 10];
+const HIPS = [11, 12];
+
+function visible(keypoints: Keypoint[], index: number): Keypoint | null {
+  const keypoint = keypoints[index];
+  return keypoint && keypoint.score >= MIN_KEYPOINT_SCORE ? keypoint : null;
+}
+
+// Midpoint of whichever of a left/right pair is visible
+function midpoint(keypoints: Keypoint[], [left, right]: number[]): [number, number] | null {
+  const points = [visible(keypoints, left), visible(keypoints, right)].filter((k): k is Keypoint => k !== null);
+  if (points.length === 0) return null;
+  return [
+    points.reduce((sum, k) => sum + k.x, 0) / points.length,
+    points.reduce((sum, k) => sum + k.y, 0) / points.length
+  ];
+}
+
+export function translateKeypoints(keypoints: Keypoint[], dx: number, dy: number): Keypoint[] {
+  return keypoints.map(keypoint => ({ ...keypoint, x: keypoint.x + dx, y: keypoint.y + dy }));
+}
+
+// Simple geometric pose checks on one frame's keypoints. fallen: the line
+// from shoulders to hips lies closer to horizontal than vertical.
+// hand-raised: an upright person has a wrist above its shoulder and head.
+export function detectPoses(keypoints: Keypoint[]): PoseLabel[] {
+  const shoulders = midpoint(keypoints, SHOULDERS);
+  const hips = midpoint(keypoints, HIPS);
+  if (shoulders && hips) {
+    const dx = Math.abs(shoulders[0] - hips[0]);
+    const dy = Math.abs(shoulders[1] - hips[1]);
+    if (dx + dy > 0 && Math.atan2(dx, dy) * 180 / Math.PI > FALLEN_TORSO_ANGLE) {
+      return ['fallen'];
+    }
+  }
+
+  const nose = visible(keypoints, NOSE);
+  const handRaised = WRISTS.some((wristIndex, side) => {
+    const wrist = visible(keypoints, wristIndex);
+    const shoulder = visible(keypoints, SHOULDERS[side]);
+    return wrist !== null && shoulder !== null && wrist.y < shoulder.y && (!nose || wrist.y < nose.y);
+  });
+  return handRaised ? ['hand-raised'] : [];
+}
@@ -0,0 +1,130 @@
+import type { BBox } from './bbox';
+import type { PrivacySettings, Redaction, RedactionRule } from '../types/privacy';
+
+export const DEFAULT_REDACTION_RULE: RedactionRule = { method: 'blur', strength: 0.15 };
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  enabled: false,
+  rules: { person: DEFAULT_REDACTION_RULE },
+  minScore: 0.3,
+  padding: 0.15
+};
+
+// Blur radius and pixel blocks never get finer than this, in pixels
+const MIN_DETAIL = 4;
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+// Padded regions to redact for the objects of redacted classes. Empty while
+// privacy mode is off.
+export function redactionsFor(
+  objects: Array<{ class: string; bbox: BBox }>,
+  settings: PrivacySettings
+): Redaction[] {
+  if (!settings.enabled) return [];
+
+  const redactions: Redaction[] = [];
+  objects.forEach(object => {
+    const rule = settings.rules[object.class];
+    if (!rule) return;
+    const [x, y, width, height] = object.bbox;
+    const padX = width * settings.padding;
+    const padY = height * settings.padding;
+    redactions.push({
+      bbox: [x - padX, y - padY, width + padX * 2, height + padY * 2],
+      method: rule.method,
+      strength: rule.strength
+    });
+  });
+  return redactions;
+}
+
+// Regions to redact in an analysed frame: its redaction targets plus its
+// tracked objects, where the detector found them in that frame
+export function frameRedactions(
+  result: { entities: Array<{ class: string; bbox: BBox }>; redactTargets: Array<{ class: string; bbox: BBox }> },
+  settings: PrivacySettings
+): Redaction[] {
+  return redactionsFor([...result.redactTargets, ...result.entities], settings);
+}
+
+// Maps redactions from frame pixels onto a canvas showing the frame mirrored
+// (when mirrorWidth is the frame width), scaled, and cropped at an offset
+export function placeRedactions(
+  redactions: Redaction[],
+  { scale = 1, offsetX = 0, offsetY = 0, mirrorWidth }: {
+    scale?: number;
+    offsetX?: number;
+    offsetY?: number;
+    mirrorWidth?: number;
+  } = {}
+): Redaction[] {
+  return redactions.map(redaction => {
+    const [x, y, width, height] = redaction.bbox;
+    const left = mirrorWidth !== undefined ? mirrorWidth - x - width : x;
+    return {
+      ...redaction,
+      bbox: [left * scale - offsetX, y * scale - offsetY, width * scale, height * scale]
+    };
+  });
+}
+
+// Redacts regions of what is already drawn on the canvas, in place
+export function applyRedactions(ctx: CanvasRenderingContext2D, redactions: Redaction[]): void {
+  const { width, height } = ctx.canvas;
+
+  redactions.forEach(redaction => {
+    const x = Math.max(0, Math.floor(redaction.bbox[0]));
+    const y = Math.max(0, Math.floor(redaction.bbox[1]));
+    const right = Math.min(width, Math.ceil(redaction.bbox[0] + redaction.bbox[2]));
+    const bottom = Math.min(height, Math.ceil(redaction.bbox[1] + redaction.bbox[3]));
+    if (right - x < 1 || bottom - y < 1) return;
+
+    const detail = Math.max(MIN_DETAIL, redaction.strength * Math.max(redaction.bbox[2], redaction.bbox[3]));
+    const scratch = scratchCanvas ?? (scratchCanvas = document.createElement('canvas'));
+    const scratchCtx = scratch.getContext('2d');
+    // Browsers without canvas filters pixelate instead of leaving the region as is
+    const method = redaction.method === 'blur' && typeof ctx.filter !== 'string' ? 'pixelate' : redaction.method;
+
+    ctx.save();
+    if (method === 'mask' || !scratchCtx) {
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(x, y, right - x, bottom - y);
+    } else if (method === 'pixelate') {
+      scratch.width = Math.max(1, Math.ceil((right - x) / detail));
+      scratch.height = Math.max(1, Math.ceil((bottom - y) / detail));
+      scratchCtx.drawImage(ctx.canvas, x, y, right - x, bottom - y, 0, 0, scratch.width, scratch.height);
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, x, y, right - x, bottom - y);
+    } else {
+      // Blur a larger area so the region's edges are blurred from real
+      // pixels, and fill it first so edges that blur into transparency at
+      // the frame border fade to black rather than to the original
+      const margin = Math.ceil(detail * 2);
+      const left = Math.max(0, x - margin);
+      const top = Math.max(0, y - margin);
+      scratch.width = Math.min(width, right + margin) - left;
+      scratch.height = Math.min(height, bottom + margin) - top;
+      scratchCtx.drawImage(ctx.canvas, left, top, scratch.width, scratch.height, 0, 0, scratch.width, scratch.height);
+
+      ctx.beginPath();
+      ctx.rect(x, y, right - x, bottom - y);
+      ctx.clip();
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(x, y, right - x, bottom - y);
+      ctx.filter = `blur(${detail}px)`;
+      ctx.drawImage(scratch, left, top);
+    }
+    ctx.restore();
+  });
+}
+
+// Fills in settings missing from older saved settings
+export function normalizePrivacySettings(settings: Partial<PrivacySettings>): PrivacySettings {
+  return {
+    enabled: settings.enabled === true,
+    rules: settings.rules && typeof settings.rules === 'object' ? { ...settings.rules } : DEFAULT_PRIVACY_SETTINGS.rules,
+    minScore: typeof settings.minScore === 'number' ? settings.minScore : DEFAULT_PRIVACY_SETTINGS.minScore,
+    padding: typeof settings.padding === 'number' ? settings.padding : DEFAULT_PRIVACY_SETTINGS.padding
+  };
+}
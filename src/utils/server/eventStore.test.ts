@@ -0,0 +1,57 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { FileEventStore } from './eventStore';
+import type { SinkEvent } from '../../types/events';
+
+const event = (id: string, timestamp = 1): SinkEvent => ({
+  id,
+  type: 'alert',
+  timestamp,
+  source: 'tab-test',
+  ruleId: 'rule',
+  ruleName: 'Rule',
+  message: 'fired',
+  entityIds: []
+});
+
+const ids = (events: SinkEvent[]) => events.map(e => e.id);
+
+describe('FileEventStore', () => {
+  const dirs: string[] = [];
+  const createDir = () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'event-store-'));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterEach(() => {
+    dirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }));
+  });
+
+  it('stores a retried batch only once', async () => {
+    const store = new FileEventStore(createDir());
+    expect(ids(await store.append([event('a'), event('b')]))).toEqual(['a', 'b']);
+    expect(ids(await store.append([event('b'), event('c')]))).toEqual(['c']);
+    expect(ids(await store.query({ limit: 10 }))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('de-duplicates concurrent appends and ids within a batch', async () => {
+    const dir = createDir();
+    const [first, second] = await Promise.all([
+      new FileEventStore(dir).append([event('a'), event('b')]),
+      new FileEventStore(dir).append([event('b'), event('c'), event('c')])
+    ]);
+    expect(ids(first)).toEqual(['a', 'b']);
+    expect(ids(second)).toEqual(['c']);
+  });
+
+  it('filters queries by time and type', async () => {
+    const store = new FileEventStore(createDir());
+    await store.append([event('a', 1), event('b', 5), event('c', 9)]);
+    expect(ids(await store.query({ limit: 10, since: 4 }))).toEqual(['b', 'c']);
+    expect(ids(await store.query({ limit: 1 }))).toEqual(['c']);
+    expect(await store.query({ limit: 10, types: ['frame'] })).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SinkEvent } from '../../types/events';
+
+// The current log is rotated to a single backup beyond this size
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const FILE_NAME = 'events.jsonl';
+const BACKUP_NAME = 'events.1.jsonl';
+const DEFAULT_DIR = '.data/events';
+
+export interface EventQuery {
+  limit: number;
+  // Only events with a timestamp after this
+  since?: number;
+  types?: string[];
+  source?: string;
+}
+
+// Ids of events already stored, per directory, and the append in progress
+interface StoreState {
+  ids: Promise<Set<string>>;
+  writes: Promise<unknown>;
+}
+
+// Ids remembered for de-duplication; retries arrive within minutes
+const MAX_RECENT_IDS = 50000;
+const states = new Map<string, StoreState>();
+
+// Appends events to a JSON Lines file on the server's disk and reads the
+// most recent ones back. Events whose id was stored before are skipped, so
+// a batch retried after a lost response is only kept once. Server-only.
+export class FileEventStore {
+  constructor(private dir: string) {}
+
+  // Resolves with the events that were new and have been written
+  append(events: SinkEvent[]): Promise<SinkEvent[]> {
+    const state = this.state();
+    // Appends run one at a time so a retry can't pass a write of the same ids
+    const result = state.writes.then(async () => {
+      const ids = await state.ids;
+      const fresh = events.filter(event => {
+        if (ids.has(event.id)) return false;
+        ids.add(event.id);
+        return true;
+      });
+      if (fresh.length === 0) return fresh;
+
+      try {
+        await this.write(fresh);
+      } catch (error) {
+        // Let a retry store them
+        fresh.forEach(event => ids.delete(event.id));
+        throw error;
+      }
+      for (const id of ids) {
+        if (ids.size <= MAX_RECENT_IDS) break;
+        ids.delete(id);
+      }
+      return fresh;
+    });
+    state.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  // Most recent matching events, oldest first
+  async query({ limit, since, types, source }: EventQuery): Promise<SinkEvent[]> {
+    const matches = (event: SinkEvent) =>
+      (since === undefined || event.timestamp > since) &&
+      (!types || types.length === 0 || types.includes(event.type)) &&
+      (!source || event.source === source);
+
+    const current = (await this.readFile(FILE_NAME)).filter(matches);
+    if (current.length >= limit) return current.slice(-limit);
+
+    const backup = (await this.readFile(BACKUP_NAME)).filter(matches);
+    return [...backup, ...current].slice(-limit);
+  }
+
+  private state(): StoreState {
+    let state = states.get(this.dir);
+    if (!state) {
+      const ids = Promise.all([this.readFile(BACKUP_NAME), this.readFile(FILE_NAME)])
+        .then(([backup, current]) => new Set([...backup, ...current].slice(-MAX_RECENT_IDS).map(event => event.id)));
+      state = { ids, writes: Promise.resolve() };
+      states.set(this.dir, state);
+    }
+    return state;
+  }
+
+  private async write(events: SinkEvent[]): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const file = path.join(this.dir, FILE_NAME);
+    const size = await fs.stat(file).then(stats => stats.size, () => 0);
+    if (size > MAX_FILE_BYTES) {
+      await fs.rename(file, path.join(this.dir, BACKUP_NAME));
+    }
+    await fs.appendFile(file, events.map(event => JSON.stringify(event)).join('\n') + '\n', 'utf8');
+  }
+
+  private async readFile(name: string): Promise<SinkEvent[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(path.join(this.dir, name), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const events: SinkEvent[] = [];
+    text.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // A partial line from an interrupted write
+      }
+    });
+    return events;
+  }
+}
+
+// EVENT_STORE_DIR sets where events are kept; "off" disables the file store
+export function eventStoreFromEnv(): FileEventStore | null {
+  const dir = process.env.EVENT_STORE_DIR ?? DEFAULT_DIR;
+  if (dir === 'off') return null;
+  return new FileEventStore(path.resolve(dir));
+}
@@ -0,0 +1,172 @@
+import path from 'node:path';
+import * as jpeg from 'jpeg-js';
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { DetectOptions, DetectorConfig, RemoteDetectResponse } from '@/types/detector';
+import { classAwareNms } from '@/utils/detectors/nms';
+import { decodeYoloNas, decodeYoloV8, letterboxGeometry } from '@/utils/detectors/yoloDecode';
+import cocoClasses from '@/utils/cocoClasses.json';
+
+const DEFAULT_INPUT_SIZE = 640;
+const DEFAULT_IOU_THRESHOLD = 0.45;
+const DEFAULT_MIN_SCORE = 0.25;
+const DEFAULT_MAX_DETECTIONS = 100;
+const LETTERBOX_FILL = 114 / 255;
+const MAX_IMAGE_MEGAPIXELS = 16;
+
+// A decoded RGB image, three bytes per pixel
+interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+interface NodeDetector {
+  detect(image: RgbImage, options: DetectOptions): Promise<DetectedObject[]>;
+  dispose(): void;
+}
+
+export function decodeJpeg(bytes: Uint8Array): RgbImage {
+  const { width, height, data } = jpeg.decode(bytes, {
+    useTArray: true,
+    formatAsRGBA: false,
+    maxResolutionInMP: MAX_IMAGE_MEGAPIXELS
+  });
+  return { width, height, data };
+}
+
+// COCO-SSD runs on the pure JavaScript CPU backend, so no native TensorFlow
+// build is needed
+async function loadCocoSsd(config: Extract<DetectorConfig, { kind: 'coco-ssd' }>): Promise<NodeDetector> {
+  const tf = await import('@tensorflow/tfjs');
+  const cocoSsd = await import('@tensorflow-models/coco-ssd');
+  await tf.setBackend('cpu');
+  const model = await cocoSsd.load({ base: config.base || 'lite_mobilenet_v2' });
+
+  return {
+    async detect(image, options) {
+      const pixels = tf.tensor3d(image.data, [image.height, image.width, 3], 'int32');
+      try {
+        return await model.detect(pixels, options.maxDetections, options.minScore);
+      } finally {
+        pixels.dispose();
+      }
+    },
+    dispose: () => model.dispose()
+  };
+}
+
+// Model URLs are paths under public/, as served to the browser. Anything
+// else is refused so clients can't read arbitrary files.
+export function isServerModelUrl(modelUrl: string): boolean {
+  return /^\/models\/[\w./-]+\.onnx$/.test(modelUrl) && !modelUrl.includes('..');
+}
+
+function resolveModelPath(modelUrl: string): string {
+  if (!isServerModelUrl(modelUrl)) {
+    throw new Error('Model must be an .onnx file under /models/');
+  }
+  return path.join(process.cwd(), 'public', modelUrl);
+}
+
+// Bilinear resize into a padded square, as a normalised CHW float tensor
+function letterboxTensor(image: RgbImage, size: number): Float32Array {
+  const { width, height, data } = image;
+  const { scale, padX, padY } = letterboxGeometry(width, height, size);
+  const left = Math.floor(padX);
+  const top = Math.floor(padY);
+  const scaledWidth = Math.round(width * scale);
+  const scaledHeight = Math.round(height * scale);
+  const area = size * size;
+  const chw = new Float32Array(3 * area).fill(LETTERBOX_FILL);
+
+  for (let y = 0; y < scaledHeight; y++) {
+    const sy = Math.min(height - 1, Math.max(0, (y + 0.5) / scale - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(height - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < scaledWidth; x++) {
+      const sx = Math.min(width - 1, Math.max(0, (x + 0.5) / scale - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const fx = sx - x0;
+      const i = (top + y) * size + left + x;
+      for (let c = 0; c < 3; c++) {
+        const top0 = data[(y0 * width + x0) * 3 + c] * (1 - fx) + data[(y0 * width + x1) * 3 + c] * fx;
+        const bottom0 = data[(y1 * width + x0) * 3 + c] * (1 - fx) + data[(y1 * width + x1) * 3 + c] * fx;
+        chw[c * area + i] = (top0 * (1 - fy) + bottom0 * fy) / 255;
+      }
+    }
+  }
+  return chw;
+}
+
+async function loadYoloOnnx(config: Extract<DetectorConfig, { kind: 'yolo-onnx' }>): Promise<NodeDetector> {
+  const ort = await import('onnxruntime-node');
+  const session = await ort.InferenceSession.create(resolveModelPath(config.modelUrl), {
+    executionProviders: ['cpu'],
+    graphOptimizationLevel: 'all'
+  });
+  const size = config.inputSize || DEFAULT_INPUT_SIZE;
+  const iouThreshold = config.iouThreshold ?? DEFAULT_IOU_THRESHOLD;
+  const labels = config.labels && config.labels.length > 0 ? config.labels : Object.keys(cocoClasses);
+
+  return {
+    async detect(image, options) {
+      const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+      const letterbox = letterboxGeometry(image.width, image.height, size);
+      const tensor = new ort.Tensor('float32', letterboxTensor(image, size), [1, 3, size, size]);
+      const outputs = await session.run({ [session.inputNames[0]]: tensor });
+
+      const candidates = config.variant === 'yolo-nas'
+        ? decodeYoloNas(session.outputNames.map(name => outputs[name]), letterbox, labels, minScore)
+        : decodeYoloV8(outputs[session.outputNames[0]], letterbox, labels, minScore);
+      return classAwareNms(candidates, iouThreshold, options.maxDetections ?? DEFAULT_MAX_DETECTIONS);
+    },
+    dispose: () => void session.release()
+  };
+}
+
+// One model is kept loaded, keyed by its config, and frames are analysed one
+// at a time so concurrent requests don't compete for the CPU
+let cached: { key: string; detector: Promise<NodeDetector> } | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+
+function getDetector(config: DetectorConfig): Promise<NodeDetector> {
+  const key = JSON.stringify(config);
+  if (cached?.key !== key) {
+    const previous = cached?.detector;
+    const detector = config.kind === 'coco-ssd'
+      ? loadCocoSsd(config)
+      : config.kind === 'yolo-onnx'
+        ? loadYoloOnnx(config)
+        : Promise.reject(new Error('Server inference does not support open-vocabulary detection'));
+    cached = { key, detector };
+    // A failed load isn't cached, so the next request tries again
+    detector.catch(() => {
+      if (cached?.detector === detector) cached = null;
+    });
+    previous?.then(d => d.dispose(), () => {});
+  }
+  return cached.detector;
+}
+
+export function detectJpeg(
+  config: DetectorConfig,
+  bytes: Uint8Array,
+  options: DetectOptions = {}
+): Promise<RemoteDetectResponse> {
+  const run = queue.then(async () => {
+    const image = decodeJpeg(bytes);
+    const detector = await getDetector(config);
+    const start = performance.now();
+    const detections = await detector.detect(image, options);
+    return {
+      detections,
+      width: image.width,
+      height: image.height,
+      inferenceMs: performance.now() - start
+    };
+  });
+  queue = run.catch(() => {});
+  return run;
+}
@@ -0,0 +1,36 @@
+import type { EventBatch } from '../../types/events';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export interface WebhookResult {
+  url: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+// EVENT_WEBHOOK_URLS is a comma-separated list of URLs to forward batches to
+export function webhookUrlsFromEnv(): string[] {
+  return (process.env.EVENT_WEBHOOK_URLS ?? '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+}
+
+// Posts the batch to every webhook in parallel; one failing doesn't stop the others
+export async function forwardToWebhooks(urls: string[], batch: EventBatch): Promise<WebhookResult[]> {
+  const body = JSON.stringify(batch);
+  return Promise.all(urls.map(async (url): Promise<WebhookResult> => {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+      });
+      return { url, ok: response.ok, status: response.status };
+    } catch (error) {
+      return { url, ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+}
@@ -0,0 +1,206 @@
+import type { TrackedEntity } from '../types/entities';
+import type { AnalyticsBucket, AnalyticsSnapshot, BusyRegion, DwellStats } from '../types/analytics';
+
+const HEATMAP_COLUMNS = 32;
+const HEATMAP_ROWS = 18;
+const DEFAULT_BUCKET_MS = 5000;
+// Older buckets are merged pairwise beyond this, so long sessions stay cheap
+const MAX_BUCKETS = 240;
+const REGION_NAMES = [
+  ['top left', 'top', 'top right'],
+  ['left', 'centre', 'right'],
+  ['bottom left', 'bottom', 'bottom right']
+];
+
+interface Visit {
+  class: string;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+interface DwellTotal {
+  entities: number;
+  totalMs: number;
+}
+
+// Accumulates tracked entity centroids, per-class counts over time, dwell
+// times and occupancy over a whole session. Runs on the main thread against
+// tracker output, like ZoneCounter.
+export class SessionAnalytics {
+  private bucketMs: number;
+  private startedAt: number | null = null;
+  private lastTimestamp = 0;
+  private buckets: AnalyticsBucket[] = [];
+  private heat = new Float64Array(HEATMAP_COLUMNS * HEATMAP_ROWS);
+  private heatTotal = 0;
+  private visits = new Map<number, Visit>();
+  private completedDwell = new Map<string, DwellTotal>();
+  private seenByClass = new Map<string, number>();
+  private peakOccupancy = 0;
+  private peakOccupancyAt: number | null = null;
+
+  constructor(bucketMs = DEFAULT_BUCKET_MS) {
+    this.bucketMs = bucketMs;
+  }
+
+  update(entities: TrackedEntity[], frameWidth: number, frameHeight: number, timestamp: number): void {
+    if (frameWidth === 0 || frameHeight === 0) return;
+    if (this.startedAt === null) this.startedAt = timestamp;
+    this.lastTimestamp = Math.max(this.lastTimestamp, timestamp);
+
+    // Coasting predictions are where the tracker guesses an object is, not
+    // where it was seen
+    const observed = entities.filter(entity => !entity.isPredicted);
+    const counts: { [className: string]: number } = {};
+
+    observed.forEach(entity => {
+      counts[entity.class] = (counts[entity.class] || 0) + 1;
+
+      const [x, y, width, height] = entity.bbox;
+      const column = Math.floor(((x + width / 2) / frameWidth) * HEATMAP_COLUMNS);
+      const row = Math.floor(((y + height / 2) / frameHeight) * HEATMAP_ROWS);
+      if (column >= 0 && row >= 0 && column < HEATMAP_COLUMNS && row < HEATMAP_ROWS) {
+        this.heat[row * HEATMAP_COLUMNS + column]++;
+        this.heatTotal++;
+      }
+
+      const visit = this.visits.get(entity.id);
+      if (visit) {
+        visit.lastSeen = Math.max(visit.lastSeen, entity.lastSeen);
+      } else {
+        this.visits.set(entity.id, { class: entity.class, firstSeen: entity.firstSeen, lastSeen: entity.lastSeen });
+        this.seenByClass.set(entity.class, (this.seenByClass.get(entity.class) || 0) + 1);
+      }
+    });
+
+    const bucket = this.bucketAt(timestamp);
+    Object.entries(counts).forEach(([className, count]) => {
+      bucket.counts[className] = Math.max(bucket.counts[className] || 0, count);
+    });
+
+    if (observed.length > this.peakOccupancy) {
+      this.peakOccupancy = observed.length;
+      this.peakOccupancyAt = timestamp;
+    }
+
+    // Entities that have been dropped by the tracker complete their visit
+    const tracked = new Set(entities.map(entity => entity.id));
+    Array.from(this.visits.keys()).forEach(id => {
+      if (!tracked.has(id)) this.removeEntity(id);
+    });
+  }
+
+  removeEntity(id: number): void {
+    const visit = this.visits.get(id);
+    if (!visit) return;
+    this.visits.delete(id);
+    const total = this.completedDwell.get(visit.class) || { entities: 0, totalMs: 0 };
+    total.entities++;
+    total.totalMs += visit.lastSeen - visit.firstSeen;
+    this.completedDwell.set(visit.class, total);
+  }
+
+  getSnapshot(): AnalyticsSnapshot {
+    // Dwell of completed visits plus time seen so far for current ones
+    const dwellTotals = new Map<string, DwellTotal>();
+    this.completedDwell.forEach((total, className) => dwellTotals.set(className, { ...total }));
+    this.visits.forEach(visit => {
+      const total = dwellTotals.get(visit.class) || { entities: 0, totalMs: 0 };
+      total.entities++;
+      total.totalMs += visit.lastSeen - visit.firstSeen;
+      dwellTotals.set(visit.class, total);
+    });
+
+    const toDwellStats = (total: DwellTotal): DwellStats => ({
+      entities: total.entities,
+      averageDwellMs: total.entities > 0 ? total.totalMs / total.entities : 0
+    });
+    const dwellByClass: { [className: string]: DwellStats } = {};
+    const overall: DwellTotal = { entities: 0, totalMs: 0 };
+    dwellTotals.forEach((total, className) => {
+      dwellByClass[className] = toDwellStats(total);
+      overall.entities += total.entities;
+      overall.totalMs += total.totalMs;
+    });
+
+    return {
+      startedAt: this.startedAt,
+      durationMs: this.startedAt === null ? 0 : this.lastTimestamp - this.startedAt,
+      bucketMs: this.bucketMs,
+      buckets: this.buckets.map(bucket => ({ ...bucket, counts: { ...bucket.counts } })),
+      classes: Array.from(this.seenByClass.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([className]) => className),
+      dwell: toDwellStats(overall),
+      dwellByClass,
+      peakOccupancy: this.peakOccupancy,
+      peakOccupancyAt: this.peakOccupancyAt,
+      heatmap: { columns: HEATMAP_COLUMNS, rows: HEATMAP_ROWS, values: Array.from(this.heat) },
+      busiestRegions: this.busiestRegions()
+    };
+  }
+
+  reset(): void {
+    this.bucketMs = DEFAULT_BUCKET_MS;
+    this.startedAt = null;
+    this.lastTimestamp = 0;
+    this.buckets = [];
+    this.heat.fill(0);
+    this.heatTotal = 0;
+    this.visits.clear();
+    this.completedDwell.clear();
+    this.seenByClass.clear();
+    this.peakOccupancy = 0;
+    this.peakOccupancyAt = null;
+  }
+
+  private bucketAt(timestamp: number): AnalyticsBucket {
+    const index = Math.floor(Math.max(0, timestamp - (this.startedAt ?? timestamp)) / this.bucketMs);
+    while (this.buckets.length <= index) {
+      this.buckets.push({ start: this.buckets.length * this.bucketMs, counts: {} });
+    }
+    const bucket = this.buckets[index];
+    if (this.buckets.length > MAX_BUCKETS) {
+      this.mergeBuckets();
+      return this.bucketAt(timestamp);
+    }
+    return bucket;
+  }
+
+  // Halve the time resolution, keeping the peak count of each merged pair
+  private mergeBuckets() {
+    const merged: AnalyticsBucket[] = [];
+    for (let i = 0; i < this.buckets.length; i += 2) {
+      const counts = { ...this.buckets[i].counts };
+      Object.entries(this.buckets[i + 1]?.counts || {}).forEach(([className, count]) => {
+        counts[className] = Math.max(counts[className] || 0, count);
+      });
+      merged.push({ start: this.buckets[i].start, counts });
+    }
+    this.buckets = merged;
+    this.bucketMs *= 2;
+  }
+
+  // Sum the heat grid into a 3x3 layout of named regions
+  private busiestRegions(): BusyRegion[] {
+    if (this.heatTotal === 0) return [];
+
+    const sums = REGION_NAMES.map(names => names.map(() => 0));
+    for (let row = 0; row < HEATMAP_ROWS; row++) {
+      for (let column = 0; column < HEATMAP_COLUMNS; column++) {
+        const regionRow = Math.floor((row * 3) / HEATMAP_ROWS);
+        const regionColumn = Math.floor((column * 3) / HEATMAP_COLUMNS);
+        sums[regionRow][regionColumn] += this.heat[row * HEATMAP_COLUMNS + column];
+      }
+    }
+
+    return sums
+      .flatMap((columns, row) => columns.map((sum, column) => ({
+        name: REGION_NAMES[row][column],
+        share: sum / this.heatTotal
+      })))
+      .filter(region => region.share > 0)
+      .sort((a, b) => b.share - a.share)
+      .slice(0, 3);
+  }
+}
@@ -0,0 +1,209 @@
+import type { FrameResult, FrameSource } from '../types/worker';
+import type { RecordedSession, SessionFrame, SessionSidecar } from '../types/recording';
+import type { Redaction } from '../types/privacy';
+import { toRecordedFrame } from './frameRecorder';
+import { frameSourceSize } from './mediaSources';
+import { applyRedactions, placeRedactions } from './redaction';
+
+const CLIP_FPS = 30;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function isSessionRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype;
+}
+
+function pickMimeType(): string {
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+// Records a session as a WebM clip of the analysed frames, optionally with
+// the detection overlay drawn in, plus a sidecar of every result so the
+// overlay can be re-rendered on replay. Browser-only: create it on demand,
+// not during server rendering.
+export class SessionRecorder {
+  private canvas = document.createElement('canvas');
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private frames: SessionFrame[] = [];
+  private startedAt = 0;
+  private animationFrame: number | undefined;
+  private source: FrameSource | null = null;
+  private overlay: HTMLCanvasElement | null = null;
+  private mirror = false;
+  private redact = false;
+  private redactions: Redaction[] = [];
+  // The analysed frame the redactions belong to, recorded in place of the
+  // live source
+  private redactedFrame: ImageBitmap | null = null;
+
+  get isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  get elapsedMs(): number {
+    return this.recorder ? Date.now() - this.startedAt : 0;
+  }
+
+  // The overlay canvas is already in display orientation; mirror flips the
+  // source frame to match it.
+  start(source: FrameSource, overlay: HTMLCanvasElement | null, mirror = false): void {
+    if (this.recorder) return;
+    if (!isSessionRecordingSupported()) {
+      throw new Error('Session recording is not supported in this browser');
+    }
+
+    this.source = source;
+    this.overlay = overlay;
+    this.mirror = mirror;
+    this.redactions = [];
+    this.redactedFrame = null;
+    this.chunks = [];
+    this.frames = [];
+    this.drawFrame();
+
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(
+      this.canvas.captureStream(CLIP_FPS),
+      mimeType ? { mimeType } : undefined
+    );
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    recorder.start(1000);
+    this.recorder = recorder;
+    this.startedAt = Date.now();
+
+    const loop = () => {
+      this.drawFrame();
+      this.animationFrame = requestAnimationFrame(loop);
+    };
+    this.animationFrame = requestAnimationFrame(loop);
+  }
+
+  // Follows privacy mode, also mid-recording. While set, only the frames
+  // passed to setRedactions are recorded, and black until the first one;
+  // otherwise the live source is.
+  setRedact(redact: boolean): void {
+    this.redact = redact;
+    this.redactions = [];
+    this.redactedFrame = null;
+  }
+
+  // Regions to redact in recorded frames, in source pixels, and the
+  // analysed frame they were computed on, if any. The frame must stay open
+  // until the next call.
+  setRedactions(redactions: Redaction[], frame: ImageBitmap | null = null): void {
+    this.redactions = redactions;
+    this.redactedFrame = frame;
+  }
+
+  addResult(result: FrameResult): void {
+    if (!this.recorder) return;
+    this.frames.push({
+      ...toRecordedFrame(result, this.frames.length + 1),
+      offsetMs: Date.now() - this.startedAt
+    });
+  }
+
+  stop(): Promise<RecordedSession> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.reject(new Error('Not recording'));
+    }
+
+    if (this.animationFrame !== undefined) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = undefined;
+    }
+    this.recorder = null;
+    this.redactedFrame = null;
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        const mimeType = recorder.mimeType || 'video/webm';
+        const sidecar: SessionSidecar = {
+          version: 1,
+          startedAt: this.startedAt,
+          durationMs: Date.now() - this.startedAt,
+          width: this.canvas.width,
+          height: this.canvas.height,
+          mimeType,
+          overlayBurnedIn: this.overlay !== null,
+          mirrored: this.mirror,
+          frames: this.frames
+        };
+        resolve({ video: new Blob(this.chunks, { type: mimeType }), sidecar });
+        this.chunks = [];
+        this.frames = [];
+      };
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    });
+  }
+
+  private drawFrame() {
+    if (!this.source) return;
+    const source = this.redact ? this.redactedFrame : this.source;
+
+    const { width, height } = frameSourceSize(source ?? this.source);
+    if (width === 0 || height === 0) return;
+
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+    if (!source) {
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+
+    ctx.save();
+    if (this.mirror) {
+      ctx.translate(width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.restore();
+    if (this.redactions.length > 0) {
+      applyRedactions(ctx, placeRedactions(this.redactions, { mirrorWidth: this.mirror ? width : undefined }));
+    }
+    if (this.overlay && this.overlay.width > 0) {
+      ctx.drawImage(this.overlay, 0, 0, width, height);
+    }
+  }
+}
+
+export function serializeSidecar(sidecar: SessionSidecar): string {
+  return JSON.stringify(sidecar);
+}
+
+export function parseSidecar(text: string): SessionSidecar {
+  const parsed = JSON.parse(text);
+  if (parsed?.version !== 1 || !Array.isArray(parsed.frames)) {
+    throw new Error('Not a session sidecar file');
+  }
+  return parsed as SessionSidecar;
+}
+
+// The last frame shown at or before the given clip position, by binary search
+export function frameAtOffset(frames: SessionFrame[], offsetMs: number): SessionFrame | null {
+  let low = 0;
+  let high = frames.length - 1;
+  let found: SessionFrame | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (frames[middle].offsetMs <= offsetMs) {
+      found = frames[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,179 @@
+import type { TrackedEntity } from '../types/entities';
+import type { GallerySettings, Snapshot, SnapshotQuery } from '../types/gallery';
+import { STORES, isIndexedDbSupported, withStore } from './indexedDb';
+import { createZip } from './zip';
+
+export const DEFAULT_GALLERY_SETTINGS: GallerySettings = {
+  enabled: true,
+  maxSnapshots: 500,
+  maxAgeDays: 7
+};
+
+export const EMPTY_SNAPSHOT_QUERY: SnapshotQuery = { className: '', from: null, to: null };
+
+// Longer side of a stored crop, in pixels
+export const SNAPSHOT_SIZE = 256;
+
+// A better-scoring sighting replaces an entity's crop at most this often
+const RECAPTURE_INTERVAL_MS = 1000;
+// Retention limits are applied after this many writes
+const PRUNE_EVERY_WRITES = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BestCrop {
+  // Record holding the crop, once written
+  key: number | null;
+  score: number;
+  capturedAt: number;
+}
+
+// Keeps the highest-confidence crop of every tracked entity in IndexedDB.
+// Writes run one at a time, so an entity's better crop replaces its earlier
+// record instead of adding another. Entity ids restart with each session, so
+// call reset() whenever the tracker is reset.
+export class SnapshotGallery {
+  private settings: GallerySettings = DEFAULT_GALLERY_SETTINGS;
+  private best = new Map<number, BestCrop>();
+  private writes: Promise<void> = Promise.resolve();
+  private writesSincePrune = 0;
+  // Bumped whenever stored snapshots change, so views know to reload
+  version = 0;
+
+  configure(settings: GallerySettings): void {
+    this.settings = settings;
+    if (isIndexedDbSupported()) {
+      this.enqueue(() => this.prune()).catch(error => console.error('Error pruning snapshots:', error));
+    }
+  }
+
+  // Saves a crop of the entity if it is new or scores higher than its stored
+  // crop. capture is called straight away, while the frame is still current.
+  consider(entity: TrackedEntity, capture: () => Promise<Blob | null>): void {
+    if (!this.settings.enabled || entity.isPredicted || !isIndexedDbSupported()) return;
+    const crop = this.best.get(entity.id);
+    if (crop && (entity.score <= crop.score || entity.lastSeen - crop.capturedAt < RECAPTURE_INTERVAL_MS)) return;
+
+    const best = crop ?? { key: null, score: 0, capturedAt: 0 };
+    best.score = entity.score;
+    best.capturedAt = entity.lastSeen;
+    this.best.set(entity.id, best);
+
+    const image = capture();
+    const metadata = {
+      entityId: entity.id,
+      class: entity.class,
+      score: entity.score,
+      bbox: entity.bbox,
+      firstSeen: entity.firstSeen,
+      capturedAt: entity.lastSeen
+    };
+    this.enqueue(async () => {
+      const blob = await image;
+      if (!blob) return;
+      const snapshot: Snapshot = best.key === null ? { ...metadata, image: blob } : { ...metadata, key: best.key, image: blob };
+      best.key = await withStore(STORES.snapshots, 'readwrite', store => store.put(snapshot)) as number;
+      this.version++;
+      if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) await this.prune();
+    }).catch(error => console.error('Error saving snapshot:', error));
+  }
+
+  // Matching snapshots, newest first
+  async list(query: SnapshotQuery): Promise<Snapshot[]> {
+    if (!isIndexedDbSupported()) return [];
+    const className = query.className.trim().toLowerCase();
+    const snapshots = await withStore(STORES.snapshots, 'readonly', store => store.getAll()) as Snapshot[];
+    return snapshots
+      .filter(snapshot =>
+        (!className || snapshot.class.toLowerCase().includes(className)) &&
+        (query.from === null || snapshot.capturedAt >= query.from) &&
+        (query.to === null || snapshot.capturedAt <= query.to)
+      )
+      .sort((a, b) => b.capturedAt - a.capturedAt);
+  }
+
+  // Deleted entities still in view are not captured again this session
+  remove(keys: number[]): Promise<void> {
+    const removed = new Set(keys);
+    this.best.forEach(crop => {
+      if (crop.key !== null && removed.has(crop.key)) crop.score = Infinity;
+    });
+    return this.enqueue(async () => {
+      await withStore(STORES.snapshots, 'readwrite', store => {
+        keys.forEach(key => store.delete(key));
+        return store.count();
+      });
+      this.version++;
+    });
+  }
+
+  // Deletes every snapshot; objects still in view are captured afresh
+  clear(): Promise<void> {
+    this.best.clear();
+    return this.enqueue(async () => {
+      await withStore(STORES.snapshots, 'readwrite', store => store.clear());
+      this.version++;
+    });
+  }
+
+  // Forgets which entities have been captured, keeping the stored snapshots
+  reset(): void {
+    this.best.clear();
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(task);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  // Deletes snapshots past the age limit, then the oldest beyond the count
+  private async prune(): Promise<void> {
+    this.writesSincePrune = 0;
+    const { maxSnapshots, maxAgeDays } = this.settings;
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : -Infinity;
+    const snapshots = await withStore(STORES.snapshots, 'readonly', store => store.getAll()) as Snapshot[];
+    const expired = snapshots
+      .sort((a, b) => b.capturedAt - a.capturedAt)
+      .filter((snapshot, index) => index >= maxSnapshots || snapshot.capturedAt < cutoff)
+      .map(snapshot => snapshot.key as number);
+    if (expired.length === 0) return;
+
+    await withStore(STORES.snapshots, 'readwrite', store => {
+      expired.forEach(key => store.delete(key));
+      return store.count();
+    });
+    this.version++;
+  }
+}
+
+function fileName(snapshot: Snapshot): string {
+  const time = new Date(snapshot.capturedAt).toISOString().replace(/[:.]/g, '-');
+  const className = snapshot.class.replace(/[^\w-]+/g, '_');
+  return `snapshots/${time}-${className}-${snapshot.entityId}-${snapshot.key}.jpg`;
+}
+
+// ZIP of the crops with a snapshots.json listing each file's metadata
+export function snapshotsToZip(snapshots: Snapshot[]): Promise<Blob> {
+  const entries = snapshots.map(snapshot => ({
+    name: fileName(snapshot),
+    data: snapshot.image,
+    modified: snapshot.capturedAt
+  }));
+  const metadata = snapshots.map((snapshot, index) => ({
+    file: entries[index].name,
+    entityId: snapshot.entityId,
+    class: snapshot.class,
+    score: snapshot.score,
+    bbox: snapshot.bbox,
+    firstSeen: snapshot.firstSeen,
+    capturedAt: snapshot.capturedAt
+  }));
+  return createZip([
+    ...entries,
+    {
+      name: 'snapshots.json',
+      data: new Blob([JSON.stringify(metadata, null, 2)], { type: 'application/json' }),
+      modified: Date.now()
+    }
+  ]);
+}
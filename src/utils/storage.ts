@@ -0,0 +1,29 @@
+// JSON helpers for settings kept in localStorage. Reads fall back to the
+// given default when storage is unavailable (SSR, private mode) or corrupt.
+
+// Settings shared by the single-stream and multi-camera pages
+export const TRACKER_OPTIONS_KEY = 'next-client-yolo:tracker-options';
+export const OVERLAY_STYLE_KEY = 'next-client-yolo:overlay-style';
+export const TAXONOMY_KEY = 'next-client-yolo:taxonomy';
+export const DETECTION_FILTER_KEY = 'next-client-yolo:detection-filter';
+export const PRIVACY_KEY = 'next-client-yolo:privacy';
+
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Error reading ${key} from localStorage:`, error);
+    return fallback;
+  }
+}
+
+export function saveToStorage<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error writing ${key} to localStorage:`, error);
+  }
+}
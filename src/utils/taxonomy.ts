@@ -0,0 +1,132 @@
+import type { Taxonomy, TaxonomyCategory, TaxonomyClass, TaxonomyFile } from '../types/taxonomy';
+import cocoClasses from './cocoClasses.json';
+
+type CocoClasses = {
+  [key: string]: { category: string; description: string };
+};
+
+const typedCocoClasses = cocoClasses as CocoClasses;
+
+// Category of classes missing from the taxonomy or not assigned to one
+export const UNKNOWN_CATEGORY = 'unknown';
+
+// Define colors for each category
+export const CATEGORY_COLORS: { [category: string]: string } = {
+  people: '#FF0000',     // Red
+  vehicle: '#00FF00',    // Green
+  animal: '#0000FF',     // Blue
+  sports: '#FFA500',     // Orange
+  food: '#800080',       // Purple
+  kitchen: '#008080',    // Teal
+  furniture: '#FFD700',  // Gold
+  electronics: '#FF69B4', // Hot Pink
+  appliance: '#4B0082',  // Indigo
+  indoor: '#20B2AA',     // Light Sea Green
+  outdoor: '#FF6347',    // Tomato
+  accessory: '#98FB98'   // Pale Green
+};
+
+// Built from cocoClasses.json; COCO category names double as their ids
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  categories: Array.from(new Set(Object.values(typedCocoClasses).map(item => item.category))).map(id => ({
+    id,
+    name: id,
+    color: CATEGORY_COLORS[id] || '#ffffff'
+  })),
+  classes: Object.fromEntries(Object.entries(typedCocoClasses).map(([className, item]) => [
+    className,
+    { category: item.category, description: item.description, hidden: false }
+  ]))
+};
+
+export function categoryOf(taxonomy: Taxonomy, className: string): string {
+  return taxonomy.classes[className]?.category || UNKNOWN_CATEGORY;
+}
+
+export function findCategory(taxonomy: Taxonomy, id: string): TaxonomyCategory | undefined {
+  return taxonomy.categories.find(category => category.id === id);
+}
+
+export function categoryName(taxonomy: Taxonomy, id: string): string {
+  return findCategory(taxonomy, id)?.name ?? id;
+}
+
+export function classColor(taxonomy: Taxonomy, className: string): string | undefined {
+  return findCategory(taxonomy, categoryOf(taxonomy, className))?.color;
+}
+
+export function isClassHidden(taxonomy: Taxonomy, className: string): boolean {
+  return taxonomy.classes[className]?.hidden ?? false;
+}
+
+export function createCategory(name: string, color: string): TaxonomyCategory {
+  return {
+    id: `category-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    color
+  };
+}
+
+// Classes of a removed category become unassigned
+export function removeCategory(taxonomy: Taxonomy, id: string): Taxonomy {
+  return {
+    categories: taxonomy.categories.filter(category => category.id !== id),
+    classes: Object.fromEntries(Object.entries(taxonomy.classes).map(([className, entry]) => [
+      className,
+      entry.category === id ? { ...entry, category: UNKNOWN_CATEGORY } : entry
+    ]))
+  };
+}
+
+// Adds the classes of a label map that the taxonomy doesn't know yet,
+// unassigned, so a custom model's classes can be sorted into categories
+export function addLabels(taxonomy: Taxonomy, labels: string[]): Taxonomy {
+  const missing = labels.filter(label => !taxonomy.classes[label]);
+  if (missing.length === 0) return taxonomy;
+  return {
+    ...taxonomy,
+    classes: {
+      ...taxonomy.classes,
+      ...Object.fromEntries(missing.map(label => [
+        label,
+        { category: UNKNOWN_CATEGORY, description: '', hidden: false }
+      ]))
+    }
+  };
+}
+
+export function serializeTaxonomy(taxonomy: Taxonomy): string {
+  const file: TaxonomyFile = { version: 1, ...taxonomy };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseTaxonomy(text: string): Taxonomy {
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed?.categories) || typeof parsed.classes !== 'object' || parsed.classes === null) {
+    throw new Error('Taxonomy file must contain a "categories" array and a "classes" object');
+  }
+
+  const categories: TaxonomyCategory[] = parsed.categories.map((category: Partial<TaxonomyCategory>, index: number) => {
+    if (typeof category?.id !== 'string' || category.id === UNKNOWN_CATEGORY) {
+      throw new Error(`Category ${index + 1} needs a string "id" other than "${UNKNOWN_CATEGORY}"`);
+    }
+    return {
+      id: category.id,
+      name: typeof category.name === 'string' ? category.name : category.id,
+      color: typeof category.color === 'string' ? category.color : '#ffffff'
+    };
+  });
+  const ids = new Set(categories.map(category => category.id));
+
+  const classes: { [className: string]: TaxonomyClass } = {};
+  Object.entries(parsed.classes as { [className: string]: Partial<TaxonomyClass> }).forEach(([className, entry]) => {
+    const category = typeof entry?.category === 'string' && ids.has(entry.category) ? entry.category : UNKNOWN_CATEGORY;
+    classes[className] = {
+      category,
+      description: typeof entry?.description === 'string' ? entry.description : '',
+      hidden: entry?.hidden === true
+    };
+  });
+
+  return { categories, classes };
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { captureResultThumbnail } from './thumbnails';
+import type { BBox } from './bbox';
+import type { FrameResult } from '../types/worker';
+import type { PrivacySettings } from '../types/privacy';
+
+// Records what is drawn, in place of a browser canvas
+interface FakeCanvas {
+  width: number;
+  height: number;
+  drawn: unknown[];
+  masked: BBox[];
+  getContext: () => unknown;
+  toDataURL: () => string;
+}
+
+const createCanvas = (): FakeCanvas => {
+  const canvas: FakeCanvas = {
+    width: 0,
+    height: 0,
+    drawn: [],
+    masked: [],
+    getContext: () => context,
+    toDataURL: () => 'data:image/jpeg;base64,'
+  };
+  const context = {
+    canvas,
+    filter: 'none',
+    save: () => undefined,
+    restore: () => undefined,
+    drawImage: (source: unknown) => canvas.drawn.push(source),
+    fillRect: (x: number, y: number, width: number, height: number) => canvas.masked.push([x, y, width, height])
+  };
+  return canvas;
+};
+
+const privacy: PrivacySettings = {
+  enabled: true,
+  rules: { person: { method: 'mask', strength: 0.15 } },
+  minScore: 0.3,
+  padding: 0
+};
+
+const result = (frame: object, personBox: BBox, faceBox: BBox): FrameResult => ({
+  entities: [{ id: 1, class: 'person', bbox: personBox }],
+  redactTargets: [{ class: 'person', bbox: faceBox, score: 0.9 }],
+  frame
+}) as unknown as FrameResult;
+
+describe('captureResultThumbnail', () => {
+  // Thumbnails reuse one canvas across calls, so canvases outlive each test
+  const canvases: FakeCanvas[] = [];
+
+  beforeEach(() => {
+    canvases.forEach(canvas => {
+      canvas.drawn = [];
+      canvas.masked = [];
+    });
+    vi.stubGlobal('document', {
+      createElement: () => {
+        const canvas = createCanvas();
+        canvases.push(canvas);
+        return canvas;
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const thumbnailCanvas = () => canvases.find(canvas => canvas.drawn.length > 0) as FakeCanvas;
+
+  it('crops the result frame with the redactions found in that frame', () => {
+    const previous = result({ name: 'previous' }, [0, 0, 20, 20], [0, 0, 20, 20]);
+    const current = result({ name: 'current' }, [100, 100, 20, 20], [110, 100, 10, 10]);
+
+    expect(captureResultThumbnail(previous, [0, 0, 20, 20], privacy)).not.toBeNull();
+    const canvas = thumbnailCanvas();
+    canvas.drawn = [];
+    canvas.masked = [];
+
+    expect(captureResultThumbnail(current, [100, 100, 20, 20], privacy)).not.toBeNull();
+    expect(thumbnailCanvas()).toBe(canvas);
+    expect(canvas.drawn).toEqual([current.frame]);
+    // Both the tracked person and the redaction target, in crop pixels
+    expect(canvas.masked).toEqual([[10, 0, 10, 10], [0, 0, 20, 20]]);
+  });
+
+  it('leaves the crop as is while privacy mode is off', () => {
+    const current = result({ name: 'current' }, [100, 100, 20, 20], [110, 100, 10, 10]);
+
+    expect(captureResultThumbnail(current, [100, 100, 20, 20], { ...privacy, enabled: false })).not.toBeNull();
+    expect(thumbnailCanvas().masked).toEqual([]);
+  });
+
+  it('captures nothing without a returned frame', () => {
+    const current = { ...result({}, [0, 0, 20, 20], [0, 0, 10, 10]), frame: undefined };
+
+    expect(captureResultThumbnail(current, [0, 0, 20, 20], privacy)).toBeNull();
+    expect(canvases.every(canvas => canvas.drawn.length === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+import type { BBox } from './bbox';
+import type { FrameResult, FrameSource } from '../types/worker';
+import type { PrivacySettings, Redaction } from '../types/privacy';
+import { frameSourceSize } from './mediaSources';
+import { applyRedactions, frameRedactions, placeRedactions } from './redaction';
+
+let thumbnailCanvas: HTMLCanvasElement | null = null;
+
+// Draws a box of the source onto the canvas, resized so the longer side is
+// at most maxSize pixels. Redactions are in source pixels.
+function drawCrop(
+  canvas: HTMLCanvasElement,
+  source: CanvasImageSource,
+  bbox: BBox,
+  maxSize: number,
+  redactions: Redaction[]
+): CanvasRenderingContext2D | null {
+  const [x, y, width, height] = bbox;
+  if (width < 1 || height < 1) return null;
+
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(source, x, y, width, height, 0, 0, canvas.width, canvas.height);
+  applyRedactions(ctx, placeRedactions(redactions, { scale, offsetX: x * scale, offsetY: y * scale }));
+  return ctx;
+}
+
+// Crops a box out of the source into a small JPEG data URL, scaled so the
+// longer side is at most maxSize pixels. Redactions are in source pixels.
+export function captureThumbnail(
+  source: CanvasImageSource,
+  bbox: BBox,
+  maxSize = 64,
+  redactions: Redaction[] = []
+): string | null {
+  const canvas = thumbnailCanvas ?? (thumbnailCanvas = document.createElement('canvas'));
+  try {
+    return drawCrop(canvas, source, bbox, maxSize, redactions) ? canvas.toDataURL('image/jpeg', 0.7) : null;
+  } catch (error) {
+    console.error('Error capturing thumbnail:', error);
+    return null;
+  }
+}
+
+// Crops a box out of the frame returned with a result, redacted with the
+// regions found in that same frame. Null if the result carries no frame.
+export function captureResultThumbnail(
+  result: FrameResult,
+  bbox: BBox,
+  privacy: PrivacySettings,
+  maxSize = 64
+): string | null {
+  if (!result.frame) return null;
+  return captureThumbnail(result.frame, bbox, maxSize, frameRedactions(result, privacy));
+}
+
+// Like captureThumbnail, but resolves with a JPEG blob for storage. The crop
+// is drawn straight away, so the source may move on before this resolves.
+export function captureCrop(
+  source: CanvasImageSource,
+  bbox: BBox,
+  maxSize = 256,
+  redactions: Redaction[] = []
+): Promise<Blob | null> {
+  const canvas = document.createElement('canvas');
+  try {
+    if (!drawCrop(canvas, source, bbox, maxSize, redactions)) return Promise.resolve(null);
+  } catch (error) {
+    console.error('Error capturing crop:', error);
+    return Promise.resolve(null);
+  }
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+}
+
+// Grabs the whole frame with the overlay canvas drawn on top as a JPEG data
+// URL, scaled down to at most maxWidth pixels wide. The overlay is already in
+// display orientation, so mirror flips only the source. Redactions are in
+// source pixels and applied before the overlay is drawn.
+export function captureFrame(
+  source: FrameSource | ImageBitmap,
+  overlay: HTMLCanvasElement | null,
+  mirror = false,
+  maxWidth = 640,
+  redactions: Redaction[] = []
+): string | null {
+  const { width, height } = frameSourceSize(source);
+  if (width === 0 || height === 0) return null;
+
+  const scale = Math.min(1, maxWidth / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  try {
+    ctx.save();
+    if (mirror) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    ctx.restore();
+    applyRedactions(ctx, placeRedactions(redactions, { scale, mirrorWidth: mirror ? width : undefined }));
+    if (overlay && overlay.width > 0) {
+      ctx.drawImage(overlay, 0, 0, canvas.width, canvas.height);
+    }
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.error('Error capturing frame:', error);
+    return null;
+  }
+}
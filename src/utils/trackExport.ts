@@ -0,0 +1,128 @@
+import type { DetectedObject } from '@tensorflow-models/coco-ssd';
+import type { ExportFormat, RecordedFrame } from '../types/recording';
+import type { TrackBox } from '../types/evaluation';
+import type { BBox } from './bbox';
+import cocoClasses from './cocoClasses.json';
+
+// MOTChallenge files carry numeric class ids; COCO classes are numbered in
+// the order of cocoClasses.json, starting from 1
+const classNames = Object.keys(cocoClasses);
+const classIds = new Map(classNames.map((name, index) => [name, index + 1]));
+
+const fixed = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const joinLines = (lines: string[]) => lines.map(line => `${line}\n`).join('');
+
+export function toJsonLines(frames: readonly RecordedFrame[]): string {
+  return joinLines(frames.map(frame => JSON.stringify(frame)));
+}
+
+const csvField = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per detection and per track, told apart by the type column
+export function toCsv(frames: readonly RecordedFrame[]): string {
+  const rows: (string | number | boolean)[][] = [
+    ['frame', 'timestamp', 'type', 'id', 'class', 'x', 'y', 'width', 'height', 'score', 'predicted']
+  ];
+
+  frames.forEach(frame => {
+    frame.detections.forEach(detection => {
+      rows.push([
+        frame.frame, frame.timestamp, 'detection', '', detection.class,
+        ...detection.bbox, fixed(detection.score, 4), false
+      ]);
+    });
+    frame.tracks.forEach(track => {
+      rows.push([
+        frame.frame, frame.timestamp, 'track', track.id, track.class,
+        ...track.bbox, fixed(track.score, 4), track.predicted
+      ]);
+    });
+  });
+
+  return joinLines(rows.map(row => row.map(csvField).join(',')));
+}
+
+// MOTChallenge det.txt: frame, -1, left, top, width, height, confidence, -1, -1, -1
+export function toMotDetections(frames: readonly RecordedFrame[]): string {
+  const lines: string[] = [];
+  frames.forEach(frame => {
+    frame.detections.forEach(({ bbox: [x, y, width, height], score }) => {
+      lines.push([frame.frame, -1, x, y, width, height, fixed(score, 4), -1, -1, -1].join(','));
+    });
+  });
+  return joinLines(lines);
+}
+
+// MOTChallenge gt.txt: frame, id, left, top, width, height, consider, class, visibility.
+// Coasting predictions are left out unless asked for, since nothing was observed there.
+export function toMotGroundTruth(frames: readonly RecordedFrame[], includePredicted = false): string {
+  const lines: string[] = [];
+  frames.forEach(frame => {
+    frame.tracks.forEach(track => {
+      if (track.predicted && !includePredicted) return;
+      const [x, y, width, height] = track.bbox;
+      lines.push([frame.frame, track.id, x, y, width, height, 1, classIds.get(track.class) ?? -1, 1].join(','));
+    });
+  });
+  return joinLines(lines);
+}
+
+export const exportFileNames: { [format in ExportFormat]: string } = {
+  jsonl: 'tracks.jsonl',
+  csv: 'tracks.csv',
+  'mot-det': 'det.txt',
+  'mot-gt': 'gt.txt'
+};
+
+export function exportFrames(frames: readonly RecordedFrame[], format: ExportFormat): string {
+  switch (format) {
+    case 'jsonl':
+      return toJsonLines(frames);
+    case 'csv':
+      return toCsv(frames);
+    case 'mot-det':
+      return toMotDetections(frames);
+    case 'mot-gt':
+      return toMotGroundTruth(frames);
+  }
+}
+
+// Splits MOTChallenge text into numeric rows grouped by 0-based frame index
+function parseMotRows(text: string): number[][][] {
+  const frames: number[][][] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const values = line.split(',').map(Number);
+    if (values.length < 6 || values.slice(0, 6).some(Number.isNaN) || values[0] < 1) {
+      throw new Error(`Invalid MOTChallenge row on line ${index + 1}`);
+    }
+    const frame = values[0] - 1;
+    while (frames.length <= frame) frames.push([]);
+    frames[frame].push(values);
+  });
+  return frames;
+}
+
+// det.txt has no class column, so every detection gets defaultClass
+export function parseMotDetections(text: string, defaultClass = 'person'): DetectedObject[][] {
+  return parseMotRows(text).map(rows => rows.map(values => ({
+    bbox: values.slice(2, 6) as BBox,
+    class: defaultClass,
+    score: values[6] ?? 1
+  })));
+}
+
+// gt.txt rows whose "consider" flag is 0 are ignored, as in MOTChallenge
+export function parseMotGroundTruth(text: string): TrackBox[][] {
+  return parseMotRows(text).map(rows => rows
+    .filter(values => values[6] !== 0)
+    .map(values => ({
+      id: values[1],
+      bbox: values.slice(2, 6) as BBox,
+      class: values[7] > 0 ? classNames[values[7] - 1] : undefined
+    })));
+}
@@ -0,0 +1,253 @@
+import type { TrackedEntity } from '../types/entities';
+import type {
+  LineZoneStats,
+  Point,
+  PolygonZoneStats,
+  Zone,
+  ZoneFile,
+  ZoneFilter,
+  ZoneStats
+} from '../types/zones';
+import type { Taxonomy } from '../types/taxonomy';
+import { DEFAULT_TAXONOMY, categoryOf } from './taxonomy';
+
+interface Occupant {
+  class: string;
+  enteredAt: number;
+}
+
+interface PolygonState {
+  occupants: Map<number, Occupant>;
+  stats: PolygonZoneStats;
+  completedDwellMs: number;
+}
+
+// Cross product of (b - a) and (p - a). With y pointing down, a positive
+// value means p lies to the right of a -> b.
+function side(a: Point, b: Point, p: Point): number {
+  return (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]);
+}
+
+function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+  const d1 = side(q1, q2, p1);
+  const d2 = side(q1, q2, p2);
+  const d3 = side(p1, p2, q1);
+  const d4 = side(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+    ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > point[1]) !== (yj > point[1]) &&
+        point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function matchesZoneFilter(filter: ZoneFilter, className: string, taxonomy: Taxonomy): boolean {
+  if (filter.classes.length === 0 && filter.categories.length === 0) return true;
+  return filter.classes.includes(className) || filter.categories.includes(categoryOf(taxonomy, className));
+}
+
+function emptyLineStats(): LineZoneStats {
+  return { kind: 'line', in: 0, out: 0, byClass: {} };
+}
+
+function emptyPolygonState(): PolygonState {
+  return {
+    occupants: new Map(),
+    completedDwellMs: 0,
+    stats: {
+      kind: 'polygon',
+      occupancy: 0,
+      peakOccupancy: 0,
+      occupantIds: [],
+      entries: 0,
+      completedVisits: 0,
+      totalDwellMs: 0,
+      averageDwellMs: 0,
+      byClass: {}
+    }
+  };
+}
+
+// Turns tracked entity centroids into per-zone line-crossing counts and
+// polygon occupancy. Runs on the main thread against tracker output.
+export class ZoneCounter {
+  private zones: Zone[] = [];
+  private lastCentroids = new Map<number, Point>();
+  private lineStats = new Map<string, LineZoneStats>();
+  private polygonStates = new Map<string, PolygonState>();
+  private taxonomy: Taxonomy = DEFAULT_TAXONOMY;
+
+  setZones(zones: Zone[]): void {
+    this.zones = zones;
+    // Keep counts of zones that still exist
+    const ids = new Set(zones.map(zone => zone.id));
+    Array.from(this.lineStats.keys()).forEach(id => {
+      if (!ids.has(id)) this.lineStats.delete(id);
+    });
+    Array.from(this.polygonStates.keys()).forEach(id => {
+      if (!ids.has(id)) this.polygonStates.delete(id);
+    });
+  }
+
+  // Category filters match against this taxonomy
+  setTaxonomy(taxonomy: Taxonomy): void {
+    this.taxonomy = taxonomy;
+  }
+
+  update(entities: TrackedEntity[], frameWidth: number, frameHeight: number, timestamp: number): void {
+    if (frameWidth === 0 || frameHeight === 0) return;
+
+    entities.forEach(entity => {
+      // Only observed positions count; coasting predictions could cross a
+      // line the object never reached
+      if (entity.isPredicted) return;
+
+      const [x, y, width, height] = entity.bbox;
+      const centroid: Point = [(x + width / 2) / frameWidth, (y + height / 2) / frameHeight];
+      const previous = this.lastCentroids.get(entity.id);
+
+      this.zones.forEach(zone => {
+        if (!matchesZoneFilter(zone.filter, entity.class, this.taxonomy)) return;
+        if (zone.kind === 'line') {
+          if (previous) this.checkCrossing(zone, entity, previous, centroid);
+        } else {
+          this.checkOccupancy(zone, entity, centroid, timestamp);
+        }
+      });
+
+      this.lastCentroids.set(entity.id, centroid);
+    });
+
+    // Entities that have been dropped by the tracker leave every polygon
+    const tracked = new Set(entities.map(entity => entity.id));
+    this.polygonStates.forEach(state => {
+      Array.from(state.occupants.keys()).forEach(id => {
+        if (!tracked.has(id)) this.leave(state, id, timestamp);
+      });
+    });
+    Array.from(this.lastCentroids.keys()).forEach(id => {
+      if (!tracked.has(id)) this.lastCentroids.delete(id);
+    });
+  }
+
+  removeEntity(id: number, timestamp: number): void {
+    this.lastCentroids.delete(id);
+    this.polygonStates.forEach(state => this.leave(state, id, timestamp));
+  }
+
+  getStats(now = Date.now()): { [zoneId: string]: ZoneStats } {
+    const stats: { [zoneId: string]: ZoneStats } = {};
+    this.zones.forEach(zone => {
+      if (zone.kind === 'line') {
+        const line = this.lineStats.get(zone.id) || emptyLineStats();
+        stats[zone.id] = { ...line, byClass: { ...line.byClass } };
+        return;
+      }
+
+      const state = this.polygonStates.get(zone.id) || emptyPolygonState();
+      const currentDwell = Array.from(state.occupants.values())
+        .reduce((total, occupant) => total + (now - occupant.enteredAt), 0);
+      const visits = state.stats.completedVisits + state.occupants.size;
+      const totalDwellMs = state.completedDwellMs + currentDwell;
+      stats[zone.id] = {
+        ...state.stats,
+        occupantIds: Array.from(state.occupants.keys()),
+        byClass: { ...state.stats.byClass },
+        totalDwellMs,
+        averageDwellMs: visits > 0 ? totalDwellMs / visits : 0
+      };
+    });
+    return stats;
+  }
+
+  reset(): void {
+    this.lastCentroids.clear();
+    this.lineStats.clear();
+    this.polygonStates.clear();
+  }
+
+  private checkCrossing(zone: Zone, entity: TrackedEntity, from: Point, to: Point) {
+    for (let i = 0; i < zone.points.length - 1; i++) {
+      const a = zone.points[i];
+      const b = zone.points[i + 1];
+      if (!segmentsIntersect(from, to, a, b)) continue;
+
+      const direction = side(a, b, to) > 0 ? 'in' : 'out';
+      const stats = this.lineStats.get(zone.id) || emptyLineStats();
+      const byClass = stats.byClass[entity.class] || { in: 0, out: 0 };
+      stats[direction]++;
+      byClass[direction]++;
+      stats.byClass[entity.class] = byClass;
+      this.lineStats.set(zone.id, stats);
+      // One crossing per movement, even where polyline segments meet
+      return;
+    }
+  }
+
+  private checkOccupancy(zone: Zone, entity: TrackedEntity, centroid: Point, timestamp: number) {
+    const state = this.polygonStates.get(zone.id) || emptyPolygonState();
+    this.polygonStates.set(zone.id, state);
+
+    const inside = zone.points.length >= 3 && pointInPolygon(centroid, zone.points);
+    const isOccupant = state.occupants.has(entity.id);
+
+    if (inside && !isOccupant) {
+      state.occupants.set(entity.id, { class: entity.class, enteredAt: timestamp });
+      state.stats.entries++;
+      state.stats.byClass[entity.class] = (state.stats.byClass[entity.class] || 0) + 1;
+    } else if (!inside && isOccupant) {
+      this.leave(state, entity.id, timestamp);
+    }
+
+    state.stats.occupancy = state.occupants.size;
+    state.stats.peakOccupancy = Math.max(state.stats.peakOccupancy, state.occupants.size);
+  }
+
+  private leave(state: PolygonState, id: number, timestamp: number) {
+    const occupant = state.occupants.get(id);
+    if (!occupant) return;
+    state.occupants.delete(id);
+    state.completedDwellMs += timestamp - occupant.enteredAt;
+    state.stats.completedVisits++;
+    state.stats.occupancy = state.occupants.size;
+  }
+}
+
+export function serializeZones(zones: Zone[]): string {
+  const file: ZoneFile = { version: 1, zones };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseZones(text: string): Zone[] {
+  const parsed = JSON.parse(text);
+  const zones: unknown = Array.isArray(parsed) ? parsed : parsed?.zones;
+  if (!Array.isArray(zones)) {
+    throw new Error('Zone file must contain a "zones" array');
+  }
+
+  return zones.map((zone, index) => {
+    if ((zone?.kind !== 'line' && zone?.kind !== 'polygon') || !Array.isArray(zone.points)) {
+      throw new Error(`Zone ${index + 1} is not a valid line or polygon`);
+    }
+    return {
+      id: String(zone.id ?? `zone-${Date.now().toString(36)}-${index}`),
+      kind: zone.kind,
+      name: String(zone.name ?? `Zone ${index + 1}`),
+      points: zone.points.map((p: unknown[]) => [Number(p[0]), Number(p[1])] as Point),
+      filter: {
+        classes: Array.isArray(zone.filter?.classes) ? zone.filter.classes.map(String) : [],
+        categories: Array.isArray(zone.filter?.categories) ? zone.filter.categories.map(String) : []
+      },
+      color: typeof zone.color === 'string' ? zone.color : '#00FFFF'
+    } as Zone;
+  });
+}
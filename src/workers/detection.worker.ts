@@ -0,0 +1,92 @@
+import { DetectionEngine } from '../utils/detectionEngine';
+import type { DetectionWorkerRequest, DetectionWorkerResponse } from '../types/worker';
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<DetectionWorkerRequest>) => void) | null;
+  postMessage(message: DetectionWorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const engine = new DetectionEngine();
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+async function handleMessage(message: DetectionWorkerRequest): Promise<void> {
+  switch (message.type) {
+    case 'load': {
+      const { loadId } = message;
+      try {
+        const detector = await engine.load(message.config, message.inference);
+        scope.postMessage({ type: 'loaded', loadId, kind: detector.kind });
+      } catch (error) {
+        scope.postMessage({ type: 'error', loadId, message: errorMessage(error) });
+      }
+      break;
+    }
+
+    case 'frame': {
+      const { frameId, timestamp, options, frame } = message;
+      let bitmap: ImageBitmap | null = null;
+      let returned: ImageBitmap | undefined;
+
+      try {
+        // VideoFrames are converted so every detector sees the same input type
+        bitmap = 'displayWidth' in frame ? await createImageBitmap(frame) : frame;
+        const result = await engine.process(bitmap, options, timestamp);
+        returned = options.returnFrame ? bitmap : undefined;
+        scope.postMessage({
+          type: 'result',
+          result: {
+            frameId,
+            timestamp,
+            width: bitmap.width,
+            height: bitmap.height,
+            ...result,
+            frame: returned
+          }
+        }, returned ? [returned] : []);
+      } catch (error) {
+        scope.postMessage({ type: 'error', frameId, message: errorMessage(error) });
+      } finally {
+        if ('displayWidth' in frame) frame.close();
+        if (bitmap !== returned) bitmap?.close();
+      }
+      break;
+    }
+
+    case 'reid': {
+      try {
+        await engine.setReidEnabled(message.enabled);
+        scope.postMessage({ type: 'reid', enabled: message.enabled });
+      } catch (error) {
+        scope.postMessage({ type: 'reid', enabled: false, error: errorMessage(error) });
+      }
+      break;
+    }
+
+    case 'configureTracker':
+      engine.configureTracker(message.options);
+      break;
+
+    case 'taxonomy':
+      engine.setTaxonomy(message.taxonomy);
+      break;
+
+    case 'reset':
+      engine.reset(message.stream);
+      break;
+
+    case 'removeStream':
+      engine.removeStream(message.stream);
+      break;
+  }
+}
+
+// Messages are handled one at a time, so a load never swaps the detector
+// while a frame is being analysed and later messages see its outcome
+let queue = Promise.resolve();
+
+scope.onmessage = (event) => {
+  const message = event.data;
+  queue = queue.then(() => handleMessage(message));
+};